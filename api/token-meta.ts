@@ -0,0 +1,231 @@
+import { Interface } from "ethers";
+import contractABI from "../src/contractABI";
+import bundledCollections from "../src/collections/collections.json";
+import { injectPageMeta } from "../src/pageMetaTags";
+import type { PageMeta } from "../src/pageMetaTags";
+
+// Token pages for link unfurlers. Crawlers don't run the app's scripts, so
+// vercel.json routes /token/:id and /c/:slug/token/:id here and this serves
+// index.html with the token's name, description and image already in its
+// meta tags. Browsers get the same page and the app takes over as usual.
+//
+// Reads the app's VITE_* variables, which Vercel also exposes to functions.
+// Any failure just serves the page with the collection's tags.
+
+export const config = { runtime: "edge" };
+
+const env = process.env;
+
+// Per RPC call and metadata fetch; unfurlers give up on slow pages
+const TIMEOUT_MS = 3_000;
+// src/collections/registry.ts accepts the same slugs
+const SLUG = /^[a-z0-9][a-z0-9-]*$/;
+
+const iface = new Interface(contractABI);
+
+function urlList(...values: (string | undefined)[]) {
+  return values
+    .flatMap((v) => (v ?? "").split(","))
+    .map((u) => u.trim())
+    .filter(Boolean);
+}
+
+// Public chains in src/chains/registry.ts order, with the same RPC settings
+const CHAIN_RPCS: Record<string, string[]> = {
+  "monad-testnet": urlList(
+    env.VITE_MONAD_RPC_URLS,
+    env.VITE_MONAD_RPC_URL,
+    "https://testnet-rpc.monad.xyz"
+  ),
+  monad: urlList(env.VITE_MAINNET_RPC_URLS, "https://rpc.monad.xyz"),
+};
+
+interface Collection {
+  name: string; // site title
+  tokenName: string;
+  description?: string;
+  // Contract address by chain key
+  deployments: Record<string, string | undefined>;
+}
+
+// DEFAULT_COLLECTION in src/collections/registry.ts
+const DEFAULT_COLLECTION: Collection = {
+  name: "Shramp NFT",
+  tokenName: "Shramp",
+  deployments: {
+    "monad-testnet": env.VITE_CONTRACT_ADDRESS,
+    monad: env.VITE_MAINNET_CONTRACT_ADDRESS,
+  },
+};
+
+function toCollection(value: unknown): Collection {
+  const c = (value ?? {}) as Record<string, unknown>;
+  const deployments = (c.deployments ?? {}) as Record<
+    string,
+    { contractAddress?: string }
+  >;
+  return {
+    name: String(c.name),
+    tokenName: String(c.tokenName ?? c.name),
+    description: typeof c.description === "string" ? c.description : undefined,
+    deployments: Object.fromEntries(
+      Object.entries(deployments).map(([key, d]) => [key, d?.contractAddress])
+    ),
+  };
+}
+
+/** The collection at `slug`: bundled ones first, then VITE_COLLECTIONS_URL. */
+async function findCollection(slug: string | null) {
+  if (!slug) return DEFAULT_COLLECTION;
+  const bySlug = (items: unknown) =>
+    Array.isArray(items)
+      ? items.find((c) => (c as { slug?: unknown })?.slug === slug)
+      : undefined;
+  let found = bySlug(bundledCollections);
+  if (!found && env.VITE_COLLECTIONS_URL) {
+    const res = await fetch(env.VITE_COLLECTIONS_URL, {
+      signal: AbortSignal.timeout(TIMEOUT_MS),
+    });
+    if (res.ok) found = bySlug(await res.json());
+  }
+  return found ? toCollection(found) : null;
+}
+
+/** The chain the app shows first: VITE_DEFAULT_CHAIN, else registry order. */
+function pickDeployment(collection: Collection) {
+  const keys = Object.keys(CHAIN_RPCS).filter(
+    (key) => collection.deployments[key]
+  );
+  const key = keys.includes(env.VITE_DEFAULT_CHAIN ?? "")
+    ? env.VITE_DEFAULT_CHAIN!
+    : keys[0];
+  return key
+    ? { rpcUrls: CHAIN_RPCS[key], address: collection.deployments[key]! }
+    : null;
+}
+
+async function readTokenUri(
+  rpcUrls: string[],
+  address: string,
+  tokenId: bigint
+): Promise<string | null> {
+  const data = iface.encodeFunctionData("tokenURI", [tokenId]);
+  for (const url of rpcUrls) {
+    try {
+      const res = await fetch(url, {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({
+          jsonrpc: "2.0",
+          id: 1,
+          method: "eth_call",
+          params: [{ to: address, data }, "latest"],
+        }),
+        signal: AbortSignal.timeout(TIMEOUT_MS),
+      });
+      const body = (await res.json()) as { result?: string; error?: unknown };
+      // A revert means there's no such token; no point asking another RPC
+      if (body.error) return null;
+      if (body.result) {
+        return iface.decodeFunctionResult("tokenURI", body.result)[0];
+      }
+    } catch {
+      // try the next endpoint
+    }
+  }
+  return null;
+}
+
+/** First gateway URL for an ipfs:// or ar:// URI (see src/gallery/metadata.ts). */
+function httpUrl(uri: string): string | null {
+  const trimmed = uri.trim();
+  const ipfsGateway =
+    urlList(env.VITE_IPFS_GATEWAYS)[0] ?? "https://ipfs.io/ipfs/";
+  const arweaveGateway =
+    urlList(env.VITE_ARWEAVE_GATEWAYS)[0] ?? "https://arweave.net/";
+  const withSlash = (g: string) => (g.endsWith("/") ? g : `${g}/`);
+  const ipfs = /^ipfs:\/\/(?:ipfs\/)?(.+)$/i.exec(trimmed);
+  if (ipfs) return withSlash(ipfsGateway) + ipfs[1];
+  const ar = /^ar:\/\/(.+)$/i.exec(trimmed);
+  if (ar) return withSlash(arweaveGateway) + ar[1];
+  return /^(https?:|data:)/i.test(trimmed) ? trimmed : null;
+}
+
+async function tokenMeta(
+  collection: Collection,
+  tokenId: bigint,
+  pageUrl: string
+): Promise<PageMeta> {
+  const fallback: PageMeta = {
+    title: `${collection.tokenName} #${tokenId} | ${collection.name}`,
+    description: `${collection.tokenName} #${tokenId} from the ${collection.name} collection.`,
+    url: pageUrl,
+  };
+  const deployment = pickDeployment(collection);
+  if (!deployment) return fallback;
+  const uri = await readTokenUri(
+    deployment.rpcUrls,
+    deployment.address,
+    tokenId
+  );
+  const metadataUrl = uri ? httpUrl(uri) : null;
+  if (!metadataUrl) return fallback;
+  let metadata: Record<string, unknown>;
+  try {
+    const res = await fetch(metadataUrl, {
+      signal: AbortSignal.timeout(TIMEOUT_MS),
+    });
+    if (!res.ok) throw new Error(`HTTP ${res.status} from ${metadataUrl}`);
+    metadata = (await res.json()) as Record<string, unknown>;
+  } catch (e) {
+    console.warn(`Metadata for token ${tokenId} unavailable`, e);
+    return fallback;
+  }
+  const text = (key: string) =>
+    typeof metadata?.[key] === "string" ? (metadata[key] as string) : undefined;
+  const image = text("image") ?? text("image_url");
+  const imageUrl = image ? httpUrl(image) : null;
+  return {
+    title: text("name")
+      ? `${text("name")} | ${collection.name}`
+      : fallback.title,
+    description: text("description") ?? fallback.description,
+    // Unfurlers only fetch http(s) images
+    image: imageUrl?.startsWith("http") ? imageUrl : undefined,
+    url: pageUrl,
+  };
+}
+
+export default async function handler(request: Request): Promise<Response> {
+  const url = new URL(request.url);
+  const slug = url.searchParams.get("slug");
+  const id = url.searchParams.get("id") ?? "";
+  const page = await fetch(new URL("/index.html", url.origin));
+  const html = await page.text();
+  if (!page.ok || !/^\d{1,78}$/.test(id) || (slug && !SLUG.test(slug))) {
+    return new Response(html, {
+      status: page.status,
+      headers: { "content-type": "text/html; charset=utf-8" },
+    });
+  }
+
+  const tokenId = BigInt(id);
+  const path = `${slug ? `/c/${slug}` : ""}/token/${tokenId}`;
+  let meta: PageMeta | null = null;
+  try {
+    const collection = await findCollection(slug);
+    if (collection) {
+      meta = await tokenMeta(collection, tokenId, url.origin + path);
+    }
+  } catch (e) {
+    console.warn(`Token meta for ${path} failed`, e);
+  }
+  return new Response(meta ? injectPageMeta(html, meta) : html, {
+    headers: {
+      "content-type": "text/html; charset=utf-8",
+      // Metadata rarely changes; let the CDN absorb crawler bursts
+      "cache-control":
+        "public, max-age=0, s-maxage=300, stale-while-revalidate=3600",
+    },
+  });
+}
@@ -0,0 +1,59 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import "@openzeppelin/contracts/token/ERC721/ERC721.sol";
+import "@openzeppelin/contracts/access/Ownable.sol";
+
+/// Reference implementation of the contract the frontend talks to; its ABI
+/// is what `src/contractABI.ts` describes. Used for local development and
+/// end-to-end testing (see scripts/deploy-local.ts).
+contract ShrampNFT is ERC721, Ownable {
+    uint256 public constant mintPrice = 0.1 ether;
+    uint256 public constant maxSupply = 500;
+    uint256 public constant maxPerWallet = 2;
+
+    // Token ids start at 1
+    uint256 public nextTokenId = 1;
+    mapping(address => uint256) public mintedCount;
+
+    string private baseTokenURI;
+
+    event NFTMinted(address indexed minter, uint256 indexed tokenId);
+
+    constructor(string memory baseURI)
+        ERC721("Shramp", "SHRAMP")
+        Ownable(msg.sender)
+    {
+        baseTokenURI = baseURI;
+    }
+
+    function totalSupply() public view returns (uint256) {
+        return nextTokenId - 1;
+    }
+
+    function mint(uint256 quantity) external payable {
+        require(quantity > 0, "Quantity must be at least 1");
+        require(msg.value == mintPrice * quantity, "Incorrect mint price");
+        require(
+            mintedCount[msg.sender] + quantity <= maxPerWallet,
+            "Max NFTs per wallet reached"
+        );
+        require(totalSupply() + quantity <= maxSupply, "Exceeds max supply");
+
+        mintedCount[msg.sender] += quantity;
+        for (uint256 i = 0; i < quantity; i++) {
+            uint256 tokenId = nextTokenId++;
+            _safeMint(msg.sender, tokenId);
+            emit NFTMinted(msg.sender, tokenId);
+        }
+    }
+
+    function withdraw() external onlyOwner {
+        (bool ok, ) = owner().call{value: address(this).balance}("");
+        require(ok, "Withdraw failed");
+    }
+
+    function _baseURI() internal view override returns (string memory) {
+        return baseTokenURI;
+    }
+}
@@ -0,0 +1,27 @@
+import { readFileSync, writeFileSync } from "node:fs";
+import { resolve } from "node:path";
+import { buildAllowlist, parseAllowlistCsv } from "../src/allowlist/merkle";
+
+// Build the allowlist Merkle tree from a CSV of `address,allowance` rows and
+// write the root plus every proof to the JSON bundled with the frontend.
+//
+//   npm run allowlist -- allowlist.csv [out.json]
+//
+// Set the printed root as the contract's Merkle root before the presale.
+
+const [input, output = "src/allowlist/allowlist.json"] = process.argv.slice(2);
+if (!input) {
+  console.error("Usage: npm run allowlist -- <allowlist.csv> [out.json]");
+  process.exit(1);
+}
+
+try {
+  const entries = parseAllowlistCsv(readFileSync(resolve(input), "utf8"));
+  const tree = buildAllowlist(entries);
+  writeFileSync(resolve(output), JSON.stringify(tree, null, 2) + "\n");
+  console.log(`${entries.length} addresses written to ${output}`);
+  console.log(`Merkle root: ${tree.root}`);
+} catch (e) {
+  console.error((e as Error).message);
+  process.exit(1);
+}
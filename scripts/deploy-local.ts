@@ -0,0 +1,134 @@
+import { readFileSync, writeFileSync } from "node:fs";
+import { createRequire } from "node:module";
+import { resolve } from "node:path";
+import { ContractFactory, Interface, JsonRpcProvider } from "ethers";
+import solc from "solc";
+import contractABI from "../src/contractABI";
+
+// Compile contracts/ShrampNFT.sol, deploy it to a local Anvil or Hardhat
+// node, seed a few mints and point the devnet build at it.
+//
+//   anvil                      # or: npx hardhat node
+//   npm run devnet:deploy -- [rpcUrl] [baseURI]
+//   npm run dev:local
+//
+// Deploys from the node's first unlocked account and mints from the next
+// two, so the gallery and mint feed have data while account #0 can still
+// mint its full allowance.
+
+const CONTRACT = "contracts/ShrampNFT.sol";
+const ENV_FILE = ".env.devnet.local";
+// Minted on deploy: [account index, quantity]
+const SEED_MINTS: [number, number][] = [
+  [1, 2],
+  [2, 1],
+];
+
+const [
+  rpcUrl = process.env.LOCAL_RPC_URL ?? "http://127.0.0.1:8545",
+  baseURI = "ipfs://bafybeihshrampdevnetplaceholder/",
+] = process.argv.slice(2);
+
+const require = createRequire(import.meta.url);
+
+interface SolcOutput {
+  errors?: { severity: string; formattedMessage: string }[];
+  contracts: Record<
+    string,
+    Record<string, { abi: unknown[]; evm: { bytecode: { object: string } } }>
+  >;
+}
+
+/** Compile the reference contract, resolving imports from node_modules. */
+function compile() {
+  const input = {
+    language: "Solidity",
+    sources: { [CONTRACT]: { content: readFileSync(CONTRACT, "utf8") } },
+    settings: {
+      optimizer: { enabled: true, runs: 200 },
+      evmVersion: "cancun",
+      outputSelection: { "*": { "*": ["abi", "evm.bytecode.object"] } },
+    },
+  };
+  const findImports = (path: string) => {
+    try {
+      return { contents: readFileSync(require.resolve(path), "utf8") };
+    } catch {
+      return { error: `Import not found: ${path}` };
+    }
+  };
+  const output: SolcOutput = JSON.parse(
+    solc.compile(JSON.stringify(input), { import: findImports })
+  );
+  const errors = (output.errors ?? []).filter((e) => e.severity === "error");
+  if (errors.length) {
+    throw new Error(errors.map((e) => e.formattedMessage).join("\n"));
+  }
+  const { abi, evm } = output.contracts[CONTRACT].ShrampNFT;
+  return { abi, bytecode: evm.bytecode.object };
+}
+
+/** Everything the frontend's ABI declares must exist in the compiled one. */
+function assertMatchesFrontendAbi(abi: unknown[]) {
+  const compiled = new Interface(abi as never);
+  const missing: string[] = [];
+  new Interface(contractABI).forEachFunction((f) => {
+    if (!compiled.getFunction(f.format())) missing.push(f.format());
+  });
+  new Interface(contractABI).forEachEvent((e) => {
+    if (!compiled.getEvent(e.format())) missing.push(`event ${e.format()}`);
+  });
+  if (missing.length) {
+    throw new Error(
+      `${CONTRACT} doesn't implement the frontend ABI: ${missing.join(", ")}`
+    );
+  }
+}
+
+async function main() {
+  const { abi, bytecode } = compile();
+  assertMatchesFrontendAbi(abi);
+
+  const provider = new JsonRpcProvider(rpcUrl);
+  const { chainId } = await provider.getNetwork();
+  if (chainId !== 31337n) {
+    throw new Error(
+      `${rpcUrl} is chain ${chainId}, expected a local devnet (31337)`
+    );
+  }
+
+  const deployer = await provider.getSigner(0);
+  const factory = new ContractFactory(abi as never, bytecode, deployer);
+  const contract = await factory.deploy(baseURI);
+  await contract.waitForDeployment();
+  const address = await contract.getAddress();
+  const deployTx = contract.deploymentTransaction()!;
+  const deployBlock = (await deployTx.wait())!.blockNumber;
+  console.log(`ShrampNFT deployed at ${address} (block ${deployBlock})`);
+
+  const price: bigint = await contract.getFunction("mintPrice")();
+  for (const [index, quantity] of SEED_MINTS) {
+    const signer = await provider.getSigner(index);
+    const tx = await contract.connect(signer).getFunction("mint")(quantity, {
+      value: price * BigInt(quantity),
+    });
+    await tx.wait();
+    console.log(`Minted ${quantity} to ${signer.address}`);
+  }
+
+  // Only the local chain is deployed in devnet mode, so it's the one offered
+  const env = [
+    "VITE_DEFAULT_CHAIN=local",
+    `VITE_LOCAL_RPC_URL=${rpcUrl}`,
+    `VITE_LOCAL_CONTRACT_ADDRESS=${address}`,
+    "VITE_CONTRACT_ADDRESS=",
+    "VITE_MAINNET_CONTRACT_ADDRESS=",
+  ];
+  writeFileSync(resolve(ENV_FILE), env.join("\n") + "\n");
+  console.log(`Wrote ${ENV_FILE}; start the app with npm run dev:local`);
+}
+
+main().catch((e) => {
+  console.error((e as Error).message);
+  process.exit(1);
+});
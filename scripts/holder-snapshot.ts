@@ -0,0 +1,206 @@
+import {
+  existsSync,
+  mkdirSync,
+  readFileSync,
+  renameSync,
+  writeFileSync,
+} from "node:fs";
+import { join, resolve } from "node:path";
+import { parseArgs } from "node:util";
+import { JsonRpcProvider, getAddress } from "ethers";
+import type { ChainConfig } from "../src/chains/registry";
+import { batchRead } from "../src/rpc/multicall";
+import { fetchContractLogs } from "../src/rpc/logs";
+import {
+  MINT_TOPIC,
+  TRANSFER_TOPIC,
+  applyOwnershipLogs,
+  holdersCsv,
+  holdersOf,
+  verifyOwnership,
+} from "../src/holders/snapshot";
+import type { Ownership } from "../src/holders/snapshot";
+
+// Snapshot of current Shramp holders at a block height, for airdrops and
+// allowlists. Rebuilds ownership from NFTMinted + Transfer logs, checks every
+// token with ownerOf at that block, and writes CSV and JSON.
+//
+//   npm run snapshot -- --contract 0x... [--rpc URL] [--from deployBlock]
+//                       [--block N] [--out snapshots] [--fresh]
+//
+// Long scans checkpoint after every log window; rerunning with the same
+// contract resumes where the last run stopped.
+
+const { values } = parseArgs({
+  options: {
+    rpc: { type: "string" },
+    contract: { type: "string" },
+    from: { type: "string" },
+    block: { type: "string" },
+    out: { type: "string", default: "snapshots" },
+    chunk: { type: "string" },
+    multicall: { type: "string" },
+    fresh: { type: "boolean", default: false },
+  },
+});
+
+const MULTICALL3 = "0xcA11bde05977b3631167028862bE2a173976CA11";
+
+interface Checkpoint {
+  chainId: number;
+  contract: string;
+  fromBlock: number;
+  scannedTo: number; // last block whose logs are in `owners`
+  owners: Ownership;
+}
+
+function fail(message: string): never {
+  console.error(message);
+  process.exit(1);
+}
+
+function blockArg(value: string | undefined, name: string) {
+  if (value === undefined) return undefined;
+  const n = Number(value);
+  if (!Number.isInteger(n) || n < 0) fail(`--${name} must be a block number`);
+  return n;
+}
+
+function loadCheckpoint(path: string): Checkpoint | null {
+  if (values.fresh || !existsSync(path)) return null;
+  return JSON.parse(readFileSync(path, "utf8")) as Checkpoint;
+}
+
+function saveCheckpoint(path: string, checkpoint: Checkpoint) {
+  // Write then rename so an interrupted run never leaves half a file
+  writeFileSync(`${path}.tmp`, JSON.stringify(checkpoint));
+  renameSync(`${path}.tmp`, path);
+}
+
+async function main() {
+  const rpcUrl =
+    values.rpc ?? process.env.RPC_URL ?? "https://testnet-rpc.monad.xyz";
+  const rawContract = values.contract ?? process.env.CONTRACT_ADDRESS;
+  if (!rawContract) fail("Pass --contract <address> (or CONTRACT_ADDRESS)");
+  const contract = getAddress(rawContract);
+  const fromBlock = blockArg(values.from, "from") ?? 0;
+  const chunk = blockArg(values.chunk, "chunk");
+
+  const probe = new JsonRpcProvider(rpcUrl);
+  const chainId = Number((await probe.getNetwork()).chainId);
+  const latest = await probe.getBlockNumber();
+  probe.destroy();
+  const block = blockArg(values.block, "block") ?? latest;
+  if (block > latest) fail(`Block ${block} is ahead of the chain (${latest})`);
+
+  const chain: ChainConfig = {
+    key: "snapshot",
+    id: chainId,
+    name: `Chain ${chainId}`,
+    rpcUrls: [rpcUrl],
+    nativeCurrency: { name: "MON", symbol: "MON", decimals: 18 },
+    contractAddress: contract,
+    deployBlock: fromBlock,
+    multicall3Address: values.multicall ?? MULTICALL3,
+  };
+
+  const outDir = resolve(values.out!);
+  mkdirSync(outDir, { recursive: true });
+  const checkpointPath = join(
+    outDir,
+    `.checkpoint-${chainId}-${contract}.json`
+  );
+  let checkpoint = loadCheckpoint(checkpointPath);
+  if (
+    checkpoint &&
+    (checkpoint.chainId !== chainId ||
+      checkpoint.contract !== contract ||
+      checkpoint.fromBlock !== fromBlock)
+  ) {
+    fail(`${checkpointPath} is for another scan; rerun with --fresh`);
+  }
+  if (checkpoint && checkpoint.scannedTo > block) {
+    fail(
+      `Checkpoint already covers block ${checkpoint.scannedTo}, past ${block}; rerun with --fresh`
+    );
+  }
+  checkpoint ??= {
+    chainId,
+    contract,
+    fromBlock,
+    scannedTo: fromBlock - 1,
+    owners: {},
+  };
+  if (checkpoint.scannedTo >= fromBlock) {
+    console.log(`Resuming from block ${checkpoint.scannedTo + 1}`);
+  }
+
+  const state = checkpoint;
+  const total = Math.max(1, block - fromBlock + 1);
+  let lastPercent = -1;
+  await fetchContractLogs(
+    chain,
+    [[TRANSFER_TOPIC, MINT_TOPIC]],
+    state.scannedTo + 1,
+    block,
+    {
+      chunk,
+      onChunk: (logs, endBlock) => {
+        applyOwnershipLogs(state.owners, logs);
+        state.scannedTo = endBlock;
+        saveCheckpoint(checkpointPath, state);
+        const percent = Math.floor(((endBlock - fromBlock + 1) / total) * 100);
+        if (percent !== lastPercent) {
+          lastPercent = percent;
+          console.log(`Scanned to block ${endBlock} (${percent}%)`);
+        }
+      },
+    }
+  );
+
+  // Logs can miss things (non-standard events, pruned nodes): ownerOf at the
+  // snapshot block has the final say. An RPC outage throws here, before any
+  // file is written
+  const { owners, corrected } = await verifyOwnership(
+    state.owners,
+    (tokenIds) =>
+      batchRead(
+        chain,
+        tokenIds.map((id) => ({ fn: "ownerOf", args: [BigInt(id)] })),
+        { blockTag: block }
+      )
+  );
+  if (corrected) {
+    console.warn(`${corrected} token(s) corrected by ownerOf`);
+  }
+
+  const holders = holdersOf(owners);
+  const base = join(outDir, `holders-${chainId}-${block}`);
+  writeFileSync(`${base}.csv`, holdersCsv(holders));
+  writeFileSync(
+    `${base}.json`,
+    JSON.stringify(
+      {
+        chainId,
+        contract,
+        block,
+        generatedAt: new Date().toISOString(),
+        tokens: Object.keys(owners).length,
+        holders,
+      },
+      null,
+      2
+    ) + "\n"
+  );
+  console.log(
+    `${holders.length} holders of ${
+      Object.keys(owners).length
+    } tokens at block ${block}`
+  );
+  console.log(`Wrote ${base}.csv and ${base}.json`);
+}
+
+main().catch((e) => {
+  console.error((e as Error).message);
+  process.exit(1);
+});
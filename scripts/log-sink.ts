@@ -0,0 +1,75 @@
+import { createServer } from "node:http";
+import type { IncomingMessage, ServerResponse } from "node:http";
+import type { LogEvent } from "../src/logging/logger";
+
+// Stand-in for a log collector during local development. Accepts the batches
+// the browser reporter sends and prints one line per event.
+//
+//   npm run log-sink
+//   VITE_LOG_ENDPOINT=http://localhost:8788/logs npm run dev
+//
+//   POST /logs  ReportPayload -> 204
+
+// Mirrors ReportPayload in src/logging/reporter.ts, which needs the DOM
+interface ReportPayload {
+  app: string;
+  session: string;
+  url: string;
+  events: LogEvent[];
+}
+
+const PORT = Number(process.env.PORT ?? 8788);
+const MAX_BODY = 256 * 1024;
+
+function send(res: ServerResponse, status: number, body = "") {
+  res.writeHead(status, {
+    "content-type": "text/plain",
+    "access-control-allow-origin": "*",
+    "access-control-allow-headers": "content-type",
+  });
+  res.end(body);
+}
+
+async function readBody(req: IncomingMessage) {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > MAX_BODY) throw new Error("Body too large");
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks).toString("utf8");
+}
+
+function print(payload: ReportPayload) {
+  for (const event of payload.events ?? []) {
+    const { error, ...context } = event.context ?? {};
+    console.log(
+      `${event.time} ${event.level.toUpperCase().padEnd(5)} [${event.scope}] ${
+        event.message
+      }  session=${payload.session.slice(0, 8)} url=${payload.url}`
+    );
+    if (Object.keys(context).length) console.log("  ", JSON.stringify(context));
+    if (error !== undefined) console.log("  ", JSON.stringify(error));
+  }
+}
+
+createServer((req, res) => {
+  const path = new URL(req.url ?? "/", "http://localhost").pathname;
+  if (req.method === "OPTIONS") return send(res, 204);
+  if (req.method === "POST" && path === "/logs") {
+    readBody(req)
+      .then((text) => {
+        print(JSON.parse(text) as ReportPayload);
+        send(res, 204);
+      })
+      .catch((e) => {
+        console.error("Rejected batch:", (e as Error).message);
+        send(res, 400, "Expected a JSON report");
+      });
+    return;
+  }
+  send(res, 404, "Not found");
+}).listen(PORT, () => {
+  console.log(`Log sink on http://localhost:${PORT}/logs`);
+});
@@ -0,0 +1,107 @@
+import { createServer } from "node:http";
+import type { IncomingMessage, ServerResponse } from "node:http";
+import { generateNonce } from "../src/siwe/message";
+import { SiweError, verifySiweMessage } from "../src/siwe/verify";
+
+// Minimal SIWE verifier for local development. Issues single-use nonces and
+// checks signed messages with the same module the browser uses.
+//
+//   SIWE_DOMAIN=localhost:5173 SIWE_CHAIN_IDS=10143 npm run siwe-verifier
+//   VITE_SIWE_VERIFIER_URL=http://localhost:8787 npm run dev
+//
+//   GET  /nonce   -> text nonce, valid for 10 minutes
+//   POST /verify  {message, signature} -> {address, chainId, expiresAt}
+
+const PORT = Number(process.env.PORT ?? 8787);
+const DOMAIN = process.env.SIWE_DOMAIN ?? "localhost:5173";
+const ORIGIN = process.env.SIWE_ORIGIN ?? `http://${DOMAIN}`;
+// Comma-separated; defaults to Monad testnet
+const CHAIN_IDS = (process.env.SIWE_CHAIN_IDS ?? "10143")
+  .split(",")
+  .map((id) => Number(id.trim()));
+const NONCE_TTL_MS = 10 * 60_000;
+
+// Issued nonces and when they stop being accepted
+const nonces = new Map<string, number>();
+
+function send(res: ServerResponse, status: number, body: unknown) {
+  const text = typeof body === "string" ? body : JSON.stringify(body);
+  res.writeHead(status, {
+    "content-type":
+      typeof body === "string" ? "text/plain" : "application/json",
+    "access-control-allow-origin": ORIGIN,
+    "access-control-allow-credentials": "true",
+    "access-control-allow-headers": "content-type",
+  });
+  res.end(text);
+}
+
+async function readJson(req: IncomingMessage) {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  return JSON.parse(Buffer.concat(chunks).toString("utf8"));
+}
+
+function issueNonce() {
+  const now = Date.now();
+  for (const [nonce, expires] of nonces) {
+    if (expires <= now) nonces.delete(nonce);
+  }
+  const nonce = generateNonce();
+  nonces.set(nonce, now + NONCE_TTL_MS);
+  return nonce;
+}
+
+async function handleVerify(req: IncomingMessage, res: ServerResponse) {
+  let body: { message?: unknown; signature?: unknown };
+  try {
+    body = await readJson(req);
+  } catch {
+    return send(res, 400, { error: "Expected a JSON body" });
+  }
+  const { message, signature } = body;
+  if (typeof message !== "string" || typeof signature !== "string") {
+    return send(res, 400, { error: "message and signature are required" });
+  }
+  const nonce = /^Nonce: (\S+)$/m.exec(message)?.[1] ?? "";
+  const expires = nonces.get(nonce);
+  if (!expires || expires <= Date.now()) {
+    return send(res, 401, { error: "Unknown or expired nonce" });
+  }
+  // Single-use: any verification attempt consumes the nonce
+  nonces.delete(nonce);
+  try {
+    const signed = verifySiweMessage(message, signature, {
+      domain: DOMAIN,
+      nonce,
+      chainIds: CHAIN_IDS,
+    });
+    console.log(`Verified ${signed.address} on chain ${signed.chainId}`);
+    send(res, 200, {
+      address: signed.address,
+      chainId: signed.chainId,
+      expiresAt: signed.expirationTime ?? null,
+    });
+  } catch (e) {
+    if (e instanceof SiweError) return send(res, 401, { error: e.message });
+    throw e;
+  }
+}
+
+createServer((req, res) => {
+  const path = new URL(req.url ?? "/", "http://localhost").pathname;
+  if (req.method === "OPTIONS") return send(res, 204, "");
+  if (req.method === "GET" && path === "/nonce") {
+    return send(res, 200, issueNonce());
+  }
+  if (req.method === "POST" && path === "/verify") {
+    handleVerify(req, res).catch((e) => {
+      console.error(e);
+      send(res, 500, { error: "Verification failed" });
+    });
+    return;
+  }
+  send(res, 404, { error: "Not found" });
+}).listen(PORT, () => {
+  console.log(`SIWE verifier for ${DOMAIN} on http://localhost:${PORT}`);
+});
@@ -0,0 +1,485 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { fireEvent, render, screen, waitFor } from "@testing-library/react";
+import { toUtf8String } from "ethers";
+import App from "./App";
+import { MockChain, RpcError } from "./test/mockChain";
+import { MockWallet, announceWallet, serveRpc } from "./test/mockWallet";
+import type { MockWalletOptions } from "./test/mockWallet";
+import { setLocale } from "./i18n/i18n";
+
+const ACCOUNT = "0x70997970C51812dc3A010C7d01b50e0d17dc79C8";
+const OTHER_ACCOUNT = "0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC";
+const SLOW = { timeout: 4_000 };
+
+let chain: MockChain;
+let unannounce: () => void;
+
+beforeEach(() => {
+  chain = new MockChain();
+  serveRpc({ "http://rpc.mock/": chain });
+});
+
+afterEach(() => {
+  unannounce?.();
+  window.history.replaceState(null, "", "/");
+  localStorage.clear();
+});
+
+function renderApp(wallet: Partial<MockWalletOptions> = {}) {
+  const mock = new MockWallet({ chains: [chain], ...wallet });
+  unannounce = announceWallet(mock);
+  render(<App />);
+  return mock;
+}
+
+async function connect(account = ACCOUNT) {
+  fireEvent.click(
+    await screen.findByRole("button", { name: "Connect Wallet" })
+  );
+  fireEvent.click(await screen.findByRole("button", { name: "Mock Wallet" }));
+  await screen.findByText(
+    `Connected: ${account.slice(0, 6)}...${account.slice(-4)}`
+  );
+}
+
+/** Serve token metadata for the mock contract's ipfs:// token URIs. */
+function serveMetadata() {
+  vi.mocked(fetch).mockImplementation(async (url) => {
+    const id = /bafy-shramp\/(\d+)\.json$/.exec(String(url))?.[1];
+    if (!id) throw new TypeError(`fetch blocked in tests: ${url}`);
+    return new Response(
+      JSON.stringify({
+        name: `Shramp #${id} the Bold`,
+        description: "A very bold shramp.",
+        image: `ipfs://bafy-img/${id}.png`,
+      })
+    );
+  });
+}
+
+/** The enabled mint button, once the sale is live and limits are read. */
+async function mintButton() {
+  const button = await screen.findByRole("button", { name: /^Mint 1 / });
+  await waitFor(() =>
+    expect((button as HTMLButtonElement).disabled).toBe(false)
+  );
+  return button;
+}
+
+describe("connect", () => {
+  it("connects an EIP-6963 wallet and reads the contract", async () => {
+    const wallet = renderApp();
+    await connect();
+    expect(wallet.requestsOf("eth_requestAccounts")).toHaveLength(1);
+    expect(await screen.findByText("You've minted 0 NFTs of 2")).toBeTruthy();
+    expect(await screen.findByText("Mint 1 NFT (0.1 MON)")).toBeTruthy();
+  });
+
+  it("switches a wallet on another network to Monad Testnet", async () => {
+    const wallet = renderApp({ chainId: 1, knownChainIds: [10143] });
+    await connect();
+    expect(wallet.requestsOf("wallet_switchEthereumChain")).toHaveLength(1);
+    expect(wallet.requestsOf("wallet_addEthereumChain")).toHaveLength(0);
+    expect(wallet.chainId).toBe(10143);
+  });
+
+  it("adds Monad Testnet when the wallet doesn't know it (4902)", async () => {
+    const wallet = renderApp({ chainId: 1 });
+    await connect();
+    const [add] = wallet.requestsOf("wallet_addEthereumChain");
+    expect(add.params).toEqual([
+      expect.objectContaining({
+        chainId: "0x279f",
+        chainName: "Monad Testnet",
+      }),
+    ]);
+    expect(wallet.chainId).toBe(10143);
+  });
+
+  it("flags a wallet that moves to an unsupported network and switches back", async () => {
+    const wallet = renderApp();
+    await connect();
+    wallet.switchChain(1);
+    fireEvent.click(
+      await screen.findByRole("button", { name: "Switch to Monad Testnet" })
+    );
+    await waitFor(() => expect(wallet.chainId).toBe(10143));
+    await waitFor(() =>
+      expect(screen.queryByText(/Your wallet is on/)).toBeNull()
+    );
+  });
+});
+
+describe("language", () => {
+  afterEach(() => setLocale("en"));
+
+  it("switches the UI language and remembers the choice", async () => {
+    renderApp();
+    await connect();
+    fireEvent.change(screen.getByLabelText("Language"), {
+      target: { value: "es" },
+    });
+    expect(await screen.findByText("Has minteado 0 NFTs de 2")).toBeTruthy();
+    const plus = screen.getByRole("button", { name: "+" });
+    fireEvent.click(plus);
+    expect(
+      await screen.findByRole("button", { name: "Mintear 2 NFTs (0,2 MON)" })
+    ).toBeTruthy();
+    expect(localStorage.getItem("shramp:locale")).toBe("es");
+    expect(document.documentElement.lang).toBe("es");
+  });
+});
+
+describe("wallet session", () => {
+  it("silently reconnects a wallet that is still authorized", async () => {
+    localStorage.setItem("shramp:lastWallet", "test.mock.wallet");
+    const wallet = renderApp({ authorized: true });
+    await screen.findByText("Connected: 0x7099...79C8", undefined, SLOW);
+    expect(wallet.requestsOf("eth_accounts")).toHaveLength(1);
+    expect(wallet.requestsOf("eth_requestAccounts")).toHaveLength(0);
+  });
+
+  it("stays disconnected when the wallet no longer authorizes the site", async () => {
+    localStorage.setItem("shramp:lastWallet", "test.mock.wallet");
+    const wallet = renderApp();
+    await waitFor(() =>
+      expect(wallet.requestsOf("eth_accounts")).toHaveLength(1)
+    );
+    expect(
+      await screen.findByRole("button", { name: "Connect Wallet" })
+    ).toBeTruthy();
+    expect(wallet.requestsOf("eth_requestAccounts")).toHaveLength(0);
+  });
+
+  it("follows account changes with a single listener", async () => {
+    const wallet = renderApp();
+    await connect();
+    wallet.changeAccounts([OTHER_ACCOUNT]);
+    await screen.findByText("Connected: 0x3C44...93BC");
+    wallet.changeAccounts([ACCOUNT]);
+    await screen.findByText("Connected: 0x7099...79C8");
+    expect(wallet.listenerCount("accountsChanged")).toBe(1);
+    expect(wallet.listenerCount("chainChanged")).toBe(1);
+  });
+
+  it("disconnects from the wallet or the page", async () => {
+    const wallet = renderApp();
+    await connect();
+    wallet.disconnect();
+    await screen.findByRole("button", { name: "Connect Wallet" });
+    await waitFor(() =>
+      expect(wallet.listenerCount("accountsChanged")).toBe(0)
+    );
+
+    await connect();
+    fireEvent.click(screen.getByRole("button", { name: "Disconnect" }));
+    await screen.findByRole("button", { name: "Connect Wallet" });
+    expect(wallet.requestsOf("wallet_revokePermissions")).toHaveLength(1);
+    expect(localStorage.getItem("shramp:lastWallet")).toBeNull();
+    await waitFor(() => expect(wallet.listenerCount("disconnect")).toBe(0));
+  });
+});
+
+describe("mint", () => {
+  it("mints and reports the new token id", async () => {
+    const wallet = renderApp();
+    await connect();
+    fireEvent.click(await mintButton());
+    expect(
+      await screen.findByText(/Minted 1 NFT! \(#1\)/, {}, SLOW)
+    ).toBeTruthy();
+    expect(wallet.requestsOf("eth_sendTransaction")).toHaveLength(1);
+    expect(chain.contract.tokenOwners.get(1n)).toBe(ACCOUNT);
+  });
+
+  it("reveals the minted token with its metadata", async () => {
+    serveMetadata();
+    renderApp();
+    await connect();
+    fireEvent.click(await mintButton());
+    const link = await screen.findByRole(
+      "link",
+      { name: "Shramp #1 the Bold" },
+      SLOW
+    );
+    expect(link.getAttribute("href")).toBe("/token/1");
+    expect(
+      screen.getByRole("img", { name: "Shramp #1 the Bold" })
+    ).toBeTruthy();
+    expect(screen.getByRole("button", { name: "Download card" })).toBeTruthy();
+    vi.mocked(fetch).mockReset();
+  });
+
+  it("reports a wallet rejection and mints on retry", async () => {
+    const wallet = renderApp();
+    wallet.failNext(
+      "eth_sendTransaction",
+      new RpcError(4001, "User rejected the request.")
+    );
+    await connect();
+    fireEvent.click(await mintButton());
+    expect(
+      await screen.findByText("You rejected the request in your wallet.")
+    ).toBeTruthy();
+    fireEvent.click(screen.getByRole("button", { name: "Retry" }));
+    expect(await screen.findByText(/Minted 1 NFT!/, {}, SLOW)).toBeTruthy();
+    expect(chain.totalSupply).toBe(1n);
+  });
+
+  it("retries a rate-limited send without minting twice", async () => {
+    const wallet = renderApp();
+    wallet.failNext(
+      "eth_sendTransaction",
+      new RpcError(-32603, "Request is being rate limited"),
+      2
+    );
+    await connect();
+    fireEvent.click(await mintButton());
+    expect(await screen.findByText(/Minted 1 NFT!/, {}, SLOW)).toBeTruthy();
+    expect(wallet.requestsOf("eth_sendTransaction")).toHaveLength(3);
+    expect(chain.totalSupply).toBe(1n);
+  }, 15_000);
+
+  it("sends anyway when simulation fails without revert data", async () => {
+    const wallet = renderApp();
+    wallet.failNext("eth_call", new RpcError(-32603, "Internal error"));
+    await connect();
+    fireEvent.click(await mintButton());
+    expect(await screen.findByText(/Minted 1 NFT!/, {}, SLOW)).toBeTruthy();
+    expect(wallet.requestsOf("eth_sendTransaction")).toHaveLength(1);
+  });
+
+  it("stops on a max-per-wallet revert without sending", async () => {
+    const wallet = renderApp();
+    await connect();
+    const button = await mintButton();
+    // Minted from another tab since the page last read the contract
+    chain.contract.minted.set(ACCOUNT.toLowerCase(), 2n);
+    fireEvent.click(button);
+    expect(
+      await screen.findByText(
+        "This wallet has reached its mint limit. Try a smaller quantity or mint from another wallet."
+      )
+    ).toBeTruthy();
+    expect(screen.queryByRole("button", { name: "Retry" })).toBeNull();
+    expect(wallet.requestsOf("eth_sendTransaction")).toHaveLength(0);
+  });
+
+  it("explains insufficient funds", async () => {
+    const wallet = renderApp();
+    wallet.failNext(
+      "eth_sendTransaction",
+      new RpcError(-32000, "insufficient funds for gas * price + value")
+    );
+    await connect();
+    fireEvent.click(await mintButton());
+    expect(
+      await screen.findByText(/Not enough MON to cover the price and gas/)
+    ).toBeTruthy();
+    expect(chain.totalSupply).toBe(0n);
+  });
+
+  it("warns about an underfunded wallet and stops before the wallet prompt", async () => {
+    // Another account, so no balance read from an earlier test is reused
+    const wallet = renderApp({ accounts: [OTHER_ACCOUNT] });
+    // Covers the price but not the gas
+    chain.balance = 10n ** 17n;
+    await connect(OTHER_ACCOUNT);
+    expect(
+      await screen.findByText(/Your balance doesn't cover the price/, {}, SLOW)
+    ).toBeTruthy();
+    fireEvent.click(await mintButton());
+    expect(
+      await screen.findByText(/Not enough MON to cover the price and gas/)
+    ).toBeTruthy();
+    expect(wallet.requestsOf("eth_sendTransaction")).toHaveLength(0);
+  });
+
+  it("sends user fee caps as EIP-1559 overrides", async () => {
+    const wallet = renderApp();
+    await connect();
+    expect(await screen.findByText("Max total", {}, SLOW)).toBeTruthy();
+    fireEvent.change(screen.getByLabelText("Max fee (gwei)"), {
+      target: { value: "60" },
+    });
+    fireEvent.change(screen.getByLabelText("Priority fee (gwei)"), {
+      target: { value: "1.5" },
+    });
+    fireEvent.click(await mintButton());
+    expect(await screen.findByText(/Minted 1 NFT!/, {}, SLOW)).toBeTruthy();
+    const [send] = wallet.requestsOf("eth_sendTransaction");
+    const tx = (send.params as Record<string, string>[])[0];
+    expect(BigInt(tx.maxFeePerGas)).toBe(60_000_000_000n);
+    expect(BigInt(tx.maxPriorityFeePerGas)).toBe(1_500_000_000n);
+  });
+});
+
+describe("holder lounge", () => {
+  it("signs in with Ethereum and unlocks for a holder", async () => {
+    chain.contract.tokenOwners.set(1n, ACCOUNT);
+    const wallet = renderApp();
+    await connect();
+    fireEvent.click(
+      await screen.findByRole("button", { name: "Sign in with Ethereum" })
+    );
+    expect(await screen.findByText(/Welcome, holder!/, {}, SLOW)).toBeTruthy();
+    const [sign] = wallet.requestsOf("personal_sign");
+    const message = toUtf8String((sign.params as string[])[0]);
+    expect(message).toMatch(
+      /^localhost(:\d+)? wants you to sign in with your Ethereum account:\n0x70997970C51812dc3A010C7d01b50e0d17dc79C8\n/
+    );
+    // The statement names the collection being signed in to
+    expect(message).toContain(
+      "\n\nSign in to Shramp NFT to unlock holder features.\n\n"
+    );
+  });
+
+  it("stays locked for a signed-in address without tokens", async () => {
+    renderApp();
+    await connect();
+    fireEvent.click(
+      await screen.findByRole("button", { name: "Sign in with Ethereum" })
+    );
+    expect(
+      await screen.findByText(/doesn't hold a Shramp yet/, {}, SLOW)
+    ).toBeTruthy();
+    expect(screen.queryByText(/Welcome, holder!/)).toBeNull();
+  });
+});
+
+describe("stats", () => {
+  it("shows holders and minters from indexed events", async () => {
+    renderApp();
+    await connect();
+    fireEvent.click(await mintButton());
+    await screen.findByText(/Minted 1 NFT!/, {}, SLOW);
+    // Let ethers' 250 ms request cache forget the pre-mint block number
+    await new Promise((resolve) => setTimeout(resolve, 300));
+    fireEvent.click(screen.getByRole("button", { name: "Stats" }));
+    expect(await screen.findByText("Unique holders", {}, SLOW)).toBeTruthy();
+    expect(screen.getByText("1 minted")).toBeTruthy();
+    expect(screen.getByText("1 Shramp")).toBeTruthy();
+    expect(screen.getByRole("img", { name: "Mints over time" })).toBeTruthy();
+  });
+});
+
+describe("collections", () => {
+  const frogs = {
+    slug: "frogs",
+    name: "Frog Drop",
+    tokenName: "Frog",
+    theme: { accent: "#16a34a" },
+    credit: { label: "@frogs", url: "https://x.com/frogs" },
+    supplyDisplayCap: 100,
+    deployments: {
+      "monad-testnet": {
+        contractAddress: import.meta.env.VITE_CONTRACT_ADDRESS,
+      },
+    },
+  };
+
+  beforeEach(() => {
+    vi.mocked(fetch).mockImplementation(async (url) => {
+      if (url !== import.meta.env.VITE_COLLECTIONS_URL) {
+        throw new TypeError(`fetch blocked in tests: ${url}`);
+      }
+      return new Response(JSON.stringify([frogs]));
+    });
+  });
+
+  afterEach(() => vi.mocked(fetch).mockReset());
+
+  it("serves a collection from the runtime config under /c/:slug", async () => {
+    window.history.pushState(null, "", "/c/frogs");
+    renderApp();
+    expect(
+      await screen.findByRole("link", { name: "Frog Drop" }, SLOW)
+    ).toBeTruthy();
+    expect(await screen.findByText("100 max", {}, SLOW)).toBeTruthy();
+    expect(screen.getByRole("link", { name: "@frogs" })).toBeTruthy();
+    expect(document.title).toBe("Frog Drop");
+
+    fireEvent.click(screen.getByRole("button", { name: "Stats" }));
+    expect(window.location.pathname).toBe("/c/frogs/stats");
+  });
+
+  it("keeps the default collection at the root", async () => {
+    renderApp();
+    expect(
+      await screen.findByRole("link", { name: "Shramp NFT" })
+    ).toBeTruthy();
+    expect(await screen.findByText("500 max", {}, SLOW)).toBeTruthy();
+    expect(screen.getByRole("link", { name: "@North" })).toBeTruthy();
+  });
+
+  it("reports an unknown slug", async () => {
+    window.history.pushState(null, "", "/c/nope");
+    renderApp();
+    expect(
+      await screen.findByText("Collection not found", {}, SLOW)
+    ).toBeTruthy();
+  });
+});
+
+describe("token page", () => {
+  it("transfers a held token after checking the recipient", async () => {
+    chain.contract.tokenOwners.set(7n, ACCOUNT);
+    window.history.pushState(null, "", "/token/7");
+    renderApp();
+    fireEvent.click(
+      await screen.findByRole("button", { name: "Connect Wallet" }, SLOW)
+    );
+    fireEvent.click(await screen.findByRole("button", { name: "Mock Wallet" }));
+    expect(await screen.findByText("(you)", {}, SLOW)).toBeTruthy();
+
+    const input = screen.getByLabelText("Send to");
+    const review = () =>
+      fireEvent.click(screen.getByRole("button", { name: "Review transfer" }));
+    // One case-flipped character breaks the EIP-55 checksum
+    fireEvent.change(input, {
+      target: { value: OTHER_ACCOUNT.replace("C", "c") },
+    });
+    review();
+    expect(await screen.findByText(/fails its checksum/)).toBeTruthy();
+
+    fireEvent.change(input, { target: { value: OTHER_ACCOUNT.toLowerCase() } });
+    review();
+    expect(await screen.findByText(OTHER_ACCOUNT)).toBeTruthy();
+    fireEvent.click(screen.getByRole("button", { name: "Send #7" }));
+    expect(await screen.findByText(/Sent Shramp #7/, {}, SLOW)).toBeTruthy();
+    expect(chain.contract.tokenOwners.get(7n)).toBe(OTHER_ACCOUNT);
+  });
+
+  it("sets Open Graph tags for the token", async () => {
+    serveMetadata();
+    chain.contract.tokenOwners.set(3n, ACCOUNT);
+    window.history.pushState(null, "", "/token/3");
+    render(<App />);
+    const ogTag = (property: string) =>
+      document.head
+        .querySelector(`meta[property="${property}"]`)
+        ?.getAttribute("content");
+    await waitFor(
+      () => expect(ogTag("og:title")).toBe("Shramp #3 the Bold | Shramp NFT"),
+      SLOW
+    );
+    expect(ogTag("og:description")).toBe("A very bold shramp.");
+    expect(ogTag("og:image")).toMatch(/bafy-img\/3\.png$/);
+    expect(ogTag("og:url")).toBe(`${window.location.origin}/token/3`);
+    expect(document.title).toBe("Shramp #3 the Bold | Shramp NFT");
+
+    // Other pages are back to the collection's tags
+    fireEvent.click(screen.getByRole("button", { name: "Back to mint" }));
+    await waitFor(() => expect(ogTag("og:title")).toBe("Shramp NFT"));
+    expect(ogTag("og:description")).toBeUndefined();
+    vi.mocked(fetch).mockReset();
+  });
+
+  it("reports a token that doesn't exist", async () => {
+    window.history.pushState(null, "", "/token/404");
+    renderApp();
+    expect(
+      await screen.findByText(/Shramp #404 doesn't exist/, {}, SLOW)
+    ).toBeTruthy();
+  });
+});
@@ -1,468 +1,747 @@
-import { useEffect, useState, useCallback } from "react";
-import { BrowserProvider, Contract } from "ethers";
-import type { Provider, Signer } from "ethers";
-import contractABI from "./contractABI";
-import bg from "./assets/monad-bg-3.jpeg";
-
-const CONTRACT_ADDRESS = import.meta.env.VITE_CONTRACT_ADDRESS as
-  | string
-  | undefined;
+import {
+  useEffect,
+  useLayoutEffect,
+  useMemo,
+  useState,
+  useCallback,
+} from "react";
+import type { CSSProperties } from "react";
+import { BrowserProvider } from "ethers";
+import WalletPicker from "./wallet/WalletPicker";
+import { useWalletSession } from "./wallet/useWalletSession";
+import type { EIP6963ProviderDetail } from "./wallet/eip6963";
+import { batchRead } from "./rpc/multicall";
+import type { ReadResult } from "./rpc/multicall";
+import MintFeedList from "./feed/MintFeedList";
+import { useMintFeed } from "./feed/useMintFeed";
+import MyShramps from "./gallery/MyShramps";
+import { useOwnedTokens } from "./gallery/useOwnedTokens";
+import AdminConsole from "./admin/AdminConsole";
+import { useContractOwner } from "./admin/useContractOwner";
+import { navigate } from "./router";
+import { applyPageMeta } from "./pageMeta";
+import { describeTxError } from "./errors/decodeError";
+import { getChainById } from "./chains/registry";
+import type { ChainConfig } from "./chains/registry";
+import { switchWalletChain } from "./chains/switchNetwork";
+import { useSelectedChain } from "./chains/useSelectedChain";
+import { useContractCheck } from "./useContractCheck";
+import MintSteps from "./mint/MintSteps";
+import MintReveal from "./reveal/MintReveal";
+import { getMintLimits, isMintActive } from "./mint/mintMachine";
+import { useMint } from "./mint/useMint";
+import CostPreview from "./mint/CostPreview";
+import { useMintCost } from "./mint/useMintCost";
+import type { FeeCaps } from "./mint/mintCost";
+import HolderSection from "./siwe/HolderSection";
+import StatsPage from "./stats/StatsPage";
+import TokenPage from "./token/TokenPage";
+import { parseTokenPath } from "./token/tokenDetails";
+import { useSiweSession } from "./siwe/useSiweSession";
+import {
+  allowlistMintFragment,
+  getAllowlistProof,
+} from "./allowlist/allowlist";
+import PhaseBanner from "./phases/PhaseBanner";
+import { getSaleState } from "./phases/schedule";
+import { useChainClock } from "./phases/useChainClock";
+import { useMintSchedule } from "./phases/useMintSchedule";
+import { createLogger, setLogContext } from "./logging/logger";
+import { reportingConfigured } from "./logging/reporter";
+import ReportingToggle from "./logging/ReportingToggle";
+import { useI18n } from "./i18n/i18n";
+import type { Translatable } from "./i18n/i18n";
+import LanguageSwitcher from "./i18n/LanguageSwitcher";
+import CollectionFooter from "./collections/CollectionFooter";
+import { collectionPath } from "./collections/registry";
+import type { CollectionConfig } from "./collections/registry";
+import { useCollectionRoute } from "./collections/useCollectionRoute";
 
 // Removed mock images; rely on real on-chain data
 
-interface EthereumProvider {
-  request: (args: { method: string; params?: unknown[] }) => Promise<unknown>;
-  on?: (event: string, handler: (accounts: string[]) => void) => void;
-  removeListener?: (event: string, handler: () => void) => void;
-}
+const log = createLogger("app");
 
-declare global {
-  interface Window {
-    ethereum?: EthereumProvider;
+export default function App() {
+  const route = useCollectionRoute();
+  const { t } = useI18n();
+
+  if (route.status !== "found") {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-black text-white p-6 text-center">
+        {route.status === "loading" ? (
+          <p className="text-sm text-gray-300">{t("collection.loading")}</p>
+        ) : (
+          <div>
+            <h1 className="text-2xl font-bold mb-2">
+              {t("collection.notFound")}
+            </h1>
+            <p className="text-sm text-gray-300 mb-4">
+              {t("collection.notFoundBody", { slug: route.slug })}
+            </p>
+            <a href="/" className="underline hover:text-blue-300">
+              {t("collection.goHome")}
+            </a>
+          </div>
+        )}
+      </div>
+    );
   }
+  // Another collection starts from a clean slate: no state carries over
+  return (
+    <CollectionApp
+      key={route.collection.slug}
+      collection={route.collection}
+      pathname={route.path}
+    />
+  );
 }
 
-export default function App() {
-  const isConfigured = Boolean(CONTRACT_ADDRESS);
-  const [account, setAccount] = useState<string | null>(null);
-  const [minting, setMinting] = useState(false);
+interface CollectionAppProps {
+  collection: CollectionConfig;
+  pathname: string; // path within the collection, e.g. "/stats"
+}
+
+function CollectionApp({ collection, pathname }: CollectionAppProps) {
+  const { chain, selectChain } = useSelectedChain(collection.chains);
+  const { t, rich, formatAmount } = useI18n();
+  const isConfigured = Boolean(chain.contractAddress);
   const [totalSupply, setTotalSupply] = useState<number>(0);
-  const [maxSupply, setMaxSupply] = useState<number>(500);
+  // 0 until the first contract read
+  const [maxSupply, setMaxSupply] = useState<number>(0);
   const [mintPriceWei, setMintPriceWei] = useState<string>("0"); // hex or string
-  const [status, setStatus] = useState<string>("");
+  // Translated on render, so a language switch updates it too
+  const [status, setStatus] = useState<Translatable[]>([]);
   const [mintQuantity, setMintQuantity] = useState<number>(1);
   const [userMintedCount, setUserMintedCount] = useState<number>(0);
   const [contractMaxPerWallet, setContractMaxPerWallet] = useState<number>(2);
+  const [pickerOpen, setPickerOpen] = useState(false);
+  const [feeCaps, setFeeCaps] = useState<FeeCaps>({});
+  const {
+    session,
+    wallets,
+    connect,
+    disconnect: disconnectWallet,
+  } = useWalletSession({
+    onChainChanged: (id) => {
+      // Follow the wallet onto another chain we have a deployment on
+      const next = collection.chains.find((c) => c.id === id);
+      if (next) changeChain(next);
+    },
+  });
+  const wallet = session.status === "disconnected" ? null : session.wallet;
+  const account = session.status === "connected" ? session.account : null;
+  const walletProvider =
+    session.status === "connected" ? session.wallet.provider : undefined;
+  // Chain the wallet is on (null until connected); may differ from `chain`
+  const walletChainId = session.status === "connected" ? session.chainId : null;
+  const gallery = useOwnedTokens(chain, account);
+  const reloadGallery = gallery.reload;
+  const {
+    owner,
+    isOwner,
+    reload: reloadOwner,
+  } = useContractOwner(chain, account);
+  const siwe = useSiweSession(chain, collection, walletProvider, account);
+  const isAdminRoute = pathname === "/admin";
+  const isStatsRoute = pathname === "/stats";
+  const routeTokenId = parseTokenPath(pathname);
+  const contractCheck = useContractCheck(chain);
 
-  function getContract(providerOrSigner: Provider | Signer) {
-    if (!CONTRACT_ADDRESS) {
-      throw new Error(
-        "VITE_CONTRACT_ADDRESS is not set. Configure it in your Vercel env."
-      );
-    }
-    return new Contract(
-      CONTRACT_ADDRESS as string,
-      contractABI,
-      providerOrSigner
-    );
-  }
+  // Every log event carries the account and chain it happened on
+  useEffect(() => {
+    setLogContext({ account, chainId: chain.id });
+  }, [account, chain]);
 
   const refreshContractData = useCallback(async () => {
-    if (!window.ethereum) return;
+    if (!chain.contractAddress) return;
     try {
-      const provider = new BrowserProvider(window.ethereum);
-      const contract = getContract(provider);
-      const supply = await contract.totalSupply();
-      const max = await contract.maxSupply();
-      const price = await contract.mintPrice();
-      const maxPerWallet = await contract.maxPerWallet();
-
-      setTotalSupply(Number(supply));
-      // Clamp to 500 for UI display even if contract is higher
-      setMaxSupply(Math.min(Number(max), 500));
-      // price is BigInt in ethers v6, convert to string (wei)
-      setMintPriceWei(price.toString());
-      setContractMaxPerWallet(Number(maxPerWallet));
-
-      console.log(
-        "Contract values - maxPerWallet:",
-        Number(maxPerWallet),
-        "maxSupply:",
-        Number(max)
+      // Reads go through the public RPC so they work without a wallet, and
+      // are batched into one Multicall3 round-trip where available
+      const [supply, max, price, maxPerWallet, minted, bal] = await batchRead(
+        chain,
+        [
+          { fn: "totalSupply" },
+          { fn: "maxSupply" },
+          { fn: "mintPrice" },
+          { fn: "maxPerWallet" },
+          ...(account
+            ? [
+                { fn: "mintedCount", args: [account] },
+                { fn: "balanceOf", args: [account] },
+              ]
+            : []),
+        ]
       );
+      for (const r of [supply, max, price, maxPerWallet]) {
+        if (!r.success) throw r.error;
+      }
+      const value = (r: ReadResult) => (r as { value: bigint }).value;
+
+      setTotalSupply(Number(value(supply)));
+      setMaxSupply(Number(value(max)));
+      // price is BigInt in ethers v6, convert to string (wei)
+      setMintPriceWei(value(price).toString());
+      setContractMaxPerWallet(Number(value(maxPerWallet)));
+
+      log.debug("Contract values", {
+        maxPerWallet: Number(value(maxPerWallet)),
+        maxSupply: Number(value(max)),
+        totalSupply: Number(value(supply)),
+      });
 
       // Get user's minted count if wallet is connected
       if (account) {
-        try {
-          const minted = await contract.mintedCount(account);
-          console.log("User minted count from contract:", Number(minted));
-          setUserMintedCount(Number(minted));
-        } catch (mcErr) {
+        if (minted.success) {
+          log.debug("User minted count", { minted: Number(value(minted)) });
+          setUserMintedCount(Number(value(minted)));
+        } else if (bal.success) {
           // Fallback to ERC721 balance if mintedCount() is not present
-          try {
-            const bal = await contract.balanceOf(account);
-            console.log("Fallback balanceOf as minted count:", Number(bal));
-            setUserMintedCount(Number(bal));
-          } catch (balErr) {
-            console.warn("Failed to read user minted count", mcErr, balErr);
-            setUserMintedCount(0);
-          }
-        }
-      }
-    } catch (e) {
-      console.error("refreshContractData err", e);
-    }
-  }, [account]);
-
-  async function ensureMonadNetwork(provider: BrowserProvider) {
-    const targetChainIdHex = "0x279F"; // 10143
-    try {
-      const current = await provider.send("eth_chainId", []);
-      if (current !== targetChainIdHex) {
-        try {
-          await provider.send("wallet_switchEthereumChain", [
-            { chainId: targetChainIdHex },
-          ]);
-        } catch (switchErr: unknown) {
-          const err = switchErr as { code?: number; message?: unknown };
-          // If the chain is not added, try adding
-          if (
-            err?.code === 4902 ||
-            (typeof err?.message === "string" &&
-              /Unrecognized chain ID/i.test(err.message))
-          ) {
-            await provider.send("wallet_addEthereumChain", [
-              {
-                chainId: targetChainIdHex,
-                chainName: "Monad Testnet",
-                nativeCurrency: { name: "MON", symbol: "MON", decimals: 18 },
-                rpcUrls: [
-                  import.meta.env.VITE_MONAD_RPC_URL ||
-                    "https://testnet-rpc.monad.xyz",
-                ],
-                blockExplorerUrls: ["https://testnet.monadexplorer.com"],
-              },
-            ]);
-          } else {
-            throw switchErr;
-          }
+          log.debug("Using balanceOf as minted count", {
+            balance: Number(value(bal)),
+          });
+          setUserMintedCount(Number(value(bal)));
+        } else {
+          log.warn("Failed to read user minted count", {
+            error: minted.error,
+            balanceError: bal.error,
+          });
+          setUserMintedCount(0);
         }
       }
     } catch (e) {
-      console.error("ensureMonadNetwork error", e);
-      throw e;
+      log.error("Contract read failed", { error: e });
     }
-  }
+  }, [chain, account]);
 
-  async function connectWallet() {
-    if (!window.ethereum) return alert("Install MetaMask");
-    try {
-      const provider = new BrowserProvider(window.ethereum);
-      await ensureMonadNetwork(provider);
-      const accounts = await provider.send("eth_requestAccounts", []);
-      setAccount(accounts[0]);
-      setStatus("Wallet connected");
-      await refreshContractData();
-    } catch (e) {
-      console.error(e);
-      setStatus("Failed to connect wallet");
-    }
-  }
-
-  async function mintNFT() {
-    if (!window.ethereum) return alert("Install MetaMask");
-    const remainingAllowance = Math.max(
-      0,
-      contractMaxPerWallet - userMintedCount
-    );
-    const remainingSupply = Math.max(0, maxSupply - totalSupply);
-    if (remainingAllowance <= 0) {
-      setStatus("Max per wallet reached");
-      return;
-    }
-    if (mintQuantity < 1 || mintQuantity > remainingAllowance)
-      return alert(`Quantity must be 1-${remainingAllowance}`);
-    if (mintQuantity > remainingSupply) {
-      return alert(`Only ${remainingSupply} left in supply`);
-    }
-
-    // Check wallet restrictions
-    console.log(
-      "Mint attempt - userMintedCount:",
-      userMintedCount,
-      "mintQuantity:",
-      mintQuantity,
-      "contractMaxPerWallet:",
-      contractMaxPerWallet
-    );
-
-    if (userMintedCount + mintQuantity > contractMaxPerWallet) {
-      return alert(
-        `You can only mint ${remainingAllowance} more NFT${
-          remainingAllowance === 1 ? "" : "s"
-        }. You've already minted ${userMintedCount}.`
-      );
-    }
+  const handleMintSettled = useCallback(() => {
+    refreshContractData();
+    reloadGallery();
+  }, [refreshContractData, reloadGallery]);
+  const schedule = useMintSchedule(chain);
+  // Phases open and close on chain time, not the local clock
+  const chainNow = useChainClock(chain);
+  const soldOut = maxSupply > 0 && totalSupply >= maxSupply;
+  const sale = getSaleState(schedule, chainNow, soldOut);
+  const livePhase = sale.status === "live" ? sale.phase : null;
+  // The bundled allowlist is the default collection's
+  const allowlistProof = useMemo(
+    () => (collection.isDefault ? getAllowlistProof(account) : null),
+    [collection, account]
+  );
+  const allowlistPhase = livePhase?.kind === "allowlist";
+  // Configured, but the contract has no function to mint it with
+  const allowlistUnsupported = allowlistPhase && !allowlistMintFragment;
+  // The wallet cap is the tightest of the contract, phase and allowance caps
+  const walletCap = Math.min(
+    contractMaxPerWallet,
+    livePhase?.maxPerWallet ?? Infinity,
+    allowlistPhase && allowlistProof ? allowlistProof.allowance : Infinity
+  );
+  const priceWei =
+    allowlistPhase && livePhase.priceWei !== null
+      ? livePhase.priceWei.toString()
+      : mintPriceWei;
+  const limits = getMintLimits({
+    maxPerWallet: walletCap,
+    userMintedCount,
+    // Unknown until the first read; don't report a sell-out before then
+    maxSupply: maxSupply || Infinity,
+    totalSupply,
+  });
+  const mint = useMint({
+    chain,
+    tokenNamePlural: collection.tokenNamePlural,
+    walletProvider,
+    account,
+    limits,
+    userMintedCount,
+    phase: livePhase,
+    allowlist: allowlistProof,
+    feeCaps,
+    onNeedWallet: () => setPickerOpen(true),
+    onSettled: handleMintSettled,
+  });
+  const mintCost = useMintCost(chain, {
+    account,
+    phase: livePhase,
+    allowlist: allowlistProof,
+    quantity: mintQuantity,
+    caps: feeCaps,
+  });
+  const mintBusy = isMintActive(mint.state);
+  // Why the mint button is disabled, if it is
+  const mintBlocked =
+    sale.status === "sold-out"
+      ? t("mint.soldOut")
+      : sale.status === "upcoming"
+      ? t("mint.notStarted")
+      : sale.status === "ended"
+      ? t("mint.ended")
+      : sale.status === "unscheduled"
+      ? t("mint.unscheduled")
+      : sale.status === "error"
+      ? t("mint.scheduleUnavailable")
+      : sale.status === "loading"
+      ? t("mint.loading")
+      : allowlistUnsupported
+      ? t("mint.allowlistUnsupported")
+      : allowlistPhase && !allowlistProof
+      ? t("mint.notAllowlisted")
+      : limits.walletMaxed
+      ? t("mint.walletMaxed")
+      : null;
+  const resetMint = mint.reset;
 
-    setMinting(true);
-    setStatus("Preparing transaction...");
+  async function connectWallet(detail: EIP6963ProviderDetail) {
+    setPickerOpen(false);
     try {
-      const provider = new BrowserProvider(window.ethereum);
-      const signer = await provider.getSigner();
-      const contract = getContract(signer);
-      const price = await contract.mintPrice(); // BigInt
-      const totalPrice = price * BigInt(mintQuantity);
-      const mintFn = contract.getFunction("mint");
-
-      // Dry-run and estimate to surface revert reasons before sending
-      try {
-        await mintFn.staticCall(mintQuantity, { value: totalPrice });
-        await mintFn.estimateGas(mintQuantity, { value: totalPrice });
-      } catch (simErr) {
-        const se = simErr as { shortMessage?: string; message?: string };
-        const msg = se?.shortMessage || se?.message || "Simulation failed";
-        const benignSimFailure =
-          /missing revert data|CALL_EXCEPTION|estimateGas/i.test(msg);
-        if (benignSimFailure) {
-          // Some RPCs cannot simulate with value; proceed to send and rely on node validation
-          console.warn("Simulation failed, proceeding to send:", msg);
-          setStatus("Simulation unavailable, submitting transaction...");
-        } else {
-          setStatus(msg);
-          throw simErr;
-        }
+      if (await connect(detail, chain)) {
+        setStatus([
+          {
+            key: "wallet.connectedStatus",
+            params: { wallet: detail.info.name },
+          },
+        ]);
       }
-
-      const attemptMint = async (attempt: number): Promise<void> => {
-        try {
-          const tx = await mintFn(mintQuantity, { value: totalPrice });
-          setStatus("Waiting for confirmation...");
-          await tx.wait();
-          setStatus(
-            `Minted ${mintQuantity} NFT${mintQuantity > 1 ? "s" : ""}!`
-          );
-          await refreshContractData();
-        } catch (err) {
-          const rpcErr = err as { code?: number; message?: string };
-          const isRateLimited =
-            rpcErr?.code === -32603 &&
-            typeof rpcErr?.message === "string" &&
-            /rate limit|rate limited|Request is being rate limited/i.test(
-              rpcErr.message
-            );
-          if (isRateLimited && attempt < 3) {
-            const delayMs = 500 * Math.pow(2, attempt); // 500, 1000, 2000
-            setStatus(
-              `RPC rate limited, retrying in ${Math.round(delayMs / 1000)}s...`
-            );
-            await new Promise((res) => setTimeout(res, delayMs));
-            return attemptMint(attempt + 1);
-          }
-          throw err;
-        }
-      };
-
-      await attemptMint(0);
     } catch (e) {
-      console.error(e);
-      const error = e as Error;
-      setStatus(error?.message || "Mint failed");
-    } finally {
-      setMinting(false);
+      log.error("Wallet connect failed", {
+        wallet: detail.info.rdns,
+        error: e,
+      });
+      setStatus([{ key: "wallet.connectFailed" }]);
     }
   }
 
-  // If needed, fetch tokenURI and render real previews later
+  // Other people's mints move the supply counter too
+  const mintFeed = useMintFeed(chain, refreshContractData);
 
+  // Reload on start and whenever the chain or account changes
   useEffect(() => {
-    // refresh contract data on load
     refreshContractData();
-    // optional: listen for accounts change
-    if (window.ethereum) {
-      window.ethereum.on?.("accountsChanged", (accounts: string[]) => {
-        setAccount(accounts[0] || null);
-        // refresh data for the new account
-        setTimeout(() => {
-          refreshContractData();
-        }, 0);
-      });
-    }
-    // cleanup
-    return () => {
-      window.ethereum?.removeListener?.("accountsChanged", () => {});
-    };
   }, [refreshContractData]);
 
-  // convert wei to readable MON
-  function formatMon(weiStr: string) {
+  // Drop values read from the previous chain before the new reads land
+  const changeChain = useCallback(
+    (next: ChainConfig) => {
+      selectChain(next);
+      setTotalSupply(0);
+      setMintPriceWei("0");
+      setUserMintedCount(0);
+      setStatus([]);
+      resetMint();
+    },
+    [selectChain, resetMint]
+  );
+
+  async function switchNetwork(next: ChainConfig) {
+    changeChain(next);
+    if (!walletProvider || !account) return;
     try {
-      // weiStr is decimal string (BigInt as string)
-      // convert to number of MON with 18 decimals (avoid precision issues for display)
-      const bn = BigInt(weiStr);
-      const whole = bn / BigInt(1e18);
-      const frac = bn % BigInt(1e18);
-      const fracStr = String(frac).padStart(18, "0").slice(0, 4); // 4 decimals
-      return `${whole.toString()}.${fracStr}`;
-    } catch {
-      return "0";
+      await switchWalletChain(new BrowserProvider(walletProvider), next);
+    } catch (e) {
+      setStatus(describeTxError(e));
     }
   }
 
-  const progressPercent = Math.min(
-    100,
-    Math.round((totalSupply / maxSupply) * 100)
-  );
+  const walletChain = getChainById(walletChainId);
+  const wrongNetwork =
+    Boolean(account) && walletChainId !== null && walletChainId !== chain.id;
+
+  // The collection may show a smaller supply than the contract allows
+  const displayMaxSupply = collection.supplyDisplayCap
+    ? Math.min(maxSupply, collection.supplyDisplayCap)
+    : maxSupply;
+  const progressPercent = displayMaxSupply
+    ? Math.min(100, Math.round((totalSupply / displayMaxSupply) * 100))
+    : 0;
+  const home = collectionPath(collection);
+
+  // Collection defaults for every route; pages may override them afterwards
+  // (usePageMeta), which is why this is a layout effect
+  useLayoutEffect(() => {
+    applyPageMeta({
+      title: collection.name,
+      description: collection.description,
+      image: collection.background
+        ? new URL(collection.background, window.location.origin).toString()
+        : undefined,
+      url: new URL(home, window.location.origin).toString(),
+    });
+  }, [collection, home, pathname]);
 
   return (
     <div
-      className="min-h-screen flex flex-col items-center justify-start text-white px-3 sm:px-4"
-      style={{
-        backgroundImage: `url("${bg}")`,
-        backgroundSize: "cover",
-        backgroundPosition: "center",
-      }}
+      className="min-h-screen flex flex-col items-center justify-start text-white px-3 sm:px-4 bg-gray-900"
+      style={
+        {
+          "--accent": collection.theme.accent,
+          "--accent-hover": collection.theme.accentHover,
+          ...(collection.background && {
+            backgroundImage: `url("${collection.background}")`,
+            backgroundSize: "cover",
+            backgroundPosition: "center",
+          }),
+        } as CSSProperties
+      }
     >
       <div className="w-full max-w-4xl px-4 py-6 md:p-8 bg-black/60 backdrop-blur-sm mt-6 md:mt-12 rounded-lg md:rounded-xl">
-        <h1 className="text-3xl md:text-4xl font-bold mb-2">Shramp NFT</h1>
+        <div className="flex items-center justify-between gap-3 mb-2">
+          <h1 className="text-3xl md:text-4xl font-bold">
+            <a
+              href={home}
+              onClick={(e) => {
+                e.preventDefault();
+                navigate(home);
+              }}
+            >
+              {collection.name}
+            </a>
+          </h1>
+          {collection.chains.length > 1 && (
+            <select
+              aria-label={t("nav.network")}
+              value={chain.key}
+              onChange={(e) => {
+                const next = collection.chains.find(
+                  (c) => c.key === e.target.value
+                );
+                if (next) switchNetwork(next);
+              }}
+              className="ml-auto text-xs md:text-sm px-2 py-1 rounded bg-white/10 text-white"
+            >
+              {collection.chains.map((c) => (
+                <option key={c.key} value={c.key} className="text-black">
+                  {c.name}
+                </option>
+              ))}
+            </select>
+          )}
+          {isConfigured && (
+            <button
+              onClick={() =>
+                navigate(
+                  collectionPath(
+                    collection,
+                    isStatsRoute || routeTokenId !== null ? "/" : "/stats"
+                  )
+                )
+              }
+              className={`${
+                collection.chains.length > 1 ? "" : "ml-auto "
+              }text-xs md:text-sm px-3 py-1 rounded bg-white/10 hover:bg-white/20`}
+            >
+              {isStatsRoute || routeTokenId !== null
+                ? t("nav.backToMint")
+                : t("nav.stats")}
+            </button>
+          )}
+          {isOwner && (
+            <button
+              onClick={() =>
+                navigate(
+                  collectionPath(collection, isAdminRoute ? "/" : "/admin")
+                )
+              }
+              className="text-xs md:text-sm px-3 py-1 rounded bg-white/10 hover:bg-white/20"
+            >
+              {isAdminRoute ? t("nav.backToMint") : t("nav.admin")}
+            </button>
+          )}
+        </div>
+        {wrongNetwork && (
+          <div className="mt-2 mb-4 p-3 bg-yellow-600/70 rounded flex flex-col sm:flex-row sm:items-center gap-2 text-xs md:text-sm">
+            <span>
+              {t("network.walletOn", {
+                network:
+                  walletChain?.name ??
+                  t("network.unsupported", { chainId: String(walletChainId) }),
+                chain: chain.name,
+              })}
+            </span>
+            <button
+              onClick={() => switchNetwork(chain)}
+              className="sm:ml-auto px-3 py-1 rounded bg-black/40 hover:bg-black/60"
+            >
+              {t("network.switchTo", { chain: chain.name })}
+            </button>
+          </div>
+        )}
+        {contractCheck &&
+          (!contractCheck.deployed ||
+            contractCheck.missingRequired.length > 0) && (
+            <div className="mt-2 mb-4 p-3 bg-red-600/70 rounded">
+              <div className="text-sm font-semibold">
+                {t("contract.mismatch", { chain: chain.name })}
+              </div>
+              <div className="text-xs text-red-50 mt-1">
+                {!contractCheck.deployed
+                  ? rich("contract.notDeployed", {
+                      address: <code>{chain.contractAddress}</code>,
+                    })
+                  : rich("contract.missingFunctions", {
+                      functions: (
+                        <code>{contractCheck.missingRequired.join(", ")}</code>
+                      ),
+                    })}
+              </div>
+            </div>
+          )}
         {!isConfigured && (
           <div className="mt-2 mb-4 p-3 bg-red-600/70 rounded">
-            <div className="text-sm font-semibold">
-              Environment not configured
-            </div>
+            <div className="text-sm font-semibold">{t("config.missing")}</div>
             <div className="text-xs text-red-50 mt-1">
-              Set <code>VITE_CONTRACT_ADDRESS</code> in your Vercel project
-              Environment Variables and redeploy. Optionally set{" "}
-              <code>VITE_MONAD_RPC_URL</code>.
+              {rich("config.missingBody", {
+                address: <code>VITE_CONTRACT_ADDRESS</code>,
+                rpcUrl: <code>VITE_MONAD_RPC_URL</code>,
+                rpcUrls: <code>VITE_MONAD_RPC_URLS</code>,
+              })}
             </div>
           </div>
         )}
-        <p className="text-xs md:text-sm text-gray-300 mb-4">
-          Public mint ⭐ max {contractMaxPerWallet} per wallet ⭐
-        </p>
-
-        <div className="mb-4">
-          <div className="w-full bg-gray-700 rounded-full h-3 md:h-4 overflow-hidden">
-            <div
-              className="h-3 md:h-4 bg-green-400"
-              style={{ width: `${progressPercent}%` }}
+        {isAdminRoute ? (
+          !account ? (
+            <p className="text-sm text-gray-300">{t("admin.connectOwner")}</p>
+          ) : !isOwner || !owner || !walletProvider ? (
+            <p className="text-sm text-gray-300">{t("admin.notOwner")}</p>
+          ) : (
+            <AdminConsole
+              chain={chain}
+              owner={owner}
+              walletProvider={walletProvider}
+              onOwnershipChanged={reloadOwner}
             />
-          </div>
-          <div className="flex justify-between text-xs md:text-sm mt-2">
-            <span>{totalSupply} minted</span>
-            <span>{maxSupply} max</span>
-          </div>
-        </div>
+          )
+        ) : isStatsRoute ? (
+          <StatsPage collection={collection} chain={chain} account={account} />
+        ) : routeTokenId !== null ? (
+          <TokenPage
+            key={`${chain.key}:${routeTokenId}`}
+            collection={collection}
+            chain={chain}
+            tokenId={routeTokenId}
+            account={account}
+            walletProvider={walletProvider}
+            onConnect={() => setPickerOpen(true)}
+            onTransferred={reloadGallery}
+          />
+        ) : (
+          <>
+            <PhaseBanner sale={sale} walletCap={walletCap} />
+            {allowlistUnsupported ? (
+              <p className="text-xs md:text-sm text-gray-400 -mt-3 mb-4">
+                {t("allowlist.unsupported")}
+              </p>
+            ) : (
+              account &&
+              allowlistPhase &&
+              !allowlistProof && (
+                <p className="text-xs md:text-sm text-gray-400 -mt-3 mb-4">
+                  {t("allowlist.notListed")}
+                </p>
+              )
+            )}
 
-        {account && (
-          <div className="mb-4">
-            <label className="block text-xs md:text-sm text-gray-300 mb-2">
-              Quantity (1-{contractMaxPerWallet}):
-            </label>
-            <div className="flex items-center gap-2">
-              <button
-                onClick={() => setMintQuantity(Math.max(1, mintQuantity - 1))}
-                disabled={mintQuantity <= 1}
-                className="px-3 py-1 bg-gray-600 rounded hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed"
-              >
-                -
-              </button>
-              <input
-                type="number"
-                min="1"
-                max={Math.min(
-                  contractMaxPerWallet,
-                  contractMaxPerWallet - userMintedCount
-                )}
-                value={mintQuantity}
-                onChange={(e) => {
-                  const val = parseInt(e.target.value) || 1;
-                  const maxAllowed = Math.min(
-                    contractMaxPerWallet,
-                    contractMaxPerWallet - userMintedCount
-                  );
-                  setMintQuantity(Math.min(maxAllowed, Math.max(1, val)));
-                }}
-                className="w-16 px-2 py-1 bg-gray-700 text-white rounded text-center"
-              />
-              <button
-                onClick={() =>
-                  setMintQuantity(
-                    Math.min(
-                      contractMaxPerWallet,
-                      Math.min(
-                        contractMaxPerWallet - userMintedCount,
-                        mintQuantity + 1
-                      )
-                    )
-                  )
-                }
-                disabled={
-                  mintQuantity >=
-                  Math.min(
-                    contractMaxPerWallet,
-                    contractMaxPerWallet - userMintedCount
-                  )
-                }
-                className="px-3 py-1 bg-gray-600 rounded hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed"
-              >
-                +
-              </button>
+            <div className="mb-4">
+              <div className="w-full bg-gray-700 rounded-full h-3 md:h-4 overflow-hidden">
+                <div
+                  className="h-3 md:h-4 bg-green-400"
+                  style={{ width: `${progressPercent}%` }}
+                />
+              </div>
+              <div className="flex justify-between text-xs md:text-sm mt-2">
+                <span>{t("supply.minted", { count: totalSupply })}</span>
+                <span>{t("supply.max", { count: displayMaxSupply })}</span>
+              </div>
             </div>
-            <div className="text-xs text-gray-400 mt-1">
-              You've minted: {userMintedCount}/{contractMaxPerWallet} NFTs
-              {userMintedCount >= contractMaxPerWallet && (
-                <span className="text-red-400 ml-2">(Max reached!)</span>
+
+            {account && sale.status === "live" && (
+              <div className="mb-4">
+                <label className="block text-xs md:text-sm text-gray-300 mb-2">
+                  {t("mint.quantity", { max: walletCap })}
+                </label>
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={() =>
+                      setMintQuantity(Math.max(1, mintQuantity - 1))
+                    }
+                    disabled={mintQuantity <= 1}
+                    className="px-3 py-1 bg-gray-600 rounded hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    -
+                  </button>
+                  <input
+                    type="number"
+                    min="1"
+                    max={limits.maxQuantity}
+                    value={mintQuantity}
+                    onChange={(e) => {
+                      const val = parseInt(e.target.value) || 1;
+                      setMintQuantity(
+                        Math.min(limits.maxQuantity, Math.max(1, val))
+                      );
+                    }}
+                    className="w-16 px-2 py-1 bg-gray-700 text-white rounded text-center"
+                  />
+                  <button
+                    onClick={() =>
+                      setMintQuantity(
+                        Math.min(limits.maxQuantity, mintQuantity + 1)
+                      )
+                    }
+                    disabled={mintQuantity >= limits.maxQuantity}
+                    className="px-3 py-1 bg-gray-600 rounded hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    +
+                  </button>
+                </div>
+                <div className="text-xs text-gray-400 mt-1">
+                  {t("mint.walletMinted", {
+                    count: userMintedCount,
+                    max: walletCap,
+                  })}
+                  {limits.walletMaxed && (
+                    <span className="text-red-400 ml-2">
+                      {t("mint.maxReached")}
+                    </span>
+                  )}
+                </div>
+              </div>
+            )}
+
+            {account && sale.status === "live" && !limits.walletMaxed && (
+              <CostPreview
+                chain={chain}
+                cost={mintCost.cost}
+                error={mintCost.error}
+                caps={feeCaps}
+                onCapsChange={setFeeCaps}
+              />
+            )}
+
+            <div className="flex gap-3 md:gap-4 items-stretch sm:items-center mb-6 flex-col sm:flex-row">
+              {!account ? (
+                <button
+                  onClick={() => setPickerOpen(true)}
+                  className="px-5 py-2 bg-accent rounded hover:bg-accent-hover w-full sm:w-auto"
+                >
+                  {t("wallet.connect")}
+                </button>
+              ) : (
+                <div className="flex items-stretch sm:items-center gap-3 md:gap-4 flex-col sm:flex-row w-full">
+                  <div className="text-xs md:text-sm flex items-center gap-2">
+                    {wallet?.info.icon && (
+                      <img src={wallet.info.icon} alt="" className="w-4 h-4" />
+                    )}
+                    {t("wallet.connected", {
+                      address: `${account.slice(0, 6)}...${account.slice(-4)}`,
+                    })}
+                    <button
+                      onClick={() => {
+                        disconnectWallet();
+                        setStatus([]);
+                      }}
+                      className="underline text-gray-300 hover:text-white"
+                    >
+                      {t("wallet.disconnect")}
+                    </button>
+                  </div>
+                  <button
+                    onClick={() => mint.mint(mintQuantity)}
+                    disabled={mintBusy || mintBlocked !== null}
+                    className={`px-5 py-2 rounded w-full sm:w-auto ${
+                      mintBusy || mintBlocked !== null
+                        ? "bg-gray-600 cursor-not-allowed"
+                        : "bg-green-500 hover:bg-green-600"
+                    }`}
+                  >
+                    {mintBusy
+                      ? t("mint.minting")
+                      : mintBlocked ??
+                        t("mint.button", {
+                          count: mintQuantity,
+                          price: formatAmount(
+                            BigInt(priceWei) * BigInt(mintQuantity),
+                            chain.nativeCurrency.decimals
+                          ),
+                          symbol: chain.nativeCurrency.symbol,
+                        })}
+                  </button>
+                </div>
               )}
+              <div className="text-xs md:text-sm text-gray-300 ml-0 sm:ml-auto w-full sm:w-auto">
+                {status.map((s) => t(s)).join(" ")}
+              </div>
             </div>
-          </div>
-        )}
 
-        <div className="flex gap-3 md:gap-4 items-stretch sm:items-center mb-6 flex-col sm:flex-row">
-          {!account ? (
-            <button
-              onClick={connectWallet}
-              className="px-5 py-2 bg-purple-600 rounded hover:bg-purple-700 w-full sm:w-auto"
-            >
-              Connect Wallet
-            </button>
-          ) : (
-            <div className="flex items-stretch sm:items-center gap-3 md:gap-4 flex-col sm:flex-row w-full">
-              <div className="text-xs md:text-sm">
-                Connected: {account.slice(0, 6)}...{account.slice(-4)}
-              </div>
-              <button
-                onClick={mintNFT}
-                disabled={
-                  minting ||
-                  userMintedCount >= contractMaxPerWallet ||
-                  contractMaxPerWallet - userMintedCount <= 0
-                }
-                className={`px-5 py-2 rounded w-full sm:w-auto ${
-                  minting ||
-                  userMintedCount >= contractMaxPerWallet ||
-                  contractMaxPerWallet - userMintedCount <= 0
-                    ? "bg-gray-600 cursor-not-allowed"
-                    : "bg-green-500 hover:bg-green-600"
-                }`}
+            <MintSteps
+              chain={chain}
+              state={mint.state}
+              onRetry={mint.retry}
+              onCancel={mint.cancel}
+              onDismiss={mint.reset}
+            />
+
+            {mint.state.step === "success" && (
+              <MintReveal
+                collection={collection}
+                chain={chain}
+                tokenIds={mint.state.tokenIds}
+                hash={mint.state.hash}
+              />
+            )}
+
+            {isConfigured && (
+              <MintFeedList
+                collection={collection}
+                chain={chain}
+                events={mintFeed.events}
+                loading={mintFeed.loading}
+                account={account}
+              />
+            )}
+
+            {account && isConfigured && (
+              <MyShramps
+                collection={collection}
+                chain={chain}
+                owned={gallery.owned}
+                loading={gallery.loading}
+                error={gallery.error}
+              />
+            )}
+
+            {account && isConfigured && walletProvider && (
+              <HolderSection
+                collection={collection}
+                chain={chain}
+                session={siwe.session}
+                signing={siwe.signing}
+                error={siwe.error}
+                onSignIn={siwe.signIn}
+                onSignOut={siwe.signOut}
+                refreshKey={gallery.owned?.balance}
               >
-                {minting
-                  ? "Minting..."
-                  : userMintedCount >= contractMaxPerWallet ||
-                    contractMaxPerWallet - userMintedCount <= 0
-                  ? "Max NFTs Minted"
-                  : `Mint ${mintQuantity} (${formatMon(
-                      (BigInt(mintPriceWei) * BigInt(mintQuantity)).toString()
-                    )} MON)`}
-              </button>
-            </div>
-          )}
-          <div className="text-xs md:text-sm text-gray-300 ml-0 sm:ml-auto w-full sm:w-auto">
-            {status}
-          </div>
-        </div>
+                <p>{t("holder.welcome")}</p>
+              </HolderSection>
+            )}
+          </>
+        )}
 
-        {/* Preview grid removed; wallet/marketplaces will display images from tokenURI */}
-
-        <div className="mt-6 md:mt-8 text-lg md:text-sm text-gray-300 w-full text-right">
-          created by{" "}
-          <a
-            href="https://x.com/Kae_XVI"
-            target="_blank"
-            rel="noopener noreferrer"
-            className="underline text-white hover:text-blue-300"
-          >
-            @North
-            <svg
-              xmlns="http://www.w3.org/2000/svg"
-              viewBox="0 0 24 24"
-              width="16"
-              height="16"
-              className="inline ml-1 align-[-2px] fill-current"
-            >
-              <path d="M23.954 4.569c-.885.392-1.83.656-2.825.775 1.014-.608 1.794-1.571 2.163-2.724-.95.564-2.005.974-3.127 1.195-.897-.957-2.178-1.554-3.594-1.554-2.723 0-4.932 2.208-4.932 4.932 0 .387.045.763.127 1.124-4.096-.205-7.73-2.168-10.164-5.149-.424.722-.666 1.561-.666 2.457 0 1.695.863 3.188 2.175 4.065-.8-.026-1.553-.245-2.21-.612v.062c0 2.367 1.683 4.342 3.918 4.792-.41.11-.844.17-1.29.17-.315 0-.624-.03-.924-.086.624 1.951 2.438 3.373 4.584 3.411-1.68 1.318-3.8 2.104-6.102 2.104-.396 0-.788-.023-1.175-.068 2.179 1.397 4.768 2.213 7.548 2.213 9.055 0 14.01-7.503 14.01-14.009 0-.213-.004-.425-.013-.636.962-.693 1.797-1.56 2.457-2.548z" />
-            </svg>
-          </a>
+        {pickerOpen && (
+          <WalletPicker
+            wallets={wallets}
+            selectedRdns={wallet?.info.rdns}
+            onSelect={connectWallet}
+            onClose={() => setPickerOpen(false)}
+          />
+        )}
+
+        <div className="mt-6 md:mt-8 w-full flex justify-end items-center gap-4">
+          {reportingConfigured && <ReportingToggle />}
+          <LanguageSwitcher />
         </div>
+
+        <CollectionFooter collection={collection} />
       </div>
     </div>
   );
@@ -0,0 +1,234 @@
+import { useCallback, useEffect, useState } from "react";
+import { BrowserProvider, isAddress, getAddress } from "ethers";
+import type { FunctionFragment } from "ethers";
+import { getContract } from "../contract";
+import { describeTxError, txErrorNames } from "../errors/decodeError";
+import { batchRead } from "../rpc/multicall";
+import type { ChainConfig } from "../chains/registry";
+import { switchWalletChain } from "../chains/switchNetwork";
+import { useI18n } from "../i18n/i18n";
+import type { Translatable } from "../i18n/i18n";
+import type { EIP1193Provider } from "../wallet/eip6963";
+import FunctionForm from "./FunctionForm";
+import {
+  adminWrites,
+  formatValue,
+  parameterViews,
+  writeFunction,
+} from "./abiFunctions";
+import { createLogger } from "../logging/logger";
+import { logTxError } from "../logging/logTxError";
+
+const log = createLogger("admin");
+
+interface AdminConsoleProps {
+  chain: ChainConfig;
+  owner: string;
+  walletProvider: EIP1193Provider;
+  onOwnershipChanged: () => void;
+}
+
+const RENOUNCE_PHRASE = "RENOUNCE";
+
+export default function AdminConsole({
+  chain,
+  owner,
+  walletProvider,
+  onOwnershipChanged,
+}: AdminConsoleProps) {
+  const { t } = useI18n();
+  // null when the read failed
+  const [params, setParams] = useState<Record<string, string | null>>({});
+  const [busy, setBusy] = useState(false);
+  const [status, setStatus] = useState<Translatable[]>([]);
+  const [newOwner, setNewOwner] = useState("");
+  const [newOwnerConfirm, setNewOwnerConfirm] = useState("");
+  const [renouncePhrase, setRenouncePhrase] = useState("");
+  const [renounceArmed, setRenounceArmed] = useState(false);
+
+  const loadParams = useCallback(async () => {
+    const views = parameterViews();
+    try {
+      const results = await batchRead(
+        chain,
+        views.map((f) => ({ fn: f.name }))
+      );
+      setParams(
+        Object.fromEntries(
+          views.map((f, i) => {
+            const r = results[i];
+            return [f.name, r.success ? formatValue(r.value) : null];
+          })
+        )
+      );
+    } catch (e) {
+      log.error("Admin parameter reads failed", { error: e });
+    }
+  }, [chain]);
+
+  useEffect(() => {
+    loadParams();
+  }, [loadParams]);
+
+  async function send(
+    fragment: FunctionFragment,
+    args: unknown[],
+    value?: bigint
+  ) {
+    const { name } = fragment;
+    setBusy(true);
+    setStatus([{ key: "admin.sending", params: { fn: name } }]);
+    try {
+      const provider = new BrowserProvider(walletProvider);
+      await switchWalletChain(provider, chain);
+      const signer = await provider.getSigner();
+      const fn = getContract(chain, signer).getFunction(fragment);
+      const tx = await fn(...args, value !== undefined ? { value } : {});
+      setStatus([{ key: "admin.waiting", params: { fn: name } }]);
+      await tx.wait();
+      setStatus([{ key: "admin.confirmed", params: { fn: name } }]);
+      await loadParams();
+      return true;
+    } catch (e) {
+      logTxError(log, "Admin transaction failed", e, { fn: name });
+      setStatus(describeTxError(e, txErrorNames(chain)));
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const transferValid =
+    isAddress(newOwner) &&
+    newOwnerConfirm.trim().toLowerCase() === newOwner.trim().toLowerCase() &&
+    newOwner.trim().toLowerCase() !== owner.toLowerCase();
+
+  async function transferOwnership() {
+    if (!transferValid) return;
+    if (
+      await send(writeFunction("transferOwnership"), [
+        getAddress(newOwner.trim()),
+      ])
+    ) {
+      onOwnershipChanged();
+    }
+  }
+
+  async function renounceOwnership() {
+    if (renouncePhrase !== RENOUNCE_PHRASE) return;
+    // Second, explicit confirmation step before the irreversible call
+    if (!renounceArmed) {
+      setRenounceArmed(true);
+      return;
+    }
+    setRenounceArmed(false);
+    if (await send(writeFunction("renounceOwnership"), []))
+      onOwnershipChanged();
+  }
+
+  const writes = adminWrites();
+
+  return (
+    <div className="flex flex-col gap-6">
+      <section>
+        <h2 className="text-lg font-semibold mb-2">{t("admin.parameters")}</h2>
+        <table className="w-full text-xs md:text-sm">
+          <tbody>
+            {parameterViews().map((f) => (
+              <tr key={f.name} className="border-b border-white/10">
+                <td className="py-1 pr-4 text-gray-300 font-mono">{f.name}</td>
+                <td className="py-1 break-all">
+                  {params[f.name] === undefined
+                    ? "..."
+                    : params[f.name] ?? t("admin.readFailed")}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </section>
+
+      <section className="flex flex-col gap-2">
+        <h2 className="text-lg font-semibold">
+          {t("admin.transferOwnership")}
+        </h2>
+        <input
+          placeholder={t("admin.newOwner")}
+          value={newOwner}
+          onChange={(e) => setNewOwner(e.target.value)}
+          className="px-2 py-1 bg-gray-700 rounded text-sm"
+        />
+        <input
+          placeholder={t("admin.confirmOwner")}
+          value={newOwnerConfirm}
+          onChange={(e) => setNewOwnerConfirm(e.target.value)}
+          onPaste={(e) => e.preventDefault()}
+          className="px-2 py-1 bg-gray-700 rounded text-sm"
+        />
+        <button
+          onClick={transferOwnership}
+          disabled={busy || !transferValid}
+          className="self-start px-3 py-1 bg-accent rounded hover:bg-accent-hover disabled:opacity-50 text-sm"
+        >
+          {t("admin.transferOwnership")}
+        </button>
+      </section>
+
+      <section className="flex flex-col gap-2 p-3 rounded border border-red-500/60">
+        <h2 className="text-lg font-semibold text-red-300">
+          {t("admin.renounce")}
+        </h2>
+        <p className="text-xs text-gray-300">{t("admin.renounceWarning")}</p>
+        <input
+          placeholder={t("admin.renouncePhrase", { phrase: RENOUNCE_PHRASE })}
+          value={renouncePhrase}
+          onChange={(e) => {
+            setRenouncePhrase(e.target.value);
+            setRenounceArmed(false);
+          }}
+          className="px-2 py-1 bg-gray-700 rounded text-sm"
+        />
+        <div className="flex gap-2">
+          <button
+            onClick={renounceOwnership}
+            disabled={busy || renouncePhrase !== RENOUNCE_PHRASE}
+            className="px-3 py-1 bg-red-600 rounded hover:bg-red-700 disabled:opacity-50 text-sm"
+          >
+            {renounceArmed ? t("admin.renounceConfirm") : t("admin.renounce")}
+          </button>
+          {renounceArmed && (
+            <button
+              onClick={() => setRenounceArmed(false)}
+              className="px-3 py-1 bg-gray-600 rounded text-sm"
+            >
+              {t("action.cancel")}
+            </button>
+          )}
+        </div>
+      </section>
+
+      {writes.length > 0 && (
+        <section className="flex flex-col gap-2">
+          <h2 className="text-lg font-semibold">{t("admin.ownerFunctions")}</h2>
+          {writes.map((f) => (
+            <FunctionForm
+              key={f.selector}
+              fragment={f}
+              currency={chain.nativeCurrency}
+              busy={busy}
+              onSubmit={async (args, value) => {
+                await send(f, args, value);
+              }}
+            />
+          ))}
+        </section>
+      )}
+
+      {status.length > 0 && (
+        <div className="text-xs md:text-sm text-gray-300">
+          {status.map((s) => t(s)).join(" ")}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,101 @@
+import { useState } from "react";
+import type { FormEvent } from "react";
+import { parseUnits } from "ethers";
+import type { FunctionFragment } from "ethers";
+import { parseParam } from "./abiFunctions";
+import type { NativeCurrency } from "../chains/registry";
+import { useI18n } from "../i18n/i18n";
+import type { Translatable } from "../i18n/i18n";
+
+interface FunctionFormProps {
+  fragment: FunctionFragment;
+  // What a payable function's value is sent in
+  currency: NativeCurrency;
+  busy: boolean;
+  onSubmit: (args: unknown[], value?: bigint) => Promise<void>;
+}
+
+/** Form generated from an ABI function fragment: one input per parameter. */
+export default function FunctionForm({
+  fragment,
+  currency,
+  busy,
+  onSubmit,
+}: FunctionFormProps) {
+  const { t, parseDecimal } = useI18n();
+  const [values, setValues] = useState<string[]>(() =>
+    fragment.inputs.map(() => "")
+  );
+  const [value, setValue] = useState("");
+  const [error, setError] = useState<Translatable | null>(null);
+
+  const label = (i: number) => fragment.inputs[i].name || `arg${i}`;
+
+  async function submit(e: FormEvent) {
+    e.preventDefault();
+    setError(null);
+    const args: unknown[] = [];
+    let valueWei: bigint | undefined;
+    for (const [i, p] of fragment.inputs.entries()) {
+      try {
+        args.push(parseParam(p, values[i]));
+      } catch {
+        setError({
+          key: "admin.invalidParam",
+          params: { param: label(i), type: p.type },
+        });
+        return;
+      }
+    }
+    if (fragment.payable && value.trim()) {
+      try {
+        valueWei = parseUnits(parseDecimal(value), currency.decimals);
+      } catch {
+        setError({
+          key: "admin.invalidValue",
+          params: { currency: currency.symbol },
+        });
+        return;
+      }
+    }
+    await onSubmit(args, valueWei);
+  }
+
+  return (
+    <form
+      onSubmit={submit}
+      className="bg-white/5 rounded p-3 flex flex-col gap-2"
+    >
+      <div className="text-sm font-mono">{fragment.format("sighash")}</div>
+      {fragment.inputs.map((p, i) => (
+        <input
+          key={`${p.name}-${i}`}
+          placeholder={`${label(i)} (${p.type})`}
+          value={values[i]}
+          onChange={(e) =>
+            setValues((v) =>
+              v.map((old, j) => (j === i ? e.target.value : old))
+            )
+          }
+          className="px-2 py-1 bg-gray-700 rounded text-sm"
+        />
+      ))}
+      {fragment.payable && (
+        <input
+          placeholder={t("admin.value", { currency: currency.symbol })}
+          value={value}
+          onChange={(e) => setValue(e.target.value)}
+          className="px-2 py-1 bg-gray-700 rounded text-sm"
+        />
+      )}
+      {error && <div className="text-xs text-red-300">{t(error)}</div>}
+      <button
+        type="submit"
+        disabled={busy}
+        className="self-start px-3 py-1 bg-accent rounded hover:bg-accent-hover disabled:opacity-50 text-sm"
+      >
+        {t("admin.send", { fn: fragment.name })}
+      </button>
+    </form>
+  );
+}
@@ -0,0 +1,84 @@
+import { FunctionFragment, Interface, getAddress } from "ethers";
+import type { ParamType } from "ethers";
+import contractABI from "../contractABI";
+import type { WriteFunctionName } from "../contractTypes";
+
+// ABI introspection for the admin console: which views to display and which
+// state-changing functions get a generated form.
+
+const iface = new Interface(contractABI);
+
+// Handled by dedicated UI (mint page, ownership panel) or not owner actions
+const NON_ADMIN_WRITES = new Set([
+  "mint",
+  "transferOwnership",
+  "renounceOwnership",
+  "approve",
+  "setApprovalForAll",
+  "transferFrom",
+  "safeTransferFrom",
+]);
+
+function functions() {
+  return iface.fragments.filter(
+    (f): f is FunctionFragment => f instanceof FunctionFragment
+  );
+}
+
+/** Zero-argument view functions: the contract's readable parameters. */
+export function parameterViews(): FunctionFragment[] {
+  return functions().filter((f) => f.constant && f.inputs.length === 0);
+}
+
+/** Fragment of a write function known to be in the ABI. */
+export function writeFunction(name: WriteFunctionName): FunctionFragment {
+  return iface.getFunction(name)!;
+}
+
+/**
+ * Owner-style write functions (setters, withdraw, pause, ...) present in the
+ * ABI. Anything new added to `contractABI` shows up here automatically.
+ */
+export function adminWrites(): FunctionFragment[] {
+  return functions().filter(
+    (f) => !f.constant && !NON_ADMIN_WRITES.has(f.name)
+  );
+}
+
+/** Parse a form string into the value ethers expects for `param`. */
+export function parseParam(param: ParamType, raw: string): unknown {
+  const value = raw.trim();
+  if (param.isArray()) {
+    const items = JSON.parse(value);
+    if (!Array.isArray(items)) throw new Error(`${param.name}: expected array`);
+    return items.map((item) =>
+      parseParam(
+        param.arrayChildren!,
+        typeof item === "string" ? item : JSON.stringify(item)
+      )
+    );
+  }
+  if (param.baseType === "address") return getAddress(value);
+  if (param.baseType === "bool") {
+    if (!/^(true|false)$/i.test(value)) {
+      throw new Error(`${param.name || param.type}: expected true or false`);
+    }
+    return value.toLowerCase() === "true";
+  }
+  if (/^u?int/.test(param.baseType)) {
+    if (!/^-?\d+$/.test(value)) {
+      throw new Error(`${param.name || param.type}: expected an integer`);
+    }
+    return BigInt(value);
+  }
+  if (param.baseType.startsWith("bytes") && !/^0x[0-9a-fA-F]*$/.test(value)) {
+    throw new Error(`${param.name || param.type}: expected 0x-prefixed hex`);
+  }
+  return value;
+}
+
+export function formatValue(value: unknown): string {
+  if (typeof value === "bigint") return value.toString();
+  if (Array.isArray(value)) return `[${value.map(formatValue).join(", ")}]`;
+  return String(value);
+}
@@ -0,0 +1,35 @@
+import { useCallback, useEffect, useState } from "react";
+import { getContract } from "../contract";
+import { getReadRpc } from "../rpc/readProvider";
+import type { ChainConfig } from "../chains/registry";
+import { createLogger } from "../logging/logger";
+
+const log = createLogger("admin");
+
+/** `owner()` of the contract and whether the connected account holds it. */
+export function useContractOwner(chain: ChainConfig, account: string | null) {
+  const [owner, setOwner] = useState<string | null>(null);
+
+  const reload = useCallback(async () => {
+    setOwner(null);
+    if (!chain.contractAddress) return;
+    try {
+      setOwner(
+        await getReadRpc(chain).run((p) => getContract(chain, p).owner())
+      );
+    } catch (e) {
+      // Contract may not be Ownable; just hide the admin view
+      log.warn("owner() read failed", { error: e });
+      setOwner(null);
+    }
+  }, [chain]);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  const isOwner = Boolean(
+    owner && account && owner.toLowerCase() === account.toLowerCase()
+  );
+  return { owner, isOwner, reload };
+}
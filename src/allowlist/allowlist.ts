@@ -0,0 +1,89 @@
+import { FunctionFragment, Interface } from "ethers";
+import contractABI from "../contractABI";
+import allowlistData from "./allowlist.json";
+import { verifyAllowlistProof } from "./merkle";
+import type { AllowlistFile, AllowlistProof } from "./merkle";
+import { createLogger } from "../logging/logger";
+
+// Proof lookup for the allowlist bundled at build time by
+// `npm run allowlist -- <file.csv>` (see scripts/build-allowlist.ts).
+
+const log = createLogger("allowlist");
+
+const allowlist = allowlistData as AllowlistFile;
+
+// Names contracts commonly use for the Merkle-gated mint
+const ALLOWLIST_MINT_NAMES = ["allowlistMint", "presaleMint", "whitelistMint"];
+const ALLOWLIST_PRICE_NAMES = [
+  "allowlistPrice",
+  "presalePrice",
+  "whitelistPrice",
+];
+
+const iface = new Interface(contractABI);
+
+function findFunction(
+  names: string[],
+  accept: (f: FunctionFragment) => boolean
+) {
+  for (const name of names) {
+    const fragment = iface.getFunction(name);
+    if (fragment && accept(fragment)) return fragment;
+  }
+  return null;
+}
+
+/**
+ * The contract's allowlist mint, if the ABI has one: a payable function
+ * taking a `bytes32[]` proof plus the quantity (and optionally the allowance).
+ */
+export const allowlistMintFragment: FunctionFragment | null = findFunction(
+  ALLOWLIST_MINT_NAMES,
+  (f) =>
+    f.inputs.some((p) => p.type === "bytes32[]") &&
+    f.inputs.filter((p) => p.type === "uint256").length >= 1
+);
+
+/** Zero-argument view for a separate allowlist price, if the ABI has one. */
+export const allowlistPriceFragment: FunctionFragment | null = findFunction(
+  ALLOWLIST_PRICE_NAMES,
+  (f) => f.constant && f.inputs.length === 0
+);
+
+/** The connected account's allowlist entry, verified against the bundled root. */
+export function getAllowlistProof(
+  account: string | null
+): AllowlistProof | null {
+  if (!account || !allowlist.root) return null;
+  const entry = allowlist.entries[account.toLowerCase()];
+  if (!entry) return null;
+  const valid = verifyAllowlistProof(
+    allowlist.root,
+    { address: account, allowance: entry.allowance },
+    entry.proof
+  );
+  if (!valid) {
+    log.warn("Bundled allowlist proof does not match root", { account });
+    return null;
+  }
+  return entry;
+}
+
+/**
+ * Arguments for `allowlistMintFragment` in ABI order. The first uint256 is the
+ * quantity, a second one the allowance committed to in the leaf.
+ */
+export function allowlistMintArgs(
+  fragment: FunctionFragment,
+  quantity: number,
+  entry: AllowlistProof
+): unknown[] {
+  let uints = 0;
+  return fragment.inputs.map((input) => {
+    if (input.type === "bytes32[]") return entry.proof;
+    if (input.type === "uint256") {
+      return uints++ === 0 ? quantity : entry.allowance;
+    }
+    throw new Error(`Unsupported allowlist mint parameter ${input.format()}`);
+  });
+}
@@ -0,0 +1,122 @@
+import { describe, expect, it } from "vitest";
+import { concat, keccak256 } from "ethers";
+import {
+  allowlistLeaf,
+  buildAllowlist,
+  parseAllowlistCsv,
+  verifyAllowlistProof,
+} from "./merkle";
+
+// Expected values generated with @openzeppelin/merkle-tree 1.x:
+//   StandardMerkleTree.of(values, ["address", "uint256"])
+const ALICE = "0x1111111111111111111111111111111111111111";
+const BOB = "0x2222222222222222222222222222222222222222";
+const CAROL = "0x3333333333333333333333333333333333333333";
+
+const OZ: {
+  leaves: Record<string, string>;
+  twoRoot: string;
+  threeRoot: string;
+  threeProofs: Record<string, string[]>;
+} = {
+  leaves: {
+    [ALICE]:
+      "0x60648906e1a3f55dd188e992dc24db68c6b6d455fe925705f5e110ed7889ad90",
+    [BOB]: "0x4397c1fe255e3a9d3a85daaf9e1d39e0eeb9dc120e931f5af6d0a6f8a3315a4d",
+    [CAROL]:
+      "0x1822ae4b563c0815a9cb78809432584aa220f215c2777ddf51cf5bdd1c0ad36f",
+  },
+  twoRoot: "0xc483bd7f540edcc7b3ce5bbbed3993990bfa99995b9af85ba26fd87ae82073db",
+  threeRoot:
+    "0x5e771244079f3cd0c00b8049645e77e8e406649537ff2780ac160826ee674f49",
+  threeProofs: {
+    [ALICE]: [
+      "0xf9c076fa70b870f2316bed45609b8df7e04b4e32ea137766fdd73dfd096fe54c",
+    ],
+    [BOB]: [
+      "0x1822ae4b563c0815a9cb78809432584aa220f215c2777ddf51cf5bdd1c0ad36f",
+      "0x60648906e1a3f55dd188e992dc24db68c6b6d455fe925705f5e110ed7889ad90",
+    ],
+    [CAROL]: [
+      "0x4397c1fe255e3a9d3a85daaf9e1d39e0eeb9dc120e931f5af6d0a6f8a3315a4d",
+      "0x60648906e1a3f55dd188e992dc24db68c6b6d455fe925705f5e110ed7889ad90",
+    ],
+  },
+};
+
+const entries = [
+  { address: ALICE, allowance: 1 },
+  { address: BOB, allowance: 2 },
+  { address: CAROL, allowance: 3 },
+];
+
+describe("allowlist Merkle tree", () => {
+  it("hashes leaves like StandardMerkleTree", () => {
+    for (const entry of entries) {
+      expect(allowlistLeaf(entry)).toBe(OZ.leaves[entry.address]);
+    }
+  });
+
+  it("uses the single leaf as the root", () => {
+    expect(buildAllowlist(entries.slice(0, 1))).toEqual({
+      root: OZ.leaves[ALICE],
+      entries: { [ALICE]: { allowance: 1, proof: [] } },
+    });
+  });
+
+  it("hashes pairs in sorted order", () => {
+    const { root } = buildAllowlist(entries.slice(0, 2));
+    expect(root).toBe(OZ.twoRoot);
+    // BOB's leaf sorts first, whichever order the rows came in
+    expect(root).toBe(keccak256(concat([OZ.leaves[BOB], OZ.leaves[ALICE]])));
+    expect(buildAllowlist([entries[1], entries[0]]).root).toBe(OZ.twoRoot);
+  });
+
+  it("matches OpenZeppelin's root and proofs for an odd leaf count", () => {
+    const tree = buildAllowlist(entries);
+    expect(tree.root).toBe(OZ.threeRoot);
+    for (const entry of entries) {
+      expect(tree.entries[entry.address].proof).toEqual(
+        OZ.threeProofs[entry.address]
+      );
+    }
+  });
+
+  it("verifies OpenZeppelin proofs and rejects tampered ones", () => {
+    for (const entry of entries) {
+      const proof = OZ.threeProofs[entry.address];
+      expect(verifyAllowlistProof(OZ.threeRoot, entry, proof)).toBe(true);
+      // The allowance is committed to in the leaf
+      expect(
+        verifyAllowlistProof(
+          OZ.threeRoot,
+          { ...entry, allowance: entry.allowance + 1 },
+          proof
+        )
+      ).toBe(false);
+    }
+    expect(
+      verifyAllowlistProof(
+        OZ.threeRoot,
+        entries[0],
+        OZ.threeProofs[ALICE].map(() => OZ.leaves[ALICE])
+      )
+    ).toBe(false);
+  });
+
+  it("rejects duplicate addresses", () => {
+    expect(() =>
+      buildAllowlist([entries[0], { ...entries[0], allowance: 5 }])
+    ).toThrow(/Duplicate address/);
+  });
+
+  it("parses CSV rows, skipping the header and defaulting the allowance", () => {
+    expect(
+      parseAllowlistCsv(`address,allowance\n${ALICE},2\n\n${BOB}\n`)
+    ).toEqual([
+      { address: ALICE, allowance: 2 },
+      { address: BOB, allowance: 1 },
+    ]);
+    expect(() => parseAllowlistCsv(`${ALICE},0`)).toThrow(/invalid allowance/);
+  });
+});
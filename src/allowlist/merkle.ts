@@ -0,0 +1,120 @@
+import { AbiCoder, concat, getAddress, keccak256 } from "ethers";
+
+// Allowlist Merkle tree compatible with OpenZeppelin's MerkleProof.verify
+// (sorted-pair hashing). Leaves are the double-hashed
+// abi.encode(address, uint256 allowance), as in OZ's StandardMerkleTree, so
+// the contract checks:
+//   keccak256(bytes.concat(keccak256(abi.encode(msg.sender, allowance))))
+// Shared by the browser bundle and the build script; keep it DOM/Node free.
+
+export interface AllowlistEntry {
+  address: string;
+  allowance: number;
+}
+
+export interface AllowlistProof {
+  allowance: number;
+  proof: string[];
+}
+
+/** Shape of the generated `allowlist.json` bundled with the frontend. */
+export interface AllowlistFile {
+  root: string | null;
+  // Keyed by lowercase address
+  entries: Record<string, AllowlistProof>;
+}
+
+export function allowlistLeaf(entry: AllowlistEntry): string {
+  const encoded = AbiCoder.defaultAbiCoder().encode(
+    ["address", "uint256"],
+    [getAddress(entry.address), entry.allowance]
+  );
+  return keccak256(keccak256(encoded));
+}
+
+function hashPair(a: string, b: string): string {
+  return BigInt(a) < BigInt(b)
+    ? keccak256(concat([a, b]))
+    : keccak256(concat([b, a]));
+}
+
+/** Build the tree and every entry's proof. Throws on duplicate addresses. */
+export function buildAllowlist(entries: AllowlistEntry[]): AllowlistFile {
+  if (entries.length === 0) return { root: null, entries: {} };
+
+  const seen = new Set<string>();
+  for (const e of entries) {
+    const key = e.address.toLowerCase();
+    if (seen.has(key)) throw new Error(`Duplicate address ${e.address}`);
+    seen.add(key);
+  }
+
+  // Sort leaves so the root doesn't depend on CSV row order
+  const leaves = entries
+    .map((entry) => ({ entry, leaf: allowlistLeaf(entry) }))
+    .sort((a, b) => (BigInt(a.leaf) < BigInt(b.leaf) ? -1 : 1));
+
+  const layers: string[][] = [leaves.map((l) => l.leaf)];
+  while (layers[layers.length - 1].length > 1) {
+    const prev = layers[layers.length - 1];
+    const next: string[] = [];
+    for (let i = 0; i < prev.length; i += 2) {
+      // An odd node out is promoted to the next layer unchanged
+      next.push(i + 1 < prev.length ? hashPair(prev[i], prev[i + 1]) : prev[i]);
+    }
+    layers.push(next);
+  }
+
+  const result: AllowlistFile = {
+    root: layers[layers.length - 1][0],
+    entries: {},
+  };
+  leaves.forEach(({ entry }, index) => {
+    const proof: string[] = [];
+    let i = index;
+    for (const layer of layers.slice(0, -1)) {
+      const sibling = i % 2 === 0 ? i + 1 : i - 1;
+      if (sibling < layer.length) proof.push(layer[sibling]);
+      i = Math.floor(i / 2);
+    }
+    result.entries[entry.address.toLowerCase()] = {
+      allowance: entry.allowance,
+      proof,
+    };
+  });
+  return result;
+}
+
+export function verifyAllowlistProof(
+  root: string,
+  entry: AllowlistEntry,
+  proof: string[]
+): boolean {
+  const computed = proof.reduce(hashPair, allowlistLeaf(entry));
+  return computed.toLowerCase() === root.toLowerCase();
+}
+
+/**
+ * Parse `address,allowance` rows. A header row and blank lines are skipped;
+ * a missing allowance defaults to 1.
+ */
+export function parseAllowlistCsv(text: string): AllowlistEntry[] {
+  const entries: AllowlistEntry[] = [];
+  text.split(/\r?\n/).forEach((line, i) => {
+    const [rawAddress, rawAllowance] = line.split(",").map((c) => c.trim());
+    if (!rawAddress || rawAddress.startsWith("#")) return;
+    if (i === 0 && !rawAddress.startsWith("0x")) return; // header
+    let address: string;
+    try {
+      address = getAddress(rawAddress.toLowerCase());
+    } catch {
+      throw new Error(`Line ${i + 1}: invalid address "${rawAddress}"`);
+    }
+    const allowance = rawAllowance ? Number(rawAllowance) : 1;
+    if (!Number.isInteger(allowance) || allowance < 1) {
+      throw new Error(`Line ${i + 1}: invalid allowance "${rawAllowance}"`);
+    }
+    entries.push({ address, allowance });
+  });
+  return entries;
+}
@@ -0,0 +1,129 @@
+import { parseSchedule } from "../phases/config";
+import type { MintPhase } from "../phases/config";
+
+// Chains and deployments the app can serve. Everything chain-specific (RPCs,
+// explorer, currency, contract address) lives here; a chain is offered in
+// the UI only when it has a contract address configured.
+
+export interface NativeCurrency {
+  name: string;
+  symbol: string;
+  decimals: number;
+}
+
+export interface ChainConfig {
+  key: string; // stable id used in storage and VITE_DEFAULT_CHAIN
+  id: number;
+  name: string;
+  rpcUrls: string[]; // read RPCs in priority order
+  explorerUrl?: string;
+  nativeCurrency: NativeCurrency;
+  contractAddress?: string;
+  // Block the contract was deployed at; lower bound for log scans
+  deployBlock?: number;
+  // Multicall3 for batched reads; used only if code exists at the address
+  multicall3Address?: string;
+  // Configured mint phases; contract views override their times
+  schedule?: MintPhase[];
+}
+
+const env = import.meta.env;
+
+const MON: NativeCurrency = { name: "MON", symbol: "MON", decimals: 18 };
+
+// Canonical Multicall3 deployment, same address on most EVM chains
+const MULTICALL3 = "0xcA11bde05977b3631167028862bE2a173976CA11";
+
+/** Comma-separated env lists (plus single values), de-duplicated, in order. */
+function urlList(...values: (string | undefined)[]): string[] {
+  const urls = values
+    .flatMap((v) => (v ?? "").split(","))
+    .map((u) => u.trim())
+    .filter(Boolean);
+  return Array.from(new Set(urls));
+}
+
+function withDefault(list: string[], fallback: string) {
+  return list.length ? list : [fallback];
+}
+
+function blockNumber(value: string | undefined) {
+  return value ? Number(value) : undefined;
+}
+
+export const CHAINS: ChainConfig[] = [
+  {
+    key: "monad-testnet",
+    id: 10143,
+    name: "Monad Testnet",
+    rpcUrls: withDefault(
+      urlList(env.VITE_MONAD_RPC_URLS, env.VITE_MONAD_RPC_URL),
+      "https://testnet-rpc.monad.xyz"
+    ),
+    explorerUrl: "https://testnet.monadexplorer.com",
+    nativeCurrency: MON,
+    contractAddress: env.VITE_CONTRACT_ADDRESS,
+    deployBlock: blockNumber(env.VITE_CONTRACT_DEPLOY_BLOCK),
+    multicall3Address: MULTICALL3,
+    schedule: parseSchedule(env.VITE_MINT_SCHEDULE),
+  },
+  {
+    key: "monad",
+    id: 143,
+    name: "Monad",
+    rpcUrls: withDefault(
+      urlList(env.VITE_MAINNET_RPC_URLS),
+      "https://rpc.monad.xyz"
+    ),
+    explorerUrl: env.VITE_MAINNET_EXPLORER_URL || "https://monadexplorer.com",
+    nativeCurrency: MON,
+    contractAddress: env.VITE_MAINNET_CONTRACT_ADDRESS,
+    deployBlock: blockNumber(env.VITE_MAINNET_DEPLOY_BLOCK),
+    multicall3Address: MULTICALL3,
+    schedule: parseSchedule(env.VITE_MAINNET_MINT_SCHEDULE),
+  },
+  {
+    key: "local",
+    id: 31337,
+    name: "Local Devnet",
+    rpcUrls: withDefault(
+      urlList(env.VITE_LOCAL_RPC_URL),
+      "http://127.0.0.1:8545"
+    ),
+    nativeCurrency: MON,
+    contractAddress: env.VITE_LOCAL_CONTRACT_ADDRESS,
+    deployBlock: 0,
+    multicall3Address: env.VITE_LOCAL_MULTICALL3_ADDRESS,
+    schedule: parseSchedule(env.VITE_LOCAL_MINT_SCHEDULE),
+  },
+];
+
+/** Chains with a deployment; the ones users can pick. */
+export const DEPLOYED_CHAINS = CHAINS.filter((c) => c.contractAddress);
+
+export function getChainById(id: number | bigint | string | null | undefined) {
+  if (id === null || id === undefined) return undefined;
+  const n = Number(id); // accepts hex strings from eth_chainId too
+  return CHAINS.find((c) => c.id === n);
+}
+
+export function getChainByKey(key: string | null | undefined) {
+  return CHAINS.find((c) => c.key === key);
+}
+
+export const DEFAULT_CHAIN: ChainConfig =
+  getChainByKey(env.VITE_DEFAULT_CHAIN) ?? DEPLOYED_CHAINS[0] ?? CHAINS[0];
+
+export function toHexChainId(id: number) {
+  return `0x${id.toString(16)}`;
+}
+
+export function explorerTxUrl(chain: ChainConfig, hash: string) {
+  return chain.explorerUrl ? `${chain.explorerUrl}/tx/${hash}` : undefined;
+}
+
+export function explorerAddressUrl(chain: ChainConfig, address: string) {
+  return chain.explorerUrl
+    ? `${chain.explorerUrl}/address/${address}`
+    : undefined;
+}
@@ -0,0 +1,46 @@
+import type { BrowserProvider } from "ethers";
+import { toHexChainId } from "./registry";
+import type { ChainConfig } from "./registry";
+import { createLogger } from "../logging/logger";
+
+const log = createLogger("wallet");
+
+/** Ask the wallet to switch to `chain`, adding it first if it's unknown. */
+export async function switchWalletChain(
+  provider: BrowserProvider,
+  chain: ChainConfig
+) {
+  const targetChainIdHex = toHexChainId(chain.id);
+  try {
+    const current = await provider.send("eth_chainId", []);
+    if (Number(current) === chain.id) return;
+    try {
+      await provider.send("wallet_switchEthereumChain", [
+        { chainId: targetChainIdHex },
+      ]);
+    } catch (switchErr: unknown) {
+      const err = switchErr as { code?: number; message?: unknown };
+      // If the chain is not added, try adding
+      if (
+        err?.code === 4902 ||
+        (typeof err?.message === "string" &&
+          /Unrecognized chain ID/i.test(err.message))
+      ) {
+        await provider.send("wallet_addEthereumChain", [
+          {
+            chainId: targetChainIdHex,
+            chainName: chain.name,
+            nativeCurrency: chain.nativeCurrency,
+            rpcUrls: chain.rpcUrls,
+            blockExplorerUrls: chain.explorerUrl ? [chain.explorerUrl] : null,
+          },
+        ]);
+      } else {
+        throw switchErr;
+      }
+    }
+  } catch (e) {
+    log.warn("Chain switch failed", { chainId: chain.id, error: e });
+    throw e;
+  }
+}
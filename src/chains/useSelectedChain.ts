@@ -0,0 +1,41 @@
+import { useCallback, useState } from "react";
+import { DEFAULT_CHAIN } from "./registry";
+import type { ChainConfig } from "./registry";
+
+const CHAIN_KEY = "shramp:chain";
+
+function readStoredChain(chains: ChainConfig[]): ChainConfig {
+  try {
+    const key = localStorage.getItem(CHAIN_KEY);
+    const stored = chains.find((c) => c.key === key);
+    if (stored) return stored;
+  } catch {
+    // storage unavailable
+  }
+  return (
+    chains.find((c) => c.key === DEFAULT_CHAIN.key) ??
+    chains[0] ??
+    DEFAULT_CHAIN
+  );
+}
+
+/**
+ * The chain the app reads from and mints on, one of `chains` (a collection's
+ * deployments), remembered across visits.
+ */
+export function useSelectedChain(chains: ChainConfig[]) {
+  const [chain, setChain] = useState<ChainConfig>(() =>
+    readStoredChain(chains)
+  );
+
+  const selectChain = useCallback((next: ChainConfig) => {
+    setChain(next);
+    try {
+      localStorage.setItem(CHAIN_KEY, next.key);
+    } catch {
+      // selection just won't persist
+    }
+  }, []);
+
+  return { chain, selectChain };
+}
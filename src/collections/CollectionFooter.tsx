@@ -0,0 +1,53 @@
+import type { CollectionConfig, SocialLink } from "./registry";
+import { useI18n } from "../i18n/i18n";
+
+function isX(url: string) {
+  return /^https:\/\/(www\.)?(x|twitter)\.com\//.test(url);
+}
+
+function ExternalLink({ link }: { link: SocialLink }) {
+  return (
+    <a
+      href={link.url}
+      target="_blank"
+      rel="noopener noreferrer"
+      className="underline text-white hover:text-blue-300"
+    >
+      {link.label}
+      {isX(link.url) && (
+        <svg
+          xmlns="http://www.w3.org/2000/svg"
+          viewBox="0 0 24 24"
+          width="16"
+          height="16"
+          className="inline ml-1 align-[-2px] fill-current"
+        >
+          <path d="M23.954 4.569c-.885.392-1.83.656-2.825.775 1.014-.608 1.794-1.571 2.163-2.724-.95.564-2.005.974-3.127 1.195-.897-.957-2.178-1.554-3.594-1.554-2.723 0-4.932 2.208-4.932 4.932 0 .387.045.763.127 1.124-4.096-.205-7.73-2.168-10.164-5.149-.424.722-.666 1.561-.666 2.457 0 1.695.863 3.188 2.175 4.065-.8-.026-1.553-.245-2.21-.612v.062c0 2.367 1.683 4.342 3.918 4.792-.41.11-.844.17-1.29.17-.315 0-.624-.03-.924-.086.624 1.951 2.438 3.373 4.584 3.411-1.68 1.318-3.8 2.104-6.102 2.104-.396 0-.788-.023-1.175-.068 2.179 1.397 4.768 2.213 7.548 2.213 9.055 0 14.01-7.503 14.01-14.009 0-.213-.004-.425-.013-.636.962-.693 1.797-1.56 2.457-2.548z" />
+        </svg>
+      )}
+    </a>
+  );
+}
+
+/** The collection's social links and "created by" credit. */
+export default function CollectionFooter({
+  collection,
+}: {
+  collection: CollectionConfig;
+}) {
+  const { rich } = useI18n();
+  const { socials, credit } = collection;
+  if (socials.length === 0 && !credit) return null;
+  return (
+    <div className="mt-6 md:mt-8 text-lg md:text-sm text-gray-300 w-full flex flex-wrap justify-end gap-x-4 gap-y-1">
+      {socials.map((link) => (
+        <ExternalLink key={link.url} link={link} />
+      ))}
+      {credit && (
+        <span>
+          {rich("footer.createdBy", { link: <ExternalLink link={credit} /> })}
+        </span>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_COLLECTION,
+  collectionPath,
+  parseCollections,
+  splitCollectionPath,
+  toCollection,
+} from "./registry";
+
+const CONTRACT = "0x5FbDB2315678afecb367f032d93F642f64180aa3";
+
+const frogs = {
+  slug: "frogs",
+  name: "Frog Drop",
+  tokenName: "Frog",
+  deployments: {
+    monad: { contractAddress: CONTRACT.toLowerCase(), deployBlock: 12 },
+    "monad-testnet": {
+      contractAddress: CONTRACT,
+      schedule: [{ kind: "allowlist", price: "0.5" }],
+    },
+  },
+};
+
+describe("collection config", () => {
+  it("builds chain entries carrying the collection's contract", () => {
+    const c = toCollection(frogs);
+    expect(c.tokenNamePlural).toBe("Frogs");
+    expect(c.theme).toEqual(DEFAULT_COLLECTION.theme);
+    // Registry order, whatever order the JSON lists them in
+    expect(c.chains.map((ch) => ch.key)).toEqual(["monad-testnet", "monad"]);
+    expect(c.chains[1]).toMatchObject({
+      id: 143,
+      contractAddress: CONTRACT,
+      deployBlock: 12,
+    });
+    expect(c.chains[0].schedule?.[0].priceWei).toBe(500000000000000000n);
+  });
+
+  it("skips bad entries and keeps the rest", () => {
+    const parsed = parseCollections(
+      [
+        frogs,
+        { ...frogs, slug: "Bad Slug" },
+        { ...frogs, slug: "toads", deployments: { nowhere: {} } },
+        { ...frogs, slug: "newts", socials: [{ label: "x", url: "ftp://x" }] },
+        { ...frogs }, // duplicate slug
+        { ...frogs, slug: DEFAULT_COLLECTION.slug },
+      ],
+      "test"
+    );
+    expect(parsed.map((c) => c.slug)).toEqual(["frogs"]);
+  });
+
+  it("maps paths in and out of /c/:slug", () => {
+    const c = toCollection(frogs);
+    expect(splitCollectionPath("/c/frogs/token/7")).toEqual({
+      slug: "frogs",
+      path: "/token/7",
+    });
+    expect(splitCollectionPath("/c/frogs")).toEqual({
+      slug: "frogs",
+      path: "/",
+    });
+    expect(splitCollectionPath("/stats")).toEqual({
+      slug: null,
+      path: "/stats",
+    });
+    expect(collectionPath(c)).toBe("/c/frogs");
+    expect(collectionPath(c, "/stats")).toBe("/c/frogs/stats");
+    expect(collectionPath(DEFAULT_COLLECTION, "/stats")).toBe("/stats");
+  });
+});
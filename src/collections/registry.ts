@@ -0,0 +1,216 @@
+import { getAddress } from "ethers";
+import defaultBackground from "../assets/monad-bg-3.jpeg";
+import { CHAINS, DEPLOYED_CHAINS, getChainByKey } from "../chains/registry";
+import type { ChainConfig } from "../chains/registry";
+import { createLogger } from "../logging/logger";
+import { toPhases } from "../phases/config";
+import bundledCollections from "./collections.json";
+
+// Collections (drops) this frontend serves. The default collection is the one
+// configured through the VITE_* contract variables and lives at "/". Others
+// are declared in collections.json (bundled at build time) or in the JSON file
+// at VITE_COLLECTIONS_URL (fetched at runtime) and live under /c/:slug.
+//
+// A collection brings its branding and its deployments. Everything else about
+// a chain (RPCs, explorer, currency) still comes from the chain registry.
+
+const log = createLogger("collections");
+
+export interface SocialLink {
+  label: string;
+  url: string;
+}
+
+export interface CollectionTheme {
+  accent: string; // CSS color for primary buttons and highlights
+  accentHover: string;
+}
+
+export interface CollectionConfig {
+  slug: string;
+  name: string; // site title, e.g. "Shramp NFT"
+  tokenName: string; // one token, e.g. "Shramp" as in "Shramp #12"
+  tokenNamePlural: string;
+  description?: string;
+  background?: string; // image URL
+  theme: CollectionTheme;
+  socials: SocialLink[];
+  credit?: SocialLink; // the "created by" footer link
+  // Supply shown in the UI never exceeds this, whatever the contract says
+  supplyDisplayCap?: number;
+  // Chain registry entries carrying this collection's contract, one per chain
+  chains: ChainConfig[];
+  isDefault: boolean;
+}
+
+const DEFAULT_THEME: CollectionTheme = {
+  accent: "#9333ea",
+  accentHover: "#7e22ce",
+};
+
+export const DEFAULT_COLLECTION: CollectionConfig = {
+  slug: "shramp",
+  name: "Shramp NFT",
+  tokenName: "Shramp",
+  tokenNamePlural: "Shramps",
+  background: defaultBackground,
+  theme: DEFAULT_THEME,
+  socials: [],
+  credit: { label: "@North", url: "https://x.com/Kae_XVI" },
+  supplyDisplayCap: 500,
+  chains: DEPLOYED_CHAINS,
+  isDefault: true,
+};
+
+const SLUG = /^[a-z0-9][a-z0-9-]*$/;
+
+function text(value: unknown, field: string): string {
+  if (typeof value !== "string" || !value.trim()) {
+    throw new Error(`${field} must be a non-empty string`);
+  }
+  return value.trim();
+}
+
+function optionalText(value: unknown, field: string) {
+  return value === undefined ? undefined : text(value, field);
+}
+
+function link(value: unknown, field: string): SocialLink {
+  const { label, url } = (value ?? {}) as Record<string, unknown>;
+  const href = text(url, `${field}.url`);
+  if (!/^https?:\/\//.test(href))
+    throw new Error(`${field}.url must be http(s)`);
+  return { label: text(label, `${field}.label`), url: href };
+}
+
+function deployment(chain: ChainConfig, value: unknown): ChainConfig {
+  const d = (value ?? {}) as Record<string, unknown>;
+  const field = `deployments.${chain.key}`;
+  let contractAddress: string;
+  try {
+    contractAddress = getAddress(text(d.contractAddress, field));
+  } catch {
+    throw new Error(`${field}.contractAddress is not an address`);
+  }
+  return {
+    ...chain,
+    contractAddress,
+    deployBlock:
+      d.deployBlock === undefined ? undefined : Number(d.deployBlock),
+    schedule: d.schedule === undefined ? undefined : toPhases(d.schedule),
+  };
+}
+
+/** One collection from its JSON form; throws on anything missing or malformed. */
+export function toCollection(value: unknown): CollectionConfig {
+  const c = (value ?? {}) as Record<string, unknown>;
+  const slug = text(c.slug, "slug");
+  if (!SLUG.test(slug)) throw new Error(`invalid slug "${slug}"`);
+  const name = text(c.name, "name");
+  const tokenName = optionalText(c.tokenName, "tokenName") ?? name;
+  const theme = (c.theme ?? {}) as Record<string, unknown>;
+  const deployments = (c.deployments ?? {}) as Record<string, unknown>;
+  const chains = Object.entries(deployments).map(([key, d]) => {
+    const chain = getChainByKey(key);
+    if (!chain) throw new Error(`unknown chain "${key}"`);
+    return deployment(chain, d);
+  });
+  if (chains.length === 0) throw new Error("needs at least one deployment");
+  // Registry order, so the chain picker looks the same for every collection
+  const order = (c: ChainConfig) => CHAINS.findIndex((x) => x.key === c.key);
+  chains.sort((a, b) => order(a) - order(b));
+  return {
+    slug,
+    name,
+    tokenName,
+    tokenNamePlural:
+      optionalText(c.tokenNamePlural, "tokenNamePlural") ?? `${tokenName}s`,
+    description: optionalText(c.description, "description"),
+    background: optionalText(c.background, "background"),
+    theme: {
+      accent:
+        optionalText(theme.accent, "theme.accent") ?? DEFAULT_THEME.accent,
+      accentHover:
+        optionalText(theme.accentHover, "theme.accentHover") ??
+        optionalText(theme.accent, "theme.accent") ??
+        DEFAULT_THEME.accentHover,
+    },
+    socials: Array.isArray(c.socials)
+      ? c.socials.map((s, i) => link(s, `socials[${i}]`))
+      : [],
+    credit: c.credit === undefined ? undefined : link(c.credit, "credit"),
+    supplyDisplayCap:
+      c.supplyDisplayCap === undefined ? undefined : Number(c.supplyDisplayCap),
+    chains,
+    isDefault: false,
+  };
+}
+
+/**
+ * Collections from a JSON array. A bad entry is logged and skipped so one
+ * typo doesn't take every other drop down with it.
+ */
+export function parseCollections(
+  items: unknown,
+  source: string
+): CollectionConfig[] {
+  if (!Array.isArray(items)) {
+    log.error("Ignoring collections that aren't a JSON array", { source });
+    return [];
+  }
+  const parsed: CollectionConfig[] = [];
+  for (const item of items) {
+    try {
+      const collection = toCollection(item);
+      if (
+        collection.slug === DEFAULT_COLLECTION.slug ||
+        parsed.some((c) => c.slug === collection.slug)
+      ) {
+        throw new Error(`duplicate slug "${collection.slug}"`);
+      }
+      parsed.push(collection);
+    } catch (e) {
+      log.error("Ignoring invalid collection", {
+        source,
+        slug: (item as { slug?: unknown })?.slug,
+        error: e,
+      });
+    }
+  }
+  return parsed;
+}
+
+export const BUNDLED_COLLECTIONS = parseCollections(
+  bundledCollections,
+  "collections.json"
+);
+
+/** Collections listed at `url`, e.g. VITE_COLLECTIONS_URL. */
+export async function fetchCollections(
+  url: string
+): Promise<CollectionConfig[]> {
+  const res = await fetch(url);
+  if (!res.ok) throw new Error(`HTTP ${res.status} for ${url}`);
+  return parseCollections(await res.json(), url).filter(
+    (c) => !BUNDLED_COLLECTIONS.some((b) => b.slug === c.slug)
+  );
+}
+
+const COLLECTION_PATH = /^\/c\/([^/]+)(\/.*)?$/;
+
+/**
+ * Split a pathname into the collection slug (null for the default
+ * collection) and the page path within the collection.
+ */
+export function splitCollectionPath(pathname: string) {
+  const match = COLLECTION_PATH.exec(pathname);
+  if (!match) return { slug: null, path: pathname };
+  return { slug: match[1], path: match[2] || "/" };
+}
+
+/** Absolute path of `path` within `collection`, e.g. /c/frogs/stats. */
+export function collectionPath(collection: CollectionConfig, path = "/") {
+  if (collection.isDefault) return path;
+  const base = `/c/${collection.slug}`;
+  return path === "/" ? base : `${base}${path}`;
+}
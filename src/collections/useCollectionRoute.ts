@@ -0,0 +1,61 @@
+import { useEffect, useState } from "react";
+import { usePathname } from "../router";
+import { createLogger } from "../logging/logger";
+import {
+  BUNDLED_COLLECTIONS,
+  DEFAULT_COLLECTION,
+  fetchCollections,
+  splitCollectionPath,
+} from "./registry";
+import type { CollectionConfig } from "./registry";
+
+const log = createLogger("collections");
+
+const REMOTE_URL = import.meta.env.VITE_COLLECTIONS_URL;
+
+// Fetched at most once per page load, on the first unknown slug
+let remote: Promise<CollectionConfig[]> | null = null;
+
+function loadRemoteCollections(url: string) {
+  remote ??= fetchCollections(url).catch((e) => {
+    log.error("Could not load collections", { url, error: e });
+    return [];
+  });
+  return remote;
+}
+
+export type CollectionRoute =
+  | { status: "found"; collection: CollectionConfig; path: string }
+  | { status: "loading" | "missing"; slug: string };
+
+/** The collection the current URL points at, and the page path within it. */
+export function useCollectionRoute(): CollectionRoute {
+  const { slug, path } = splitCollectionPath(usePathname());
+  const [remoteCollections, setRemoteCollections] = useState<
+    CollectionConfig[] | null
+  >(null);
+
+  const bundled =
+    slug === null || slug === DEFAULT_COLLECTION.slug
+      ? DEFAULT_COLLECTION
+      : BUNDLED_COLLECTIONS.find((c) => c.slug === slug);
+  const needsRemote = !bundled && Boolean(REMOTE_URL);
+
+  useEffect(() => {
+    if (!needsRemote || remoteCollections) return;
+    let cancelled = false;
+    loadRemoteCollections(REMOTE_URL!).then(
+      (list) => !cancelled && setRemoteCollections(list)
+    );
+    return () => {
+      cancelled = true;
+    };
+  }, [needsRemote, remoteCollections]);
+
+  const collection = bundled ?? remoteCollections?.find((c) => c.slug === slug);
+  if (collection) return { status: "found", collection, path };
+  return {
+    status: needsRemote && !remoteCollections ? "loading" : "missing",
+    slug: slug!,
+  };
+}
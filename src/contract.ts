@@ -0,0 +1,20 @@
+import { BaseContract } from "ethers";
+import type { Provider, Signer } from "ethers";
+import contractABI from "./contractABI";
+import type { ChainConfig } from "./chains/registry";
+import type { ShrampContract, ShrampMethods } from "./contractTypes";
+
+// Contract class whose instances carry the typed ABI methods
+const ShrampBase = BaseContract.buildClass<ShrampMethods>(contractABI);
+
+export function getContract(
+  chain: ChainConfig,
+  providerOrSigner: Provider | Signer
+): ShrampContract {
+  if (!chain.contractAddress) {
+    throw new Error(
+      `No contract address configured for ${chain.name}. Configure it in your Vercel env.`
+    );
+  }
+  return new ShrampBase(chain.contractAddress, providerOrSigner);
+}
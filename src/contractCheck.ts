@@ -0,0 +1,83 @@
+import { FunctionFragment, Interface } from "ethers";
+import contractABI from "./contractABI";
+import { getReadRpc } from "./rpc/readProvider";
+import type { ChainConfig } from "./chains/registry";
+import type { FunctionName } from "./contractTypes";
+
+// Startup check that the deployed bytecode actually implements the functions
+// the UI calls. Solidity's dispatcher compares calldata against each
+// selector with PUSH4 <selector>, so a selector missing from the code means
+// the function is missing (e.g. a `mint()` contract vs our `mint(uint256)`).
+
+// Without these the mint page can't work
+const REQUIRED: FunctionName[] = [
+  "mint",
+  "mintPrice",
+  "maxSupply",
+  "totalSupply",
+  "maxPerWallet",
+  "balanceOf",
+  "ownerOf",
+  "tokenURI",
+];
+// Features degrade gracefully without these
+const OPTIONAL: FunctionName[] = ["mintedCount", "nextTokenId", "owner"];
+
+export interface ContractCheckResult {
+  deployed: boolean;
+  missingRequired: string[]; // function signatures, e.g. "mint(uint256)"
+  missingOptional: string[];
+}
+
+const iface = new Interface(contractABI);
+const PUSH4 = "63";
+const PUSH3 = "62";
+// EIP-1967 implementation slot: bytes32(uint256(keccak256("eip1967.proxy.implementation")) - 1)
+const IMPLEMENTATION_SLOT =
+  "0x360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc";
+
+function signature(name: FunctionName) {
+  return (iface.getFunction(name) as FunctionFragment).format("sighash");
+}
+
+function hasSelector(code: string, name: FunctionName) {
+  const selector = iface.getFunction(name)!.selector.slice(2).toLowerCase();
+  // The optimizer pushes selectors with a leading zero byte as PUSH3
+  return (
+    code.includes(PUSH4 + selector) ||
+    (selector.startsWith("00") && code.includes(PUSH3 + selector.slice(2)))
+  );
+}
+
+/** Bytecode that actually holds the dispatcher, following EIP-1967 proxies. */
+async function dispatcherCode(chain: ChainConfig, address: string) {
+  const readRpc = getReadRpc(chain);
+  const code = (await readRpc.run((p) => p.getCode(address))).toLowerCase();
+  if (code === "0x") return code;
+  const slot = await readRpc
+    .run((p) => p.getStorage(address, IMPLEMENTATION_SLOT))
+    .catch(() => "0x");
+  const implementation = "0x" + slot.slice(-40);
+  if (BigInt(slot === "0x" ? 0 : slot) === 0n) return code;
+  return (await readRpc.run((p) => p.getCode(implementation))).toLowerCase();
+}
+
+export async function checkDeployedContract(
+  chain: ChainConfig
+): Promise<ContractCheckResult> {
+  const address = chain.contractAddress;
+  if (!address) {
+    return { deployed: false, missingRequired: [], missingOptional: [] };
+  }
+  const code = await dispatcherCode(chain, address);
+  if (code === "0x") {
+    return { deployed: false, missingRequired: [], missingOptional: [] };
+  }
+  const missing = (names: FunctionName[]) =>
+    names.filter((n) => !hasSelector(code, n)).map(signature);
+  return {
+    deployed: true,
+    missingRequired: missing(REQUIRED),
+    missingOptional: missing(OPTIONAL),
+  };
+}
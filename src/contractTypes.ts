@@ -0,0 +1,102 @@
+import type {
+  BaseContract,
+  BaseContractMethod,
+  ContractTransactionResponse,
+  FunctionFragment,
+} from "ethers";
+import type contractABI from "./contractABI";
+
+// Compile-time bindings derived from the `as const` ABI in contractABI.ts.
+// Method names, argument and return types are checked against the ABI, so
+// editing the ABI surfaces every call site that no longer matches.
+
+type Abi = typeof contractABI;
+
+interface AbiParameter {
+  readonly type: string;
+  readonly name: string;
+}
+
+type AbiFunction = Extract<Abi[number], { readonly type: "function" }>;
+
+export type FunctionName = AbiFunction["name"];
+
+export type ViewFunctionName = Extract<
+  AbiFunction,
+  { readonly stateMutability: "view" | "pure" }
+>["name"];
+
+export type WriteFunctionName = Exclude<FunctionName, ViewFunctionName>;
+
+type FunctionByName<N extends FunctionName> = Extract<
+  AbiFunction,
+  { readonly name: N }
+>;
+
+// Solidity -> TypeScript, following what ethers v6 accepts and returns
+type SolidityInput<T extends string> = T extends `${infer Inner}[]`
+  ? readonly SolidityInput<Inner>[]
+  : T extends `uint${string}` | `int${string}`
+  ? bigint | number
+  : T extends "bool"
+  ? boolean
+  : T extends "address" | "string" | `bytes${string}`
+  ? string
+  : unknown;
+
+type SolidityOutput<T extends string> = T extends `${infer Inner}[]`
+  ? SolidityOutput<Inner>[]
+  : T extends `uint${string}` | `int${string}`
+  ? bigint
+  : T extends "bool"
+  ? boolean
+  : T extends "address" | "string" | `bytes${string}`
+  ? string
+  : unknown;
+
+type InputTypes<P extends readonly AbiParameter[]> = {
+  -readonly [K in keyof P]: P[K] extends AbiParameter
+    ? SolidityInput<P[K]["type"]>
+    : never;
+};
+
+type OutputTypes<P extends readonly AbiParameter[]> = {
+  -readonly [K in keyof P]: P[K] extends AbiParameter
+    ? SolidityOutput<P[K]["type"]>
+    : never;
+};
+
+export type FunctionArgs<N extends FunctionName> = InputTypes<
+  FunctionByName<N>["inputs"]
+>;
+
+export type FunctionReturn<N extends FunctionName> =
+  FunctionByName<N>["outputs"] extends readonly []
+    ? void
+    : FunctionByName<N>["outputs"] extends readonly [
+        infer Only extends AbiParameter
+      ]
+    ? SolidityOutput<Only["type"]>
+    : OutputTypes<FunctionByName<N>["outputs"]>;
+
+export type TypedMethod<N extends FunctionName> = BaseContractMethod<
+  FunctionArgs<N>,
+  FunctionReturn<N>,
+  N extends ViewFunctionName ? FunctionReturn<N> : ContractTransactionResponse
+>;
+
+export type ShrampMethods = {
+  readonly [N in FunctionName]: TypedMethod<N>;
+};
+
+/**
+ * ethers Contract for contractABI with every function typed. `getFunction`
+ * takes an ABI function name, or a fragment found by ABI introspection
+ * (allowlist mint, admin forms); BaseContract's plain-string lookup is left
+ * out so a misspelt name fails to compile rather than at runtime.
+ */
+export type ShrampContract = {
+  getFunction<N extends FunctionName>(name: N): TypedMethod<N>;
+  getFunction(fragment: FunctionFragment): BaseContractMethod;
+} & ShrampMethods &
+  Omit<BaseContract, "getFunction">;
@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import { AbiCoder, makeError } from "ethers";
+import { classifyTxError } from "./decodeError";
+
+const errorString = (reason: string) =>
+  "0x08c379a0" +
+  AbiCoder.defaultAbiCoder().encode(["string"], [reason]).slice(2);
+
+describe("classifyTxError", () => {
+  it("reports a revert that mentions a chain id as a revert", () => {
+    const err = makeError("execution reverted", "CALL_EXCEPTION", {
+      action: "estimateGas",
+      data: errorString("Bridge: wrong chain id"),
+      reason: "Bridge: wrong chain id",
+      transaction: { to: null, data: "0x" },
+      invocation: null,
+      revert: null,
+    });
+    const txErr = classifyTxError(err);
+    expect(txErr.category).toBe("revert");
+    expect(txErr.revert?.reason).toBe("Bridge: wrong chain id");
+  });
+
+  it("doesn't read a chainId in the request payload as a wrong network", () => {
+    const err = makeError("could not coalesce error", "UNKNOWN_ERROR", {
+      error: { code: -32000, message: "header not found" },
+      payload: {
+        method: "eth_sendTransaction",
+        params: [{ chainId: "0x279f" }],
+      },
+    });
+    expect(err.message).toContain("chainId");
+    expect(classifyTxError(err).category).toBe("rpc");
+  });
+
+  it("detects a wrong chain from wallet codes and ethers' network change", () => {
+    expect(classifyTxError({ code: 4902 }).category).toBe("wrong-chain");
+    const changed = makeError("network changed: 1 => 10143", "NETWORK_ERROR", {
+      event: "changed",
+    });
+    expect(classifyTxError(changed).category).toBe("wrong-chain");
+  });
+});
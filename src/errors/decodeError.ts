@@ -0,0 +1,406 @@
+import { AbiCoder, Interface, dataSlice, isHexString } from "ethers";
+import contractABI from "../contractABI";
+import { isRetryableRpcError } from "../rpc/readProvider";
+import type { ChainConfig } from "../chains/registry";
+import { translate } from "../i18n/i18n";
+import type { MessageKey, Translatable } from "../i18n/i18n";
+
+// Turns wallet / RPC / revert errors into something a minter can act on.
+
+export type TxErrorCategory =
+  | "user-rejected"
+  | "insufficient-funds"
+  | "wrong-chain"
+  | "rpc"
+  | "revert"
+  | "unknown";
+
+export interface DecodedRevert {
+  kind: "error-string" | "panic" | "custom";
+  name: string; // "Error", "Panic" or the custom error name
+  reason: string; // revert string, panic description or formatted custom error
+  args: unknown[];
+}
+
+export class TxError extends Error {
+  readonly category: TxErrorCategory;
+  // What the user sees, in their language; `message` is the English, for logs
+  readonly text: Translatable;
+  readonly suggestion?: MessageKey;
+  readonly revert?: DecodedRevert;
+  readonly cause: unknown;
+
+  constructor(
+    category: TxErrorCategory,
+    text: Translatable,
+    opts: { suggestion?: MessageKey; revert?: DecodedRevert; cause: unknown }
+  ) {
+    super(translate("en", text.key, text.params));
+    this.name = "TxError";
+    this.category = category;
+    this.text = text;
+    this.suggestion = opts.suggestion;
+    this.revert = opts.revert;
+    this.cause = opts.cause;
+  }
+}
+
+/**
+ * What messages call the collection's tokens and the chain's currency.
+ * Without them, messages fall back to "tokens" and "funds".
+ */
+export interface TxErrorNames {
+  tokens?: string; // plural token name, e.g. "Shramps"
+  currency?: string; // native currency symbol, e.g. "MON"
+}
+
+/** Names for errors from `chain`, minting `tokens`. */
+export function txErrorNames(
+  chain: ChainConfig,
+  tokens?: string
+): TxErrorNames {
+  return { tokens, currency: chain.nativeCurrency.symbol };
+}
+
+/** `named` with the name filled in when there is one, else `generic`. */
+function withName(
+  generic: MessageKey,
+  named: { key: MessageKey; param: keyof TxErrorNames } | undefined,
+  names: TxErrorNames
+): Translatable {
+  const value = named && names[named.param];
+  return value
+    ? { key: named.key, params: { [named.param]: value } }
+    : { key: generic };
+}
+
+/** The insufficient-funds error, naming the currency when known. */
+export function insufficientFunds(
+  names: TxErrorNames,
+  cause: unknown
+): TxError {
+  return new TxError(
+    "insufficient-funds",
+    withName(
+      "txError.insufficientFunds",
+      { key: "txError.insufficientCurrency", param: "currency" },
+      names
+    ),
+    { suggestion: "txError.insufficientFundsHint", cause }
+  );
+}
+
+const ERROR_STRING_SELECTOR = "0x08c379a0"; // Error(string)
+const PANIC_SELECTOR = "0x4e487b71"; // Panic(uint256)
+
+const PANIC_REASONS: Record<number, string> = {
+  0x01: "assertion failed",
+  0x11: "arithmetic overflow or underflow",
+  0x12: "division by zero",
+  0x21: "invalid enum value",
+  0x22: "invalid storage byte array",
+  0x31: "pop on empty array",
+  0x32: "array index out of bounds",
+  0x41: "out of memory",
+  0x51: "call to uninitialized function",
+};
+
+// Known contract reasons (revert strings and custom error names)
+const FRIENDLY_REASONS: {
+  match: RegExp;
+  message: MessageKey;
+  // Variant naming the collection's tokens, used when the name is known
+  named?: { key: MessageKey; param: keyof TxErrorNames };
+  suggestion?: MessageKey;
+}[] = [
+  {
+    match: /incorrect mint price|wrong price|insufficient payment/i,
+    message: "txError.wrongPrice",
+    suggestion: "txError.wrongPriceHint",
+  },
+  {
+    match: /max (nfts )?per wallet|exceeds (max )?per wallet|wallet limit/i,
+    message: "txError.walletLimit",
+    suggestion: "txError.walletLimitHint",
+  },
+  {
+    match: /max supply|sold out|exceeds supply/i,
+    message: "txError.supply",
+    named: { key: "txError.supplyNamed", param: "tokens" },
+    suggestion: "txError.supplyHint",
+  },
+  {
+    match: /paused|not active|not started|sale (is )?closed/i,
+    message: "mintError.notOpen",
+    suggestion: "txError.notOpenHint",
+  },
+  {
+    match: /invalid (merkle )?proof|not (on the )?(allow|white)list(ed)?/i,
+    message: "mintError.notAllowlisted",
+    suggestion: "txError.notAllowlistedHint",
+  },
+  {
+    match: /^OwnableUnauthorizedAccount|caller is not the owner/i,
+    message: "txError.notOwner",
+    suggestion: "txError.notOwnerHint",
+  },
+  {
+    match: /^ERC721IncorrectOwner|^ERC721InsufficientApproval/i,
+    message: "txError.notTokenOwner",
+    suggestion: "txError.notTokenOwnerHint",
+  },
+  {
+    match: /^ERC721NonexistentToken|invalid token id/i,
+    message: "txError.noSuchToken",
+  },
+  {
+    match: /^ERC721InvalidReceiver/i,
+    message: "txError.invalidReceiver",
+    suggestion: "txError.invalidReceiverHint",
+  },
+];
+
+const iface = new Interface(contractABI);
+
+/** Decode raw revert data: Error(string), Panic(uint256) or an ABI custom error. */
+export function decodeRevertData(data: string): DecodedRevert | null {
+  if (!isHexString(data) || data.length < 10) return null;
+  const selector = dataSlice(data, 0, 4);
+  const coder = AbiCoder.defaultAbiCoder();
+  try {
+    if (selector === ERROR_STRING_SELECTOR) {
+      const [reason] = coder.decode(["string"], dataSlice(data, 4));
+      return { kind: "error-string", name: "Error", reason, args: [reason] };
+    }
+    if (selector === PANIC_SELECTOR) {
+      const [code] = coder.decode(["uint256"], dataSlice(data, 4));
+      const n = Number(code);
+      return {
+        kind: "panic",
+        name: "Panic",
+        reason: `Panic 0x${n.toString(16)}: ${
+          PANIC_REASONS[n] ?? "unknown panic"
+        }`,
+        args: [code],
+      };
+    }
+    const parsed = iface.parseError(data);
+    if (parsed) {
+      return {
+        kind: "custom",
+        name: parsed.name,
+        reason: `${parsed.name}(${parsed.args.map(String).join(", ")})`,
+        args: [...parsed.args],
+      };
+    }
+  } catch {
+    // malformed payload
+  }
+  return null;
+}
+
+interface RpcishError {
+  code?: number | string;
+  data?: unknown;
+  message?: string;
+  shortMessage?: string;
+  reason?: string | null;
+  revert?: { name?: string; args?: unknown[] } | null;
+  error?: RpcishError;
+  info?: { error?: RpcishError };
+}
+
+// Revert data can be buried a few levels deep depending on wallet + ethers
+function findRevertData(
+  err: RpcishError | undefined,
+  depth = 0
+): string | null {
+  if (!err || depth > 4) return null;
+  if (
+    typeof err.data === "string" &&
+    isHexString(err.data) &&
+    err.data.length >= 10
+  ) {
+    return err.data;
+  }
+  const nested = err.data as { data?: unknown } | undefined;
+  if (nested && typeof nested.data === "string" && isHexString(nested.data)) {
+    return nested.data;
+  }
+  return (
+    findRevertData(err.error, depth + 1) ??
+    findRevertData(err.info?.error, depth + 1)
+  );
+}
+
+function collectCodes(
+  err: RpcishError | undefined,
+  depth = 0
+): (number | string)[] {
+  if (!err || depth > 4) return [];
+  return [
+    ...(err.code !== undefined ? [err.code] : []),
+    ...collectCodes(err.error, depth + 1),
+    ...collectCodes(err.info?.error, depth + 1),
+  ];
+}
+
+function collectText(err: RpcishError | undefined, depth = 0): string {
+  if (!err || depth > 4) return "";
+  return [
+    err.shortMessage,
+    err.message,
+    collectText(err.error, depth + 1),
+    collectText(err.info?.error, depth + 1),
+  ]
+    .filter(Boolean)
+    .join(" | ");
+}
+
+/** Whether `err` or an error nested in it satisfies `test`. */
+function someError(
+  err: RpcishError | undefined,
+  test: (e: RpcishError) => boolean,
+  depth = 0
+): boolean {
+  if (!err || depth > 4) return false;
+  return (
+    test(err) ||
+    someError(err.error, test, depth + 1) ||
+    someError(err.info?.error, test, depth + 1)
+  );
+}
+
+/**
+ * EIP-1193's disconnected-chain and unknown-chain codes, or ethers noticing
+ * the network change mid-request. Not free text: ethers messages embed the
+ * request payload, and a chainId in it says nothing about the wallet.
+ */
+function isWrongChain(err: RpcishError, codes: (number | string)[]) {
+  return (
+    codes.includes(4901) ||
+    codes.includes(4902) ||
+    someError(
+      err,
+      (e) =>
+        e.code === "NETWORK_ERROR" &&
+        /^network changed/i.test(e.shortMessage ?? "")
+    )
+  );
+}
+
+function friendly(reason: string) {
+  return FRIENDLY_REASONS.find((f) => f.match.test(reason));
+}
+
+/** Extract the revert (if any) from an ethers / EIP-1193 error. */
+export function extractRevert(e: unknown): DecodedRevert | null {
+  const err = e as RpcishError;
+  const data = findRevertData(err);
+  if (data) return decodeRevertData(data);
+  // ethers may already have decoded the reason string for us
+  if (err?.reason) {
+    return {
+      kind: "error-string",
+      name: "Error",
+      reason: err.reason,
+      args: [err.reason],
+    };
+  }
+  return null;
+}
+
+/** Classify any error thrown while simulating, signing or sending a transaction. */
+export function classifyTxError(e: unknown, names: TxErrorNames = {}): TxError {
+  if (e instanceof TxError) return e;
+  const err = e as RpcishError;
+  const codes = collectCodes(err);
+  const text = collectText(err);
+
+  if (
+    codes.includes(4001) ||
+    codes.includes("ACTION_REJECTED") ||
+    /user (rejected|denied)/i.test(text)
+  ) {
+    return new TxError(
+      "user-rejected",
+      { key: "txError.userRejected" },
+      {
+        cause: e,
+      }
+    );
+  }
+  if (
+    codes.includes("INSUFFICIENT_FUNDS") ||
+    /insufficient funds/i.test(text)
+  ) {
+    return insufficientFunds(names, e);
+  }
+
+  const revert = extractRevert(e);
+  if (revert) {
+    const match = friendly(
+      revert.kind === "custom" ? revert.name : revert.reason
+    );
+    return new TxError(
+      "revert",
+      match
+        ? withName(match.message, match.named, names)
+        : { key: "txError.reverted", params: { reason: revert.reason } },
+      {
+        suggestion: match?.suggestion,
+        revert,
+        cause: e,
+      }
+    );
+  }
+
+  if (isWrongChain(err, codes)) {
+    return new TxError(
+      "wrong-chain",
+      { key: "txError.wrongChain" },
+      {
+        suggestion: "txError.wrongChainHint",
+        cause: e,
+      }
+    );
+  }
+
+  if (
+    isRetryableRpcError(e) ||
+    codes.includes(-32603) ||
+    codes.includes(-32000)
+  ) {
+    return new TxError(
+      "rpc",
+      { key: "txError.rpc" },
+      {
+        suggestion: "txError.rpcHint",
+        cause: e,
+      }
+    );
+  }
+
+  // Whatever the wallet or RPC said; there's nothing better to go on
+  const detail = err?.shortMessage || err?.message;
+  return new TxError(
+    "unknown",
+    detail
+      ? { key: "txError.failedWith", params: { detail } }
+      : { key: "txError.failed" },
+    {
+      cause: e,
+    }
+  );
+}
+
+/** Messages for status display: friendly text, then a suggestion when known. */
+export function describeTxError(
+  e: unknown,
+  names?: TxErrorNames
+): Translatable[] {
+  const txErr = classifyTxError(e, names);
+  return txErr.suggestion
+    ? [txErr.text, { key: txErr.suggestion }]
+    : [txErr.text];
+}
@@ -0,0 +1,85 @@
+import type { MintEvent } from "./mintFeed";
+import { explorerTxUrl } from "../chains/registry";
+import type { ChainConfig } from "../chains/registry";
+import { collectionPath } from "../collections/registry";
+import type { CollectionConfig } from "../collections/registry";
+import { navigate } from "../router";
+import { tokenPath } from "../token/tokenDetails";
+import { useI18n } from "../i18n/i18n";
+
+interface MintFeedListProps {
+  collection: CollectionConfig;
+  chain: ChainConfig;
+  events: MintEvent[];
+  loading: boolean;
+  account?: string | null;
+}
+
+export default function MintFeedList({
+  collection,
+  chain,
+  events,
+  loading,
+  account,
+}: MintFeedListProps) {
+  const { t, rich } = useI18n();
+
+  return (
+    <div className="mt-6">
+      <h2 className="text-sm md:text-base font-semibold mb-2 flex items-center gap-2">
+        <span className="inline-block w-2 h-2 rounded-full bg-green-400 animate-pulse" />
+        {t("feed.title")}
+      </h2>
+      {loading ? (
+        <div className="text-xs text-gray-400">{t("feed.loading")}</div>
+      ) : events.length === 0 ? (
+        <div className="text-xs text-gray-400">{t("feed.empty")}</div>
+      ) : (
+        <ul className="max-h-56 overflow-y-auto divide-y divide-white/10 text-xs md:text-sm">
+          {events.map((ev) => {
+            const isYou =
+              account && ev.minter.toLowerCase() === account.toLowerCase();
+            return (
+              <li
+                key={`${ev.txHash}:${ev.logIndex}`}
+                className="flex justify-between py-1.5 gap-2"
+              >
+                <span>
+                  {rich("feed.minted", {
+                    minter: isYou ? (
+                      <span className="text-green-300">{t("address.you")}</span>
+                    ) : (
+                      `${ev.minter.slice(0, 6)}...${ev.minter.slice(-4)}`
+                    ),
+                    token: (
+                      <a
+                        href={collectionPath(collection, tokenPath(ev.tokenId))}
+                        onClick={(e) => {
+                          e.preventDefault();
+                          navigate(
+                            collectionPath(collection, tokenPath(ev.tokenId))
+                          );
+                        }}
+                        className="hover:underline"
+                      >
+                        #{ev.tokenId.toString()}
+                      </a>
+                    ),
+                  })}
+                </span>
+                <a
+                  href={explorerTxUrl(chain, ev.txHash)}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-gray-400 hover:text-blue-300 underline"
+                >
+                  {t("explorer.block", { block: String(ev.blockNumber) })}
+                </a>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
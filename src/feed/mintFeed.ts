@@ -0,0 +1,238 @@
+import { Interface, toBeHex, zeroPadValue } from "ethers";
+import type { JsonRpcProvider, Log } from "ethers";
+import contractABI from "../contractABI";
+import { fetchContractLogs } from "../rpc/logs";
+import { getReadRpc } from "../rpc/readProvider";
+import type { ChainConfig } from "../chains/registry";
+import { createLogger } from "../logging/logger";
+
+const log = createLogger("feed");
+
+export interface MintEvent {
+  minter: string;
+  tokenId: bigint;
+  txHash: string;
+  logIndex: number;
+  blockNumber: number;
+  blockHash: string;
+}
+
+export interface MintFeedUpdate {
+  events: MintEvent[]; // newest first
+  added: MintEvent[]; // newly observed live events (never backfilled ones)
+  mode: "filter" | "poll";
+}
+
+const iface = new Interface(contractABI);
+const MINT_TOPIC = iface.getEvent("NFTMinted")!.topicHash;
+
+// Blocks scanned backwards on load, in windows of BACKFILL_CHUNK
+const BACKFILL_BLOCKS = 20_000;
+const BACKFILL_CHUNK = 1_000;
+const FEED_LIMIT = 50;
+const POLL_MS = 4_000;
+// Blocks re-scanned on every poll so reorged-out logs get dropped
+const REORG_DEPTH = 12;
+
+interface RawLog {
+  address: string;
+  topics: string[];
+  data: string;
+  blockNumber: string | number;
+  blockHash: string;
+  transactionHash: string;
+  logIndex: string | number;
+  removed?: boolean;
+}
+
+const eventKey = (e: Pick<MintEvent, "txHash" | "logIndex">) =>
+  `${e.txHash.toLowerCase()}:${e.logIndex}`;
+
+export function toMintEvent(log: Log | RawLog): MintEvent | null {
+  const parsed = iface.parseLog({ topics: [...log.topics], data: log.data });
+  if (!parsed || parsed.name !== "NFTMinted") return null;
+  return {
+    minter: parsed.args.minter as string,
+    tokenId: parsed.args.tokenId as bigint,
+    txHash: log.transactionHash,
+    logIndex: Number("logIndex" in log ? log.logIndex : log.index),
+    blockNumber: Number(log.blockNumber),
+    blockHash: log.blockHash,
+  };
+}
+
+/**
+ * NFTMinted logs over [fromBlock, toBlock], scanned in node-sized windows.
+ * Pass `minter` to only return that address's mints (indexed topic filter).
+ */
+export async function fetchMintLogs(
+  chain: ChainConfig,
+  fromBlock: number,
+  toBlock: number,
+  { chunk, minter }: { chunk?: number; minter?: string } = {}
+): Promise<MintEvent[]> {
+  const topics = minter ? [MINT_TOPIC, zeroPadValue(minter, 32)] : [MINT_TOPIC];
+  const logs = await fetchContractLogs(chain, topics, fromBlock, toBlock, {
+    chunk,
+  });
+  return logs
+    .map((log) => toMintEvent(log))
+    .filter((ev): ev is MintEvent => ev !== null);
+}
+
+/**
+ * Recent-mints feed: backfills the latest NFTMinted logs, then follows new
+ * ones through an `eth_newFilter` subscription, or polling `eth_getLogs` when
+ * the node has no filter support. Events are keyed by tx hash + log index.
+ */
+export class MintFeed {
+  private events = new Map<string, MintEvent>();
+  private mode: MintFeedUpdate["mode"] = "poll";
+  private lastScanned = 0;
+  private filterId: string | null = null;
+  private filterProvider: JsonRpcProvider | null = null;
+  private timer: number | undefined;
+  private stopped = false;
+  private chain: ChainConfig;
+  private onUpdate: (update: MintFeedUpdate) => void;
+
+  constructor(chain: ChainConfig, onUpdate: (update: MintFeedUpdate) => void) {
+    this.chain = chain;
+    this.onUpdate = onUpdate;
+  }
+
+  async start() {
+    const latest = await getReadRpc(this.chain).run((p) => p.getBlockNumber());
+    await this.backfill(latest);
+    if (this.stopped) return;
+    this.lastScanned = latest;
+    await this.trySubscribe(latest);
+    this.schedule();
+  }
+
+  stop() {
+    this.stopped = true;
+    window.clearTimeout(this.timer);
+    if (this.filterId && this.filterProvider) {
+      this.filterProvider
+        .send("eth_uninstallFilter", [this.filterId])
+        .catch(() => {});
+    }
+  }
+
+  private async backfill(latest: number) {
+    const floor = Math.max(0, latest - BACKFILL_BLOCKS);
+    let to = latest;
+    // Walk backwards so the feed fills with the newest mints first
+    while (to >= floor && this.events.size < FEED_LIMIT && !this.stopped) {
+      const from = Math.max(floor, to - BACKFILL_CHUNK + 1);
+      const found = await fetchMintLogs(this.chain, from, to);
+      for (const ev of found) this.events.set(eventKey(ev), ev);
+      to = from - 1;
+    }
+    this.emit([]);
+  }
+
+  private async trySubscribe(latest: number) {
+    const provider = getReadRpc(this.chain).provider;
+    try {
+      const id = await provider.send("eth_newFilter", [
+        {
+          address: this.chain.contractAddress,
+          topics: [MINT_TOPIC],
+          fromBlock: toBeHex(latest + 1),
+        },
+      ]);
+      // stop() ran while the filter was being installed; it couldn't see it
+      if (this.stopped) {
+        provider.send("eth_uninstallFilter", [id]).catch(() => {});
+        return;
+      }
+      this.filterId = id as string;
+      this.filterProvider = provider;
+      this.mode = "filter";
+    } catch {
+      this.mode = "poll";
+    }
+  }
+
+  private schedule() {
+    if (this.stopped) return;
+    this.timer = window.setTimeout(async () => {
+      try {
+        if (this.mode === "filter") await this.pollFilter();
+        else await this.pollLogs();
+      } catch (err) {
+        log.warn("Mint feed poll failed", { error: err });
+      }
+      this.schedule();
+    }, POLL_MS);
+  }
+
+  private async pollFilter() {
+    try {
+      const changes = (await this.filterProvider!.send("eth_getFilterChanges", [
+        this.filterId,
+      ])) as RawLog[];
+      const added: MintEvent[] = [];
+      for (const raw of changes) {
+        const ev = toMintEvent(raw);
+        if (!ev) continue;
+        const key = eventKey(ev);
+        // Filters report reorged-out logs with removed: true
+        if (raw.removed) {
+          this.events.delete(key);
+        } else if (!this.events.has(key)) {
+          this.events.set(key, ev);
+          added.push(ev);
+        }
+        this.lastScanned = Math.max(this.lastScanned, ev.blockNumber);
+      }
+      if (changes.length) this.emit(added);
+    } catch (err) {
+      // Filter expired or node dropped support: degrade to log polling
+      log.warn("Mint feed filter lost, polling logs instead", {
+        error: err,
+      });
+      this.filterId = null;
+      this.mode = "poll";
+    }
+  }
+
+  private async pollLogs() {
+    const latest = await getReadRpc(this.chain).run((p) => p.getBlockNumber());
+    const from = Math.max(0, this.lastScanned - REORG_DEPTH + 1);
+    const found = await fetchMintLogs(this.chain, from, latest);
+    const foundKeys = new Set(found.map(eventKey));
+
+    let changed = false;
+    // Anything we knew about in the rescanned window but no longer see was reorged out
+    for (const [key, ev] of this.events) {
+      if (ev.blockNumber >= from && !foundKeys.has(key)) {
+        this.events.delete(key);
+        changed = true;
+      }
+    }
+    const added: MintEvent[] = [];
+    for (const ev of found) {
+      const key = eventKey(ev);
+      const prev = this.events.get(key);
+      if (!prev) added.push(ev);
+      if (!prev || prev.blockHash !== ev.blockHash) {
+        this.events.set(key, ev);
+        changed = true;
+      }
+    }
+    this.lastScanned = latest;
+    if (changed) this.emit(added);
+  }
+
+  private emit(added: MintEvent[]) {
+    const events = Array.from(this.events.values())
+      .sort((a, b) => b.blockNumber - a.blockNumber || b.logIndex - a.logIndex)
+      .slice(0, FEED_LIMIT);
+    // Keep memory bounded to what the feed can show
+    this.events = new Map(events.map((e) => [eventKey(e), e]));
+    this.onUpdate({ events, added, mode: this.mode });
+  }
+}
@@ -0,0 +1,42 @@
+import { useEffect, useRef, useState } from "react";
+import { MintFeed } from "./mintFeed";
+import type { MintEvent } from "./mintFeed";
+import type { ChainConfig } from "../chains/registry";
+import { createLogger } from "../logging/logger";
+
+const log = createLogger("feed");
+
+/**
+ * Live NFTMinted activity for the contract on `chain`. `onNewMints` fires for mints seen
+ * after the initial backfill, e.g. to refresh the supply counter.
+ */
+export function useMintFeed(
+  chain: ChainConfig,
+  onNewMints?: (added: MintEvent[]) => void
+) {
+  const [events, setEvents] = useState<MintEvent[]>([]);
+  const [loading, setLoading] = useState(Boolean(chain.contractAddress));
+  const onNewMintsRef = useRef(onNewMints);
+
+  useEffect(() => {
+    onNewMintsRef.current = onNewMints;
+  }, [onNewMints]);
+
+  useEffect(() => {
+    if (!chain.contractAddress) return;
+    setEvents([]);
+    setLoading(true);
+    const feed = new MintFeed(chain, ({ events, added }) => {
+      setEvents(events);
+      setLoading(false);
+      if (added.length) onNewMintsRef.current?.(added);
+    });
+    feed.start().catch((err) => {
+      log.warn("Mint feed failed to start", { error: err });
+      setLoading(false);
+    });
+    return () => feed.stop();
+  }, [chain]);
+
+  return { events, loading };
+}
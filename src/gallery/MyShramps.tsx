@@ -0,0 +1,64 @@
+import TokenCard from "./TokenCard";
+import type { OwnedTokens } from "./ownedTokens";
+import type { ChainConfig } from "../chains/registry";
+import type { CollectionConfig } from "../collections/registry";
+import { useI18n } from "../i18n/i18n";
+import type { MessageKey } from "../i18n/i18n";
+
+interface MyShrampsProps {
+  collection: CollectionConfig;
+  chain: ChainConfig;
+  owned: OwnedTokens | null;
+  loading: boolean;
+  error: MessageKey | null;
+}
+
+export default function MyShramps({
+  collection,
+  chain,
+  owned,
+  loading,
+  error,
+}: MyShrampsProps) {
+  const { t } = useI18n();
+  const tokens = collection.tokenNamePlural;
+
+  return (
+    <div className="mt-6">
+      <h2 className="text-sm md:text-base font-semibold mb-2">
+        {t("gallery.title", { tokens })}
+      </h2>
+      {error ? (
+        <div className="text-xs text-red-300">{t(error)}</div>
+      ) : loading && !owned ? (
+        <div className="text-xs text-gray-400">
+          {t("gallery.loading", { tokens })}
+        </div>
+      ) : !owned || owned.tokenIds.length === 0 ? (
+        <div className="text-xs text-gray-400">
+          {t("gallery.empty", { tokens })}
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-3">
+            {owned.tokenIds.map((id) => (
+              <TokenCard
+                key={id.toString()}
+                collection={collection}
+                chain={chain}
+                tokenId={id}
+              />
+            ))}
+          </div>
+          {owned.balance > owned.tokenIds.length && (
+            <div className="text-xs text-gray-400 mt-2">
+              {t("gallery.unlisted", {
+                count: owned.balance - owned.tokenIds.length,
+              })}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,128 @@
+import { useEffect, useRef, useState } from "react";
+import { fetchTokenMetadata, resolveUri } from "./metadata";
+import type { TokenMetadata } from "./metadata";
+import { fetchTokenUri } from "./ownedTokens";
+import type { ChainConfig } from "../chains/registry";
+import { collectionPath } from "../collections/registry";
+import type { CollectionConfig } from "../collections/registry";
+import { navigate } from "../router";
+import { tokenPath } from "../token/tokenDetails";
+import { useI18n } from "../i18n/i18n";
+import { createLogger } from "../logging/logger";
+
+const log = createLogger("gallery");
+
+interface TokenCardProps {
+  collection: CollectionConfig;
+  chain: ChainConfig;
+  tokenId: bigint;
+}
+
+export default function TokenCard({
+  collection,
+  chain,
+  tokenId,
+}: TokenCardProps) {
+  const { t } = useI18n();
+  const ref = useRef<HTMLDivElement>(null);
+  const [visible, setVisible] = useState(false);
+  const [metadata, setMetadata] = useState<TokenMetadata | null>(null);
+  const [failed, setFailed] = useState(false);
+  const [imageIndex, setImageIndex] = useState(0);
+  const href = collectionPath(collection, tokenPath(tokenId));
+
+  // Only fetch metadata once the card scrolls into view
+  useEffect(() => {
+    const el = ref.current;
+    if (!el) return;
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((e) => e.isIntersecting)) {
+          setVisible(true);
+          observer.disconnect();
+        }
+      },
+      { rootMargin: "200px" }
+    );
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    if (!visible) return;
+    let cancelled = false;
+    fetchTokenUri(chain, tokenId)
+      .then(fetchTokenMetadata)
+      .then((m) => !cancelled && setMetadata(m))
+      .catch((e) => {
+        log.warn("Token metadata failed", { tokenId, error: e });
+        if (!cancelled) setFailed(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [visible, chain, tokenId]);
+
+  let imageUrls: string[] = [];
+  try {
+    imageUrls = metadata?.image ? resolveUri(metadata.image) : [];
+  } catch {
+    imageUrls = [];
+  }
+  const imageUrl = imageUrls[imageIndex];
+
+  return (
+    <div ref={ref} className="bg-white/5 rounded-lg overflow-hidden">
+      <div className="aspect-square bg-gray-800 flex items-center justify-center">
+        {imageUrl ? (
+          <img
+            src={imageUrl}
+            alt={
+              metadata?.name ??
+              t("token.fallbackAlt", { id: tokenId.toString() })
+            }
+            loading="lazy"
+            className="w-full h-full object-cover"
+            // Try the next gateway if this one fails
+            onError={() => setImageIndex((i) => i + 1)}
+          />
+        ) : (
+          <span className="text-xs text-gray-500">
+            {t(
+              failed
+                ? "token.metadataUnavailable"
+                : metadata
+                ? "token.noImage"
+                : "token.imageLoading"
+            )}
+          </span>
+        )}
+      </div>
+      <div className="p-2">
+        <a
+          href={href}
+          onClick={(e) => {
+            e.preventDefault();
+            navigate(href);
+          }}
+          className="block text-sm font-semibold truncate hover:underline"
+        >
+          {metadata?.name ?? `${collection.tokenName} #${tokenId}`}
+        </a>
+        {metadata && metadata.attributes.length > 0 && (
+          <ul className="flex flex-wrap gap-1 mt-1">
+            {metadata.attributes.map((a, i) => (
+              <li
+                key={`${a.trait_type ?? "trait"}-${i}`}
+                className="text-[10px] bg-accent/40 rounded px-1.5 py-0.5"
+              >
+                {a.trait_type ? `${a.trait_type}: ` : ""}
+                {String(a.value)}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,138 @@
+// ERC-721 metadata fetching and decentralized-storage URI resolution.
+
+export interface TokenAttribute {
+  trait_type?: string;
+  value: string | number | boolean;
+  display_type?: string;
+}
+
+export interface TokenMetadata {
+  name?: string;
+  description?: string;
+  image?: string;
+  external_url?: string;
+  attributes: TokenAttribute[];
+}
+
+export class MetadataError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "MetadataError";
+  }
+}
+
+const DEFAULT_IPFS_GATEWAYS = [
+  "https://ipfs.io/ipfs/",
+  "https://cloudflare-ipfs.com/ipfs/",
+  "https://gateway.pinata.cloud/ipfs/",
+];
+const DEFAULT_ARWEAVE_GATEWAYS = ["https://arweave.net/"];
+const FETCH_TIMEOUT_MS = 10_000;
+
+function parseGatewayList(value: string | undefined, fallback: string[]) {
+  const list = (value ?? "")
+    .split(",")
+    .map((g) => g.trim())
+    .filter(Boolean)
+    .map((g) => (g.endsWith("/") ? g : `${g}/`));
+  return list.length ? list : fallback;
+}
+
+export const IPFS_GATEWAYS = parseGatewayList(
+  import.meta.env.VITE_IPFS_GATEWAYS,
+  DEFAULT_IPFS_GATEWAYS
+);
+export const ARWEAVE_GATEWAYS = parseGatewayList(
+  import.meta.env.VITE_ARWEAVE_GATEWAYS,
+  DEFAULT_ARWEAVE_GATEWAYS
+);
+
+/**
+ * HTTP(S) URLs to try for a token/image URI, best first.
+ * `ipfs://` and `ar://` expand to one URL per configured gateway; plain
+ * http(s) and data: URIs are returned as-is.
+ */
+export function resolveUri(uri: string): string[] {
+  const trimmed = uri.trim();
+  const ipfs = /^ipfs:\/\/(?:ipfs\/)?(.+)$/i.exec(trimmed);
+  if (ipfs) return IPFS_GATEWAYS.map((g) => g + ipfs[1]);
+  const ar = /^ar:\/\/(.+)$/i.exec(trimmed);
+  if (ar) return ARWEAVE_GATEWAYS.map((g) => g + ar[1]);
+  // Bare CIDs occasionally show up in tokenURI / image fields
+  if (/^(Qm[1-9A-HJ-NP-Za-km-z]{44}|b[a-z2-7]{58,})(\/.*)?$/.test(trimmed)) {
+    return IPFS_GATEWAYS.map((g) => g + trimmed);
+  }
+  if (/^(https?:|data:)/i.test(trimmed)) return [trimmed];
+  throw new MetadataError(`Unsupported URI: ${trimmed.slice(0, 64)}`);
+}
+
+async function fetchWithTimeout(url: string) {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS);
+  try {
+    const res = await fetch(url, { signal: controller.signal });
+    if (!res.ok) throw new Error(`HTTP ${res.status} from ${url}`);
+    return await res.json();
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+function isAttributeValue(v: unknown): v is TokenAttribute["value"] {
+  return ["string", "number", "boolean"].includes(typeof v);
+}
+
+/** Checks the JSON against the ERC-721 metadata shape, dropping bad attributes. */
+export function validateMetadata(json: unknown): TokenMetadata {
+  if (!json || typeof json !== "object" || Array.isArray(json)) {
+    throw new MetadataError("Metadata is not a JSON object");
+  }
+  const raw = json as Record<string, unknown>;
+  const str = (k: string) =>
+    typeof raw[k] === "string" ? (raw[k] as string) : undefined;
+
+  const attributes: TokenAttribute[] = Array.isArray(raw.attributes)
+    ? raw.attributes.flatMap((a) => {
+        const attr = a as Record<string, unknown> | null;
+        if (!attr || !isAttributeValue(attr.value)) return [];
+        return [
+          {
+            trait_type:
+              typeof attr.trait_type === "string" ? attr.trait_type : undefined,
+            value: attr.value,
+            display_type:
+              typeof attr.display_type === "string"
+                ? attr.display_type
+                : undefined,
+          },
+        ];
+      })
+    : [];
+
+  const metadata: TokenMetadata = {
+    name: str("name"),
+    description: str("description"),
+    image: str("image") ?? str("image_url"),
+    external_url: str("external_url"),
+    attributes,
+  };
+  if (!metadata.name && !metadata.image) {
+    throw new MetadataError("Metadata has neither name nor image");
+  }
+  return metadata;
+}
+
+/** Fetch tokenURI JSON, trying each gateway until one answers. */
+export async function fetchTokenMetadata(tokenUri: string) {
+  let lastErr: unknown;
+  for (const url of resolveUri(tokenUri)) {
+    try {
+      return validateMetadata(await fetchWithTimeout(url));
+    } catch (err) {
+      // Malformed JSON will be malformed on every gateway
+      if (err instanceof MetadataError) throw err;
+      lastErr = err;
+    }
+  }
+  throw lastErr ?? new MetadataError("No gateway could load metadata");
+}
@@ -0,0 +1,58 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { Interface } from "ethers";
+import contractABI from "../contractABI";
+import { getChainByKey } from "../chains/registry";
+import { MockChain } from "../test/mockChain";
+import { serveRpc } from "../test/mockWallet";
+import { fetchOwnedTokens } from "./ownedTokens";
+
+const iface = new Interface(contractABI);
+const ALICE = "0x70997970C51812dc3A010C7d01b50e0d17dc79C8";
+const BOB = "0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC";
+// Scan logs from genesis rather than sweeping every token id
+const chain = { ...getChainByKey("monad-testnet")!, deployBlock: 0 };
+
+let mock: MockChain;
+
+beforeEach(() => {
+  mock = new MockChain();
+  serveRpc({ "http://rpc.mock/": mock });
+});
+
+function send(from: string, data: string, value = 0n) {
+  return mock.request("eth_sendTransaction", [
+    { from, to: mock.contractAddress, data, value: `0x${value.toString(16)}` },
+  ]);
+}
+
+const mint = (from: string) =>
+  send(from, iface.encodeFunctionData("mint", [1n]), mock.contract.mintPrice);
+
+const transfer = (from: string, to: string, tokenId: bigint) =>
+  send(
+    from,
+    iface.encodeFunctionData("safeTransferFrom(address,address,uint256)", [
+      from,
+      to,
+      tokenId,
+    ])
+  );
+
+describe("fetchOwnedTokens", () => {
+  it("finds minted and received tokens, not ones sent away", async () => {
+    await mint(ALICE); // #1, kept
+    await mint(ALICE); // #2, sent to Bob
+    await mint(BOB); // #3, sent to Alice
+    await transfer(ALICE, BOB, 2n);
+    await transfer(BOB, ALICE, 3n);
+
+    expect(await fetchOwnedTokens(chain, ALICE)).toEqual({
+      tokenIds: [1n, 3n],
+      balance: 2,
+    });
+    expect(await fetchOwnedTokens(chain, BOB)).toEqual({
+      tokenIds: [2n],
+      balance: 1,
+    });
+  });
+});
@@ -0,0 +1,71 @@
+import { zeroPadValue } from "ethers";
+import { getContract } from "../contract";
+import { TRANSFER_TOPIC } from "../holders/snapshot";
+import { fetchContractLogs } from "../rpc/logs";
+import { getReadRpc } from "../rpc/readProvider";
+import { batchRead } from "../rpc/multicall";
+import type { ChainConfig } from "../chains/registry";
+
+export interface OwnedTokens {
+  tokenIds: bigint[];
+  // balanceOf; exceeds tokenIds.length only when the log scan missed some
+  balance: number;
+}
+
+/**
+ * Token IDs held by `account`. There's no `tokenOfOwnerByIndex`, so
+ * candidates come from Transfer logs to the account (mints and transfers in,
+ * scanned from the chain's deploy block), or from a sweep over every minted
+ * id when no deploy block is configured. Each candidate is confirmed with
+ * `ownerOf`, which drops the ones it has since sent on.
+ */
+export async function fetchOwnedTokens(
+  chain: ChainConfig,
+  account: string
+): Promise<OwnedTokens> {
+  if (!chain.contractAddress) return { tokenIds: [], balance: 0 };
+  const readRpc = getReadRpc(chain);
+  const who = account.toLowerCase();
+
+  const balance = Number(
+    await readRpc.run((p) => getContract(chain, p).balanceOf(account))
+  );
+  if (balance === 0) return { tokenIds: [], balance };
+
+  let candidates: bigint[];
+  if (chain.deployBlock !== undefined) {
+    const latest = await readRpc.run((p) => p.getBlockNumber());
+    const logs = await fetchContractLogs(
+      chain,
+      [TRANSFER_TOPIC, null, zeroPadValue(account, 32)],
+      chain.deployBlock,
+      latest
+    );
+    candidates = logs.map((l) => BigInt(l.topics[3]));
+  } else {
+    const next: bigint = await readRpc.run((p) =>
+      getContract(chain, p).nextTokenId()
+    );
+    candidates = Array.from({ length: Number(next) }, (_, i) => BigInt(i));
+  }
+
+  const unique = Array.from(new Set(candidates));
+  // Failed ownerOf means burned or nonexistent
+  const owners = (
+    await batchRead(
+      chain,
+      unique.map((id) => ({ fn: "ownerOf", args: [id] }))
+    )
+  ).map((r) => (r.success ? String(r.value).toLowerCase() : null));
+  const tokenIds = unique
+    .filter((_, i) => owners[i] === who)
+    .sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+  return { tokenIds, balance };
+}
+
+export async function fetchTokenUri(
+  chain: ChainConfig,
+  tokenId: bigint
+): Promise<string> {
+  return getReadRpc(chain).run((p) => getContract(chain, p).tokenURI(tokenId));
+}
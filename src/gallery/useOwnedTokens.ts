@@ -0,0 +1,43 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { fetchOwnedTokens } from "./ownedTokens";
+import type { OwnedTokens } from "./ownedTokens";
+import type { ChainConfig } from "../chains/registry";
+import type { MessageKey } from "../i18n/i18n";
+import { createLogger } from "../logging/logger";
+
+const log = createLogger("gallery");
+
+export function useOwnedTokens(chain: ChainConfig, account: string | null) {
+  const [owned, setOwned] = useState<OwnedTokens | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<MessageKey | null>(null);
+  // Bumped per load; a slower load for a previous account/chain is dropped
+  const attemptRef = useRef(0);
+
+  const reload = useCallback(async () => {
+    const attempt = ++attemptRef.current;
+    const stale = () => attemptRef.current !== attempt;
+    if (!account) {
+      setOwned(null);
+      setLoading(false);
+      return;
+    }
+    setLoading(true);
+    setError(null);
+    try {
+      const result = await fetchOwnedTokens(chain, account);
+      if (!stale()) setOwned(result);
+    } catch (e) {
+      log.error("Owned tokens read failed", { error: e });
+      if (!stale()) setError("gallery.failed");
+    } finally {
+      if (!stale()) setLoading(false);
+    }
+  }, [chain, account]);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  return { owned, loading, error, reload };
+}
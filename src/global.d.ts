@@ -1,8 +1,15 @@
-import { ExternalProvider } from "@ethersproject/providers";
+import type {
+  EIP1193Provider,
+  EIP6963AnnounceProviderEvent,
+} from "./wallet/eip6963";
 
 declare global {
   interface Window {
-    ethereum?: ExternalProvider;
+    ethereum?: EIP1193Provider;
+  }
+
+  interface WindowEventMap {
+    "eip6963:announceProvider": EIP6963AnnounceProviderEvent;
   }
 }
 
@@ -0,0 +1,114 @@
+import { describe, expect, it } from "vitest";
+import { Interface, ZeroAddress, makeError } from "ethers";
+import type { Log } from "ethers";
+import contractABI from "../contractABI";
+import {
+  applyOwnershipLogs,
+  holdersCsv,
+  holdersOf,
+  verifyOwnership,
+} from "./snapshot";
+import type { OwnerReader, Ownership } from "./snapshot";
+import type { ReadResult } from "../rpc/multicall";
+
+const iface = new Interface(contractABI);
+const ALICE = "0x70997970C51812dc3A010C7d01b50e0d17dc79C8";
+const BOB = "0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC";
+
+function log(
+  blockNumber: number,
+  index: number,
+  event: string,
+  args: unknown[]
+): Log {
+  const { topics, data } = iface.encodeEventLog(event, args);
+  return { blockNumber, index, topics, data } as unknown as Log;
+}
+
+const transfer = (block: number, from: string, to: string, id: number) =>
+  log(block, 0, "Transfer", [from, to, id]);
+
+describe("applyOwnershipLogs", () => {
+  it("follows transfers in chain order regardless of input order", () => {
+    const owners = applyOwnershipLogs({}, [
+      transfer(12, ALICE, BOB, 1),
+      transfer(10, ZeroAddress, ALICE, 1),
+      transfer(11, ZeroAddress, ALICE, 2),
+    ]);
+    expect(owners).toEqual({ "1": BOB, "2": ALICE });
+  });
+
+  it("drops burned tokens", () => {
+    const owners = applyOwnershipLogs({}, [
+      transfer(10, ZeroAddress, ALICE, 1),
+      transfer(11, ALICE, ZeroAddress, 1),
+    ]);
+    expect(owners).toEqual({});
+  });
+
+  it("uses NFTMinted only for tokens without a Transfer", () => {
+    const owners: Ownership = applyOwnershipLogs({}, [
+      transfer(10, ZeroAddress, ALICE, 1),
+      transfer(11, ALICE, BOB, 1),
+      log(10, 1, "NFTMinted", [ALICE, 1]),
+      log(12, 0, "NFTMinted", [BOB, 2]),
+    ]);
+    expect(owners).toEqual({ "1": BOB, "2": BOB });
+  });
+});
+
+describe("verifyOwnership", () => {
+  const revert: ReadResult = {
+    success: false,
+    error: makeError("execution reverted", "CALL_EXCEPTION"),
+  };
+  const timeout: ReadResult = {
+    success: false,
+    error: makeError("request timeout", "TIMEOUT"),
+  };
+  const ownedBy = (owner: string): ReadResult => ({
+    success: true,
+    value: owner,
+  });
+
+  it("drops reverted tokens and retries other failures", async () => {
+    const asked: string[][] = [];
+    let calls = 0;
+    const readOwners: OwnerReader = async (ids) => {
+      asked.push(ids);
+      // Token 2's first read times out
+      return ids.map((id) =>
+        id === "1"
+          ? revert
+          : id === "2" && calls++ === 0
+          ? timeout
+          : ownedBy(BOB)
+      );
+    };
+    const result = await verifyOwnership({ "1": ALICE, "2": BOB }, readOwners, {
+      delayMs: 0,
+    });
+    expect(result).toEqual({ owners: { "2": BOB }, corrected: 1 });
+    expect(asked).toEqual([["1", "2"], ["2"]]);
+  });
+
+  it("throws instead of dropping a holder the RPC never answers for", async () => {
+    const readOwners: OwnerReader = async (ids) =>
+      ids.map((id) => (id === "2" ? timeout : ownedBy(ALICE)));
+    await expect(
+      verifyOwnership({ "1": ALICE, "2": BOB }, readOwners, {
+        attempts: 2,
+        delayMs: 0,
+      })
+    ).rejects.toThrow(/ownerOf failed for 1 token\(s\) after 2 attempts/);
+  });
+});
+
+describe("holdersCsv", () => {
+  it("lists holders by count with sorted token ids", () => {
+    const holders = holdersOf({ "10": ALICE, "2": BOB, "9": BOB });
+    expect(holdersCsv(holders)).toBe(
+      `address,count,tokenIds\n${BOB},2,2 9\n${ALICE},1,10\n`
+    );
+  });
+});
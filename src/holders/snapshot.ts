@@ -0,0 +1,129 @@
+import { Interface, ZeroAddress, getAddress } from "ethers";
+import type { Log } from "ethers";
+import contractABI from "../contractABI";
+import type { ReadResult } from "../rpc/multicall";
+
+// Token ownership rebuilt from NFTMinted and ERC-721 Transfer logs, for
+// holder snapshots (scripts/holder-snapshot.ts). Pure data handling so the
+// state can be checkpointed as JSON between scans.
+
+const iface = new Interface(contractABI);
+export const TRANSFER_TOPIC = iface.getEvent("Transfer")!.topicHash;
+export const MINT_TOPIC = iface.getEvent("NFTMinted")!.topicHash;
+
+// tokenId (decimal string) -> checksummed owner
+export type Ownership = Record<string, string>;
+
+// The parts of a log ownership depends on; cached logs carry no more
+export type OwnershipLog = Pick<
+  Log,
+  "blockNumber" | "index" | "topics" | "data"
+>;
+
+export interface Holder {
+  address: string;
+  count: number;
+  tokenIds: string[];
+}
+
+/**
+ * Apply logs to `owners` in chain order. Transfers decide ownership (a
+ * transfer to the zero address burns); NFTMinted only fills in tokens whose
+ * mint Transfer wasn't seen, for contracts that don't emit one.
+ */
+export function applyOwnershipLogs(owners: Ownership, logs: OwnershipLog[]) {
+  const ordered = [...logs].sort(
+    (a, b) => a.blockNumber - b.blockNumber || a.index - b.index
+  );
+  for (const log of ordered) {
+    const parsed = iface.parseLog({ topics: [...log.topics], data: log.data });
+    if (!parsed) continue;
+    const tokenId = (parsed.args.tokenId as bigint).toString();
+    if (parsed.name === "Transfer") {
+      const to = getAddress(parsed.args.to as string);
+      if (to === ZeroAddress) delete owners[tokenId];
+      else owners[tokenId] = to;
+    } else if (parsed.name === "NFTMinted" && !(tokenId in owners)) {
+      owners[tokenId] = getAddress(parsed.args.minter as string);
+    }
+  }
+  return owners;
+}
+
+// ownerOf for each token id at the snapshot block, results in the same order
+export type OwnerReader = (tokenIds: string[]) => Promise<ReadResult[]>;
+
+const sleep = (ms: number) => new Promise((res) => setTimeout(res, ms));
+
+/**
+ * `owners` checked against ownerOf. A revert drops the token (burned or never
+ * minted); any other failure is an outage, so those tokens are asked again
+ * with backoff and, if they still fail, this throws rather than lose holders.
+ */
+export async function verifyOwnership(
+  owners: Ownership,
+  readOwners: OwnerReader,
+  { attempts = 4, delayMs = 2_000 } = {}
+): Promise<{ owners: Ownership; corrected: number }> {
+  const verified: Ownership = {};
+  let corrected = 0;
+  let pending = Object.keys(owners);
+  for (let attempt = 1; pending.length; attempt++) {
+    const results = await readOwners(pending);
+    const failed: string[] = [];
+    let lastError: unknown;
+    results.forEach((r, i) => {
+      const tokenId = pending[i];
+      if (r.success) {
+        const owner = getAddress(r.value as string);
+        if (owner !== owners[tokenId]) corrected++;
+        verified[tokenId] = owner;
+      } else if ((r.error as { code?: string })?.code === "CALL_EXCEPTION") {
+        corrected++;
+      } else {
+        failed.push(tokenId);
+        lastError = r.error;
+      }
+    });
+    if (failed.length && attempt >= attempts) {
+      throw new Error(
+        `ownerOf failed for ${
+          failed.length
+        } token(s) after ${attempts} attempts: ${
+          (lastError as Error)?.message ?? lastError
+        }`
+      );
+    }
+    if (failed.length) await sleep(delayMs * 2 ** (attempt - 1));
+    pending = failed;
+  }
+  return { owners: verified, corrected };
+}
+
+/** Holders with their tokens, most tokens first, then by address. */
+export function holdersOf(owners: Ownership): Holder[] {
+  const byHolder = new Map<string, string[]>();
+  for (const [tokenId, owner] of Object.entries(owners)) {
+    const list = byHolder.get(owner) ?? [];
+    list.push(tokenId);
+    byHolder.set(owner, list);
+  }
+  return Array.from(byHolder, ([address, tokenIds]) => ({
+    address,
+    count: tokenIds.length,
+    tokenIds: tokenIds.sort((a, b) =>
+      BigInt(a) < BigInt(b) ? -1 : BigInt(a) > BigInt(b) ? 1 : 0
+    ),
+  })).sort((a, b) => b.count - a.count || a.address.localeCompare(b.address));
+}
+
+/**
+ * `address,count,tokenIds` rows. The first two columns are the format
+ * `npm run allowlist` reads, so a snapshot can feed an allowlist directly.
+ */
+export function holdersCsv(holders: Holder[]): string {
+  const rows = holders.map(
+    (h) => `${h.address},${h.count},${h.tokenIds.join(" ")}`
+  );
+  return ["address,count,tokenIds", ...rows].join("\n") + "\n";
+}
@@ -0,0 +1,27 @@
+import { LOCALES, setLocale, useI18n } from "./i18n";
+import type { Locale } from "./i18n";
+
+/** Footer language picker; the choice persists across visits. */
+export default function LanguageSwitcher() {
+  const { locale, t } = useI18n();
+
+  return (
+    <select
+      aria-label={t("footer.language")}
+      value={locale}
+      onChange={(e) => setLocale(e.target.value as Locale)}
+      className="text-xs px-2 py-1 rounded bg-white/10 text-gray-300"
+    >
+      {LOCALES.map((l) => (
+        <option
+          key={l.code}
+          value={l.code}
+          lang={l.code}
+          className="text-black"
+        >
+          {l.label}
+        </option>
+      ))}
+    </select>
+  );
+}
@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest";
+import {
+  formatAmountInput,
+  formatInteger,
+  formatTokenAmount,
+  normalizeDecimal,
+} from "./format";
+import { translate } from "./i18n";
+
+const ETHER = 10n ** 18n;
+
+describe("formatTokenAmount", () => {
+  it("formats wei in the locale's notation", () => {
+    const amount = 1234n * ETHER + 5n * 10n ** 17n;
+    expect(formatTokenAmount(amount, 18, "en")).toBe("1,234.5");
+    expect(formatTokenAmount(amount, 18, "de")).toBe("1.234,5");
+  });
+
+  it("stays exact beyond float precision", () => {
+    const amount =
+      123456789012345678901234567890n * ETHER + 123456n * 10n ** 12n;
+    expect(formatTokenAmount(amount, 18, "en", 6)).toBe(
+      "123,456,789,012,345,678,901,234,567,890.123456"
+    );
+  });
+
+  it("cuts extra digits and marks dust", () => {
+    expect(formatTokenAmount(19999n * 10n ** 14n, 18, "en")).toBe("1.9999");
+    expect(formatTokenAmount(199999n * 10n ** 13n, 18, "en")).toBe("1.9999");
+    expect(formatTokenAmount(ETHER, 18, "en")).toBe("1");
+    expect(formatTokenAmount(1n, 18, "en")).toBe("<0.0001");
+    expect(formatTokenAmount(0n, 18, "en")).toBe("0");
+  });
+});
+
+describe("normalizeDecimal", () => {
+  it("reads input typed in the locale's notation", () => {
+    expect(normalizeDecimal("1234.5", "en")).toBe("1234.5");
+    expect(normalizeDecimal(" 52,5 ", "es")).toBe("52.5");
+    expect(normalizeDecimal("1,5", "de")).toBe("1.5");
+    expect(normalizeDecimal("52", "es")).toBe("52");
+    expect(normalizeDecimal(",5", "de")).toBe(".5");
+  });
+
+  it("rejects grouping and foreign separators instead of stripping them", () => {
+    // "1.5" must never become 15 where "." groups thousands
+    for (const [text, locale] of [
+      ["1.5", "es"],
+      ["1.5", "de"],
+      ["1.234,5", "es"],
+      ["1.234,5", "de"],
+      ["1,5", "en"],
+      ["1,234.5", "en"],
+      ["1,2,3", "es"],
+      ["abc", "en"],
+      [",", "es"],
+    ]) {
+      expect(() => normalizeDecimal(text, locale)).toThrow(/plain decimal/);
+    }
+  });
+
+  it("prefills inputs in a form it reads back", () => {
+    const wei = 1234n * 10n ** 9n + 5n * 10n ** 8n;
+    expect(formatTokenAmount(wei, 9, "de")).toBe("1.234,5");
+    expect(formatAmountInput(wei, 9, "de")).toBe("1234,5");
+    expect(normalizeDecimal(formatAmountInput(wei, 9, "es"), "es")).toBe(
+      "1234.5"
+    );
+  });
+});
+
+describe("translate", () => {
+  it("picks plural forms and formats numbers", () => {
+    expect(translate("en", "mint.walletMinted", { count: 1, max: 5 })).toBe(
+      "You've minted 1 NFT of 5"
+    );
+    expect(translate("en", "supply.max", { count: 10000 })).toBe("10,000 max");
+    expect(
+      translate("es", "mint.button", { count: 2, price: "0,2", symbol: "MON" })
+    ).toBe("Mintear 2 NFTs (0,2 MON)");
+    expect(formatInteger(10000, "es")).toBe("10.000");
+  });
+});
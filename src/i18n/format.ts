@@ -0,0 +1,113 @@
+// Locale-aware number formatting. Token amounts stay BigInt end to end: the
+// whole part goes through Intl.NumberFormat (which takes a bigint as is) and
+// the fraction is cut from the digits, so no amount ever passes through a
+// float.
+
+const numberFormats = new Map<string, Intl.NumberFormat>();
+
+function numberFormat(locale: string) {
+  let format = numberFormats.get(locale);
+  if (!format) {
+    format = new Intl.NumberFormat(locale, { maximumFractionDigits: 0 });
+    numberFormats.set(locale, format);
+  }
+  return format;
+}
+
+function separator(locale: string, type: "decimal" | "group") {
+  return new Intl.NumberFormat(locale)
+    .formatToParts(12345.5)
+    .find((p) => p.type === type)?.value;
+}
+
+function decimalSeparator(locale: string) {
+  return separator(locale, "decimal") ?? ".";
+}
+
+/** An integer (count, supply, ...) with the locale's grouping. */
+export function formatInteger(value: number | bigint, locale: string) {
+  return numberFormat(locale).format(value);
+}
+
+/**
+ * A decimal typed in the locale's notation, rewritten the way parseUnits
+ * wants it: "52,5" in Spanish becomes "52.5". Throws on grouping or any other
+ * separator instead of guessing: in Spanish "1.5" could be an English 1.5 or
+ * a grouped 15, and the wrong guess pays ten times over.
+ */
+export function normalizeDecimal(text: string, locale: string) {
+  const match = /^(\d*)(?:(\D)(\d*))?$/.exec(text.trim());
+  if (
+    !match ||
+    !/\d/.test(text) ||
+    (match[2] !== undefined && match[2] !== decimalSeparator(locale))
+  ) {
+    throw new Error(`"${text}" is not a plain decimal in ${locale} notation`);
+  }
+  return match[2] === undefined ? match[1] : `${match[1]}.${match[3]}`;
+}
+
+/** Whole part and fraction digits of an amount, cut to `maxFractionDigits`. */
+function splitAmount(
+  amount: bigint,
+  decimals: number,
+  maxFractionDigits: number
+) {
+  const abs = amount < 0n ? -amount : amount;
+  const base = 10n ** BigInt(decimals);
+  const digits = (abs % base)
+    .toString()
+    .padStart(decimals, "0")
+    .slice(0, maxFractionDigits)
+    .replace(/0+$/, "");
+  return { sign: amount < 0n ? "-" : "", abs, whole: abs / base, digits };
+}
+
+/**
+ * An amount to prefill an input with: like formatTokenAmount but without
+ * grouping, so normalizeDecimal reads it back.
+ */
+export function formatAmountInput(
+  amount: bigint,
+  decimals: number,
+  locale: string,
+  maxFractionDigits = 4
+): string {
+  const { sign, whole, digits } = splitAmount(
+    amount,
+    decimals,
+    maxFractionDigits
+  );
+  return `${sign}${whole}${digits ? decimalSeparator(locale) + digits : ""}`;
+}
+
+/**
+ * A token amount in base units (e.g. wei) as a decimal in the locale's
+ * notation, cut (not rounded) to `maxFractionDigits`. A non-zero amount too
+ * small to show reads "<0.0001" rather than "0".
+ */
+export function formatTokenAmount(
+  amount: bigint,
+  decimals: number,
+  locale: string,
+  maxFractionDigits = 4
+): string {
+  const { sign, abs, whole, digits } = splitAmount(
+    amount,
+    decimals,
+    maxFractionDigits
+  );
+  const separator = decimalSeparator(locale);
+  if (whole === 0n && !digits && abs > 0n) {
+    const smallest =
+      maxFractionDigits > 0
+        ? `${formatInteger(0, locale)}${separator}${"1".padStart(
+            maxFractionDigits,
+            "0"
+          )}`
+        : formatInteger(1, locale);
+    return `${sign}<${smallest}`;
+  }
+  const formatted = formatInteger(whole, locale);
+  return `${sign}${formatted}${digits ? separator + digits : ""}`;
+}
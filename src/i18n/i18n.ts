@@ -0,0 +1,150 @@
+import { Fragment, createElement, useEffect, useMemo, useState } from "react";
+import type { ReactNode } from "react";
+import {
+  formatAmountInput,
+  formatInteger,
+  formatTokenAmount,
+  normalizeDecimal,
+} from "./format";
+import en from "./locales/en";
+import es from "./locales/es";
+
+// UI language: message catalogs, the user's pick (remembered across visits)
+// and a hook that re-renders on a switch.
+
+export type PluralMessage = { other: string } & Partial<
+  Record<Intl.LDMLPluralRule, string>
+>;
+export type Message = string | PluralMessage;
+export type MessageKey = keyof typeof en;
+export type Catalog = Record<MessageKey, Message>;
+
+export const LOCALES = [
+  { code: "en", label: "English" },
+  { code: "es", label: "Español" },
+] as const;
+
+export type Locale = (typeof LOCALES)[number]["code"];
+
+const CATALOGS: Record<Locale, Catalog> = { en, es };
+const DEFAULT_LOCALE: Locale = "en";
+const LOCALE_KEY = "shramp:locale";
+const LOCALE_EVENT = "shramp:locale";
+
+function isLocale(value: unknown): value is Locale {
+  return LOCALES.some((l) => l.code === value);
+}
+
+/** The stored choice, else the browser's first language we have, else English. */
+function detectLocale(): Locale {
+  try {
+    const stored = localStorage.getItem(LOCALE_KEY);
+    if (isLocale(stored)) return stored;
+  } catch {
+    // storage unavailable
+  }
+  for (const tag of navigator.languages ?? []) {
+    const language = tag.split("-")[0].toLowerCase();
+    if (isLocale(language)) return language;
+  }
+  return DEFAULT_LOCALE;
+}
+
+let current: Locale = detectLocale();
+document.documentElement.lang = current;
+
+export function getLocale() {
+  return current;
+}
+
+export function setLocale(locale: Locale) {
+  current = locale;
+  document.documentElement.lang = locale;
+  try {
+    localStorage.setItem(LOCALE_KEY, locale);
+  } catch {
+    // choice just won't persist
+  }
+  window.dispatchEvent(new Event(LOCALE_EVENT));
+}
+
+export type Params = Record<string, string | number | bigint>;
+
+/** A message picked outside React (errors, statuses), translated on render. */
+export interface Translatable {
+  key: MessageKey;
+  params?: Params;
+}
+
+function messageText(locale: Locale, key: MessageKey, count: unknown) {
+  const message = CATALOGS[locale][key] ?? en[key];
+  if (typeof message === "string") return message;
+  const rule = new Intl.PluralRules(locale).select(Number(count ?? 0));
+  return message[rule] ?? message.other;
+}
+
+// Numbers get the locale's grouping, e.g. "1,000" / "1.000"
+function paramText(locale: Locale, value: string | number | bigint) {
+  return typeof value === "string" ? value : formatInteger(value, locale);
+}
+
+export function translate(
+  locale: Locale,
+  key: MessageKey,
+  params: Params = {}
+) {
+  return messageText(locale, key, params.count).replace(
+    /\{(\w+)\}/g,
+    (match, name: string) =>
+      name in params ? paramText(locale, params[name]) : match
+  );
+}
+
+/** Like translate, with elements (links, <code>, ...) as param values. */
+export function translateRich(
+  locale: Locale,
+  key: MessageKey,
+  params: Record<string, ReactNode>
+): ReactNode {
+  // split() with a capture group alternates text and placeholder names
+  const parts = messageText(locale, key, params.count).split(/\{(\w+)\}/);
+  return parts.map((part, i) =>
+    createElement(
+      Fragment,
+      { key: i },
+      i % 2 === 0 ? part : part in params ? params[part] : `{${part}}`
+    )
+  );
+}
+
+/** Translation and formatting in the current locale. */
+export function useI18n() {
+  const [locale, setLocaleState] = useState(getLocale);
+
+  useEffect(() => {
+    const update = () => setLocaleState(getLocale());
+    window.addEventListener(LOCALE_EVENT, update);
+    return () => window.removeEventListener(LOCALE_EVENT, update);
+  }, []);
+
+  return useMemo(
+    () => ({
+      locale,
+      t: (key: MessageKey | Translatable, params?: Params) =>
+        typeof key === "string"
+          ? translate(locale, key, params)
+          : translate(locale, key.key, key.params),
+      rich: (key: MessageKey, params: Record<string, ReactNode>) =>
+        translateRich(locale, key, params),
+      formatAmount: (amount: bigint, decimals: number, digits?: number) =>
+        formatTokenAmount(amount, decimals, locale, digits),
+      formatNumber: (value: number | bigint) => formatInteger(value, locale),
+      // Amount inputs: prefilled ungrouped, and read back for parseUnits
+      // (throws on anything but digits and this locale's decimal separator)
+      formatAmountInput: (amount: bigint, decimals: number, digits?: number) =>
+        formatAmountInput(amount, decimals, locale, digits),
+      parseDecimal: (text: string) => normalizeDecimal(text, locale),
+    }),
+    [locale]
+  );
+}
@@ -0,0 +1,330 @@
+import type { Message } from "../i18n";
+
+// English, the source catalog: every other locale translates these keys.
+// `{name}` is filled in from the call's params; a message with plural forms
+// picks one by the `count` param.
+
+const en = {
+  "collection.loading": "Loading collection...",
+  "collection.notFound": "Collection not found",
+  "collection.notFoundBody": 'There\'s no collection called "{slug}".',
+  "collection.goHome": "Go to the home page",
+
+  "nav.network": "Network",
+  "nav.stats": "Stats",
+  "nav.admin": "Admin",
+  "nav.backToMint": "Back to mint",
+  "footer.language": "Language",
+
+  "network.walletOn":
+    "Your wallet is on {network}. This page is showing {chain}.",
+  "network.unsupported": "an unsupported network ({chainId})",
+  "network.switchTo": "Switch to {chain}",
+
+  "contract.mismatch": "Contract mismatch on {chain}",
+  "contract.notDeployed": "No contract is deployed at {address}.",
+  "contract.missingFunctions":
+    "The deployed contract doesn't implement: {functions}. Check that the configured address and contractABI match.",
+  "config.missing": "Environment not configured",
+  "config.missingBody":
+    "Set {address} in your Vercel project Environment Variables and redeploy. Optionally set {rpcUrl} or a comma-separated {rpcUrls} list for read failover.",
+
+  "admin.connectOwner": "Connect the owner wallet to use the admin console.",
+  "admin.notOwner": "The connected account is not the contract owner.",
+
+  "allowlist.notListed":
+    "This wallet isn't on the allowlist. Check back for the public mint.",
+  "allowlist.unsupported":
+    "This contract has no allowlist mint, so the allowlist phase can't be minted from this page.",
+  "supply.minted": "{count} minted",
+  "supply.max": "{count} max",
+  "mint.quantity": "Quantity (1-{max}):",
+  "mint.walletMinted": {
+    one: "You've minted {count} NFT of {max}",
+    other: "You've minted {count} NFTs of {max}",
+  },
+  "mint.maxReached": "(Max reached!)",
+  "mint.button": {
+    one: "Mint {count} NFT ({price} {symbol})",
+    other: "Mint {count} NFTs ({price} {symbol})",
+  },
+  "mint.minting": "Minting...",
+  "mint.soldOut": "Sold Out",
+  "mint.notStarted": "Not Started",
+  "mint.ended": "Mint Ended",
+  "mint.loading": "Loading...",
+  "mint.unscheduled": "No Mint Scheduled",
+  "mint.scheduleUnavailable": "Schedule Unavailable",
+  "mint.notAllowlisted": "Not on Allowlist",
+  "mint.allowlistUnsupported": "Allowlist Mint Unavailable",
+  "mint.walletMaxed": "Max NFTs Minted",
+
+  "wallet.connect": "Connect Wallet",
+  "wallet.connected": "Connected: {address}",
+  "wallet.connectedStatus": "{wallet} connected",
+  "wallet.connectFailed": "Failed to connect wallet",
+  "wallet.disconnect": "Disconnect",
+
+  "holder.welcome":
+    "Welcome, holder! Drops and allowlist spots for future collections are announced here first.",
+
+  "action.cancel": "Cancel",
+  "action.retry": "Retry",
+  "action.dismiss": "Dismiss",
+  "action.close": "Close",
+  "address.you": "You",
+  "explorer.block": "block {block}",
+  "footer.reporting": "Send anonymous error reports",
+  "footer.createdBy": "created by {link}",
+
+  "crash.title": "Something went wrong",
+  "crash.body":
+    "The page hit an unexpected error. Your wallet and any submitted transactions are unaffected.",
+  "crash.reload": "Reload",
+
+  "phase.allowlist": "Allowlist mint",
+  "phase.public": "Public mint",
+  "phase.checking": "Checking sale status...",
+  "phase.error": "Couldn't load the mint schedule. Retrying...",
+  "phase.unscheduled": "No mint is scheduled for this collection.",
+  "phase.soldOut": "Sold out ⭐ thanks for minting!",
+  "phase.ended": "The mint has ended.",
+  "phase.startsIn": "{phase} starts in {time}",
+  "phase.endsIn": "Ends in {time}",
+  "phase.live": "{phase} ⭐ max {max} per wallet ⭐",
+
+  "mintSteps.validating": "Check",
+  "mintSteps.simulating": "Simulate",
+  "mintSteps.awaitingSignature": "Sign",
+  "mintSteps.submitted": "Submit",
+  "mintSteps.confirming": "Confirm",
+  "mintStatus.validating": "Checking mint limits...",
+  "mintStatus.simulating": "Simulating transaction...",
+  "mintStatus.awaitingSignature": "Confirm the transaction in your wallet...",
+  "mintStatus.submitted": "Transaction submitted...",
+  "mintStatus.confirming": "Waiting for confirmation...",
+  "mintStatus.success": {
+    one: "Minted {count} NFT!",
+    other: "Minted {count} NFTs!",
+  },
+  "mintStatus.replaced": "Your wallet replaced the transaction.",
+  "mintStatus.simulationUnavailable":
+    "Simulation unavailable, submitting anyway.",
+  "mintStatus.rateLimited": "RPC rate limited, retrying in {seconds}s...",
+
+  "mintError.soldOut": "Sold out",
+  "mintError.notOpen": "Minting is not open right now.",
+  "mintError.notAllowlisted":
+    "This wallet isn't on the allowlist for this phase.",
+  "mintError.walletMaxed": "Max per wallet reached",
+  "mintError.overAllowance": {
+    one: "You can only mint {count} more NFT. You've already minted {minted}.",
+    other:
+      "You can only mint {count} more NFTs. You've already minted {minted}.",
+  },
+  "mintError.overSupply": "Only {count} left in supply",
+  "mintError.dropped":
+    "Mint transaction was cancelled or dropped. Nothing was minted.",
+  "mintError.failedOnChain": "Mint transaction failed on-chain.",
+
+  "txError.userRejected": "You rejected the request in your wallet.",
+  "txError.insufficientFunds": "Not enough funds to cover the price and gas.",
+  "txError.insufficientCurrency":
+    "Not enough {currency} to cover the price and gas.",
+  "txError.insufficientFundsHint": "Top up your wallet or lower the quantity.",
+  "txError.wrongChain": "Your wallet is on the wrong network.",
+  "txError.wrongChainHint":
+    "Switch to the network selected in the app and try again.",
+  "txError.wrongPrice": "The amount sent doesn't match the current mint price.",
+  "txError.wrongPriceHint":
+    "The price may have changed. Refresh the page and try again.",
+  "txError.walletLimit": "This wallet has reached its mint limit.",
+  "txError.walletLimitHint":
+    "Try a smaller quantity or mint from another wallet.",
+  "txError.supply": "Not enough tokens left for this quantity.",
+  "txError.supplyNamed": "Not enough {tokens} left for this quantity.",
+  "txError.supplyHint": "Lower the quantity or check the remaining supply.",
+  "txError.notOpenHint": "Check the mint schedule and try again later.",
+  "txError.notAllowlistedHint":
+    "Wait for the public mint or use an allowlisted wallet.",
+  "txError.notOwner": "Only the contract owner can do this.",
+  "txError.notOwnerHint": "Connect the owner wallet.",
+  "txError.notTokenOwner": "This wallet doesn't own that token anymore.",
+  "txError.notTokenOwnerHint": "Refresh the page to see its current owner.",
+  "txError.noSuchToken": "That token doesn't exist.",
+  "txError.invalidReceiver": "The receiving address can't accept NFTs.",
+  "txError.invalidReceiverHint": "Send to a regular wallet address instead.",
+  "txError.reverted": "Transaction reverted: {reason}",
+  "txError.rpc": "The network RPC failed to process the request.",
+  "txError.rpcHint": "Wait a moment and try again.",
+  "txError.failed": "Transaction failed",
+  "txError.failedWith": "Transaction failed: {detail}",
+  "txError.accountSwitched":
+    "Your wallet switched accounts. Reconnect and try again.",
+
+  "cost.price": "Mint price",
+  "cost.gas": "Estimated gas",
+  "cost.baseFee": "Base fee",
+  "cost.priorityFee": "Priority fee",
+  "cost.networkFee": "Network fee",
+  "cost.maxTotal": "Max total",
+  "cost.balance": "Your balance",
+  "cost.unavailable": "unavailable",
+  "cost.notApplicable": "n/a",
+  "cost.gwei": "{amount} gwei",
+  "cost.estimate": "~{estimate} (max {max})",
+  "cost.estimating": "Estimating cost...",
+  "cost.failed": "Could not estimate the mint cost",
+  "cost.insufficient":
+    "Your balance doesn't cover the price plus the maximum network fee. Top up or lower the quantity before minting.",
+  "cost.noGasEstimate":
+    "Gas couldn't be estimated; the mint may fail or your wallet will estimate it.",
+  "cost.feeCaps": "Fee caps",
+  "cost.maxFee": "Max fee",
+  "cost.maxFeeLabel": "Max fee (gwei)",
+  "cost.priorityFeeLabel": "Priority fee (gwei)",
+  "cost.auto": "auto",
+  "cost.enterGwei": "Enter fees in gwei, e.g. {example}",
+  "cost.zeroMaxFee": "Max fee must be above zero.",
+  "cost.tipAboveMax": "Priority fee can't exceed the max fee.",
+  "cost.belowBaseFee":
+    "Your max fee is below the current base fee; the transaction will wait until fees drop.",
+
+  "walletPicker.title": "Select a wallet",
+  "walletPicker.none":
+    "No wallet detected. Install a browser wallet extension (e.g. MetaMask, Rabby, Phantom) and reload the page.",
+
+  "gallery.title": "My {tokens}",
+  "gallery.loading": "Loading your {tokens}...",
+  "gallery.empty": "You don't own any {tokens} yet.",
+  "gallery.failed": "Could not load your tokens",
+  "gallery.unlisted": {
+    one: "{count} more token in this wallet couldn't be listed.",
+    other: "{count} more tokens in this wallet couldn't be listed.",
+  },
+
+  "feed.title": "Live mints",
+  "feed.loading": "Loading recent mints...",
+  "feed.empty": "No recent mints yet.",
+  "feed.minted": "{minter} minted {token}",
+
+  "holder.title": "Holder lounge",
+  "holder.signInPrompt":
+    "Sign in with your wallet to prove you hold a {token}. Signing is free and doesn't send a transaction.",
+  "holder.checkWallet": "Check your wallet...",
+  "holder.signIn": "Sign in with Ethereum",
+  "holder.checking": "Checking your {tokens}...",
+  "holder.signedIn": "Signed in as {address} ⭐ {count} {tokens} held",
+  "holder.notHolder":
+    "{address} doesn't hold a {token} yet. Mint one to get in.",
+  "holder.signOut": "Sign out",
+  "siwe.statement": "Sign in to {collection} to unlock holder features.",
+  "siwe.failed": "Sign-in failed. Try again.",
+  "siwe.malformed": "The sign-in message was malformed. Try again.",
+  "siwe.domain": "The sign-in message was made for a different site.",
+  "siwe.nonce": "The sign-in request is out of date. Try again.",
+  "siwe.chain": "Sign-in isn't accepted on this network.",
+  "siwe.expired": "The sign-in message has expired. Try again.",
+  "siwe.notYetValid":
+    "The sign-in message isn't valid yet. Check your device's clock.",
+  "siwe.signature": "The signature doesn't match your wallet.",
+
+  "stats.failed": "Could not load collection stats",
+  "stats.indexing": "Indexing mints and transfers...",
+  "stats.none": "No stats yet.",
+  "stats.minted": "Minted",
+  "stats.uniqueHolders": "Unique holders",
+  "stats.held": "Held",
+  "stats.distribution": "Holder distribution",
+  "stats.noHolders": "No holders yet.",
+  "stats.wallets": { one: "{count} wallet", other: "{count} wallets" },
+  "stats.velocity": "Mint velocity",
+  "stats.chart": "Mints over time",
+  "stats.bucket": "{date}: {count} minted",
+  "stats.noMints": "No mints yet.",
+  "stats.perDays": "per {count}d",
+  "stats.perHours": "per {count}h",
+  "stats.topHolders": "Top holders",
+  "stats.heldCount": "{count} held",
+  "stats.topMinters": "Top minters",
+  "stats.mintedCount": "{count} minted",
+  "stats.recentTransfers": "Recent transfers",
+  "stats.noTransfers": "No transfers yet.",
+  "stats.burned": "burned",
+  "stats.indexedThrough": "Indexed through block {block}.",
+  "stats.partial": "Showing activity from block {from} through {to}.",
+
+  "token.lookupLabel": "Token ID",
+  "token.lookupPlaceholder": "Token ID (e.g. {id})",
+  "token.lookUp": "Look up",
+  "token.loading": "Loading token...",
+  "token.failed": "Could not load this token",
+  "token.missing":
+    "{token} #{id} doesn't exist (it hasn't been minted, or was burned).",
+  "token.description": "{token} #{id} from the {collection} collection.",
+  "token.metadataUnavailable": "Metadata unavailable",
+  "token.noImage": "No image",
+  "token.imageLoading": "Loading...",
+  "token.fallbackAlt": "Token #{id}",
+  "token.owner": "Owner",
+  "token.ownerYou": "(you)",
+  "token.contract": "Contract on explorer",
+  "token.metadataJson": "Metadata JSON",
+  "token.projectPage": "Project page",
+
+  "transfer.sent": "Sent {token} to {address}.",
+  "transfer.viewTx": "View transaction",
+  "transfer.sendTo": "Send to",
+  "transfer.placeholder": "0x... or name.eth",
+  "transfer.recipient": "Recipient:",
+  "transfer.recipientNamed": "Recipient ({name}):",
+  "transfer.contractWarning":
+    "This address is a contract, not a wallet. If it can't handle NFTs the transfer will revert; if nobody controls it, the {token} is lost. I know this contract accepts {tokens}.",
+  "transfer.inWallet": "Confirm the transfer in your wallet...",
+  "transfer.pending": "Transfer submitted, waiting for confirmation...",
+  "transfer.send": "Send #{id}",
+  "transfer.checking": "Checking...",
+  "transfer.review": "Review transfer",
+  "transfer.checkFailed": "Couldn't check that recipient. Try again.",
+  "transfer.failedOnChain": "The transfer failed on-chain.",
+  "recipient.empty": "Enter a recipient.",
+  "recipient.notAddress": "Enter a 0x address (42 characters).",
+  "recipient.badChecksum":
+    "This address fails its checksum. Check it for typos or paste it again.",
+  "recipient.noNameService":
+    "{chain} has no name service. Paste a 0x address instead.",
+  "recipient.unresolved": "{name} doesn't resolve to an address.",
+  "recipient.zero": "Sending to the zero address would burn the token.",
+  "recipient.self": "That's the wallet that already holds this token.",
+  "recipient.collection":
+    "That's the collection's own contract; the token would be stuck there.",
+
+  "reveal.title": "Your new {tokens}",
+  "reveal.download": "Download card",
+  "reveal.share": "Share",
+  "reveal.shareText": "I just minted {title} from {collection}!",
+  "reveal.cardFailed": "Couldn't create the card",
+  "reveal.mintedOn": "Minted on {chain}",
+  "reveal.imageUnavailable": "Image unavailable",
+
+  "admin.readFailed": "(read failed)",
+  "admin.sending": "Sending {fn}...",
+  "admin.waiting": "Waiting for {fn} confirmation...",
+  "admin.confirmed": "{fn} confirmed",
+  "admin.parameters": "Contract parameters",
+  "admin.transferOwnership": "Transfer ownership",
+  "admin.newOwner": "New owner address",
+  "admin.confirmOwner": "Type the address again to confirm",
+  "admin.renounce": "Renounce ownership",
+  "admin.renounceWarning":
+    "Leaves the contract without an owner. Owner-only functions become permanently unusable. This cannot be undone.",
+  "admin.renouncePhrase": "Type {phrase} to enable",
+  "admin.renounceConfirm": "Click again to renounce forever",
+  "admin.ownerFunctions": "Owner functions",
+  "admin.value": "value ({currency})",
+  "admin.send": "Send {fn}",
+  "admin.invalidParam": "{param}: enter a valid {type}",
+  "admin.invalidValue": "value: enter an amount in {currency}",
+} satisfies Record<string, Message>;
+
+export default en;
@@ -0,0 +1,338 @@
+import type { Catalog } from "../i18n";
+
+const es: Catalog = {
+  "collection.loading": "Cargando colección...",
+  "collection.notFound": "Colección no encontrada",
+  "collection.notFoundBody": "No hay ninguna colección llamada «{slug}».",
+  "collection.goHome": "Ir a la página de inicio",
+
+  "nav.network": "Red",
+  "nav.stats": "Estadísticas",
+  "nav.admin": "Admin",
+  "nav.backToMint": "Volver al minteo",
+  "footer.language": "Idioma",
+
+  "network.walletOn":
+    "Tu billetera está en {network}. Esta página muestra {chain}.",
+  "network.unsupported": "una red no compatible ({chainId})",
+  "network.switchTo": "Cambiar a {chain}",
+
+  "contract.mismatch": "El contrato no coincide en {chain}",
+  "contract.notDeployed": "No hay ningún contrato desplegado en {address}.",
+  "contract.missingFunctions":
+    "El contrato desplegado no implementa: {functions}. Comprueba que la dirección configurada y contractABI coincidan.",
+  "config.missing": "Entorno sin configurar",
+  "config.missingBody":
+    "Define {address} en las variables de entorno de tu proyecto de Vercel y vuelve a desplegar. Opcionalmente define {rpcUrl} o una lista {rpcUrls} separada por comas para tener RPC de respaldo.",
+
+  "admin.connectOwner":
+    "Conecta la billetera del propietario para usar la consola de administración.",
+  "admin.notOwner": "La cuenta conectada no es la propietaria del contrato.",
+
+  "allowlist.notListed":
+    "Esta billetera no está en la lista permitida. Vuelve para el minteo público.",
+  "allowlist.unsupported":
+    "Este contrato no tiene minteo para la lista permitida, así que esa fase no se puede mintear desde esta página.",
+  "supply.minted": "{count} minteados",
+  "supply.max": "{count} máx.",
+  "mint.quantity": "Cantidad (1-{max}):",
+  "mint.walletMinted": {
+    one: "Has minteado {count} NFT de {max}",
+    other: "Has minteado {count} NFTs de {max}",
+  },
+  "mint.maxReached": "(¡Máximo alcanzado!)",
+  "mint.button": {
+    one: "Mintear {count} NFT ({price} {symbol})",
+    other: "Mintear {count} NFTs ({price} {symbol})",
+  },
+  "mint.minting": "Minteando...",
+  "mint.soldOut": "Agotado",
+  "mint.notStarted": "Aún no empieza",
+  "mint.ended": "Minteo finalizado",
+  "mint.loading": "Cargando...",
+  "mint.unscheduled": "Sin minteo programado",
+  "mint.scheduleUnavailable": "Calendario no disponible",
+  "mint.notAllowlisted": "No estás en la lista",
+  "mint.allowlistUnsupported": "Minteo de lista no disponible",
+  "mint.walletMaxed": "Máximo de NFTs minteados",
+
+  "wallet.connect": "Conectar billetera",
+  "wallet.connected": "Conectado: {address}",
+  "wallet.connectedStatus": "{wallet} conectada",
+  "wallet.connectFailed": "No se pudo conectar la billetera",
+  "wallet.disconnect": "Desconectar",
+
+  "holder.welcome":
+    "¡Bienvenido, holder! Los próximos drops y plazas en listas permitidas se anuncian aquí primero.",
+
+  "action.cancel": "Cancelar",
+  "action.retry": "Reintentar",
+  "action.dismiss": "Cerrar",
+  "action.close": "Cerrar",
+  "address.you": "Tú",
+  "explorer.block": "bloque {block}",
+  "footer.reporting": "Enviar informes de errores anónimos",
+  "footer.createdBy": "creado por {link}",
+
+  "crash.title": "Algo salió mal",
+  "crash.body":
+    "La página encontró un error inesperado. Tu billetera y las transacciones enviadas no se ven afectadas.",
+  "crash.reload": "Recargar",
+
+  "phase.allowlist": "Minteo de lista permitida",
+  "phase.public": "Minteo público",
+  "phase.checking": "Comprobando el estado de la venta...",
+  "phase.error": "No se pudo cargar el calendario de minteo. Reintentando...",
+  "phase.unscheduled": "No hay ningún minteo programado para esta colección.",
+  "phase.soldOut": "Agotado ⭐ ¡gracias por mintear!",
+  "phase.ended": "El minteo ha terminado.",
+  "phase.startsIn": "{phase} empieza en {time}",
+  "phase.endsIn": "Termina en {time}",
+  "phase.live": "{phase} ⭐ máx. {max} por billetera ⭐",
+
+  "mintSteps.validating": "Comprobar",
+  "mintSteps.simulating": "Simular",
+  "mintSteps.awaitingSignature": "Firmar",
+  "mintSteps.submitted": "Enviar",
+  "mintSteps.confirming": "Confirmar",
+  "mintStatus.validating": "Comprobando los límites de minteo...",
+  "mintStatus.simulating": "Simulando la transacción...",
+  "mintStatus.awaitingSignature": "Confirma la transacción en tu billetera...",
+  "mintStatus.submitted": "Transacción enviada...",
+  "mintStatus.confirming": "Esperando la confirmación...",
+  "mintStatus.success": {
+    one: "¡{count} NFT minteado!",
+    other: "¡{count} NFTs minteados!",
+  },
+  "mintStatus.replaced": "Tu billetera reemplazó la transacción.",
+  "mintStatus.simulationUnavailable":
+    "Simulación no disponible, se envía de todos modos.",
+  "mintStatus.rateLimited":
+    "Límite de peticiones del RPC, reintentando en {seconds} s...",
+
+  "mintError.soldOut": "Agotado",
+  "mintError.notOpen": "El minteo no está abierto ahora mismo.",
+  "mintError.notAllowlisted":
+    "Esta billetera no está en la lista permitida de esta fase.",
+  "mintError.walletMaxed": "Máximo por billetera alcanzado",
+  "mintError.overAllowance": {
+    one: "Solo puedes mintear {count} NFT más. Ya has minteado {minted}.",
+    other: "Solo puedes mintear {count} NFTs más. Ya has minteado {minted}.",
+  },
+  "mintError.overSupply": "Solo quedan {count} en el suministro",
+  "mintError.dropped":
+    "La transacción de minteo se canceló o se descartó. No se minteó nada.",
+  "mintError.failedOnChain": "La transacción de minteo falló en la cadena.",
+
+  "txError.userRejected": "Rechazaste la solicitud en tu billetera.",
+  "txError.insufficientFunds":
+    "No tienes fondos suficientes para cubrir el precio y el gas.",
+  "txError.insufficientCurrency":
+    "No tienes suficiente {currency} para cubrir el precio y el gas.",
+  "txError.insufficientFundsHint": "Recarga tu billetera o reduce la cantidad.",
+  "txError.wrongChain": "Tu billetera está en la red equivocada.",
+  "txError.wrongChainHint":
+    "Cambia a la red seleccionada en la app y vuelve a intentarlo.",
+  "txError.wrongPrice":
+    "El importe enviado no coincide con el precio de minteo actual.",
+  "txError.wrongPriceHint":
+    "Puede que el precio haya cambiado. Recarga la página y vuelve a intentarlo.",
+  "txError.walletLimit": "Esta billetera alcanzó su límite de minteo.",
+  "txError.walletLimitHint":
+    "Prueba con una cantidad menor o mintea desde otra billetera.",
+  "txError.supply": "No quedan suficientes tokens para esta cantidad.",
+  "txError.supplyNamed": "No quedan suficientes {tokens} para esta cantidad.",
+  "txError.supplyHint":
+    "Reduce la cantidad o comprueba el suministro restante.",
+  "txError.notOpenHint":
+    "Consulta el calendario de minteo y vuelve a intentarlo más tarde.",
+  "txError.notAllowlistedHint":
+    "Espera al minteo público o usa una billetera de la lista permitida.",
+  "txError.notOwner": "Solo el propietario del contrato puede hacer esto.",
+  "txError.notOwnerHint": "Conecta la billetera del propietario.",
+  "txError.notTokenOwner": "Esta billetera ya no es dueña de ese token.",
+  "txError.notTokenOwnerHint": "Recarga la página para ver su dueño actual.",
+  "txError.noSuchToken": "Ese token no existe.",
+  "txError.invalidReceiver": "La dirección de destino no puede recibir NFTs.",
+  "txError.invalidReceiverHint": "Envíalo a una dirección de billetera normal.",
+  "txError.reverted": "La transacción se revirtió: {reason}",
+  "txError.rpc": "El RPC de la red no pudo procesar la solicitud.",
+  "txError.rpcHint": "Espera un momento y vuelve a intentarlo.",
+  "txError.failed": "La transacción falló",
+  "txError.failedWith": "La transacción falló: {detail}",
+  "txError.accountSwitched":
+    "Tu billetera cambió de cuenta. Vuelve a conectarla e inténtalo de nuevo.",
+
+  "cost.price": "Precio de minteo",
+  "cost.gas": "Gas estimado",
+  "cost.baseFee": "Tarifa base",
+  "cost.priorityFee": "Tarifa de prioridad",
+  "cost.networkFee": "Tarifa de red",
+  "cost.maxTotal": "Total máximo",
+  "cost.balance": "Tu saldo",
+  "cost.unavailable": "no disponible",
+  "cost.notApplicable": "n/d",
+  "cost.gwei": "{amount} gwei",
+  "cost.estimate": "~{estimate} (máx. {max})",
+  "cost.estimating": "Estimando el coste...",
+  "cost.failed": "No se pudo estimar el coste del minteo",
+  "cost.insufficient":
+    "Tu saldo no cubre el precio más la tarifa de red máxima. Recarga o reduce la cantidad antes de mintear.",
+  "cost.noGasEstimate":
+    "No se pudo estimar el gas; el minteo podría fallar o tu billetera lo estimará.",
+  "cost.feeCaps": "Límites de tarifa",
+  "cost.maxFee": "Tarifa máx.",
+  "cost.maxFeeLabel": "Tarifa máxima (gwei)",
+  "cost.priorityFeeLabel": "Tarifa de prioridad (gwei)",
+  "cost.auto": "auto",
+  "cost.enterGwei": "Introduce las tarifas en gwei, p. ej. {example}",
+  "cost.zeroMaxFee": "La tarifa máxima debe ser mayor que cero.",
+  "cost.tipAboveMax":
+    "La tarifa de prioridad no puede superar la tarifa máxima.",
+  "cost.belowBaseFee":
+    "Tu tarifa máxima está por debajo de la tarifa base actual; la transacción esperará hasta que bajen las tarifas.",
+
+  "walletPicker.title": "Elige una billetera",
+  "walletPicker.none":
+    "No se detectó ninguna billetera. Instala una extensión de billetera para el navegador (p. ej. MetaMask, Rabby, Phantom) y recarga la página.",
+
+  "gallery.title": "Mis {tokens}",
+  "gallery.loading": "Cargando tus {tokens}...",
+  "gallery.empty": "Todavía no tienes ningún {tokens}.",
+  "gallery.failed": "No se pudieron cargar tus tokens",
+  "gallery.unlisted": {
+    one: "No se pudo listar {count} token más de esta billetera.",
+    other: "No se pudieron listar {count} tokens más de esta billetera.",
+  },
+
+  "feed.title": "Minteos en vivo",
+  "feed.loading": "Cargando minteos recientes...",
+  "feed.empty": "Todavía no hay minteos recientes.",
+  "feed.minted": "{minter} minteó {token}",
+
+  "holder.title": "Sala de holders",
+  "holder.signInPrompt":
+    "Inicia sesión con tu billetera para demostrar que tienes un {token}. Firmar es gratis y no envía ninguna transacción.",
+  "holder.checkWallet": "Revisa tu billetera...",
+  "holder.signIn": "Iniciar sesión con Ethereum",
+  "holder.checking": "Comprobando tus {tokens}...",
+  "holder.signedIn": "Sesión iniciada como {address} ⭐ {count} {tokens}",
+  "holder.notHolder":
+    "{address} todavía no tiene ningún {token}. Mintea uno para entrar.",
+  "holder.signOut": "Cerrar sesión",
+  "siwe.statement":
+    "Inicia sesión en {collection} para desbloquear las funciones para holders.",
+  "siwe.failed": "No se pudo iniciar sesión. Vuelve a intentarlo.",
+  "siwe.malformed":
+    "El mensaje de inicio de sesión no es válido. Vuelve a intentarlo.",
+  "siwe.domain": "El mensaje de inicio de sesión se creó para otro sitio.",
+  "siwe.nonce":
+    "La solicitud de inicio de sesión está desactualizada. Vuelve a intentarlo.",
+  "siwe.chain": "No se acepta el inicio de sesión en esta red.",
+  "siwe.expired":
+    "El mensaje de inicio de sesión ha caducado. Vuelve a intentarlo.",
+  "siwe.notYetValid":
+    "El mensaje de inicio de sesión aún no es válido. Revisa el reloj de tu dispositivo.",
+  "siwe.signature": "La firma no coincide con tu billetera.",
+
+  "stats.failed": "No se pudieron cargar las estadísticas de la colección",
+  "stats.indexing": "Indexando minteos y transferencias...",
+  "stats.none": "Todavía no hay estadísticas.",
+  "stats.minted": "Minteados",
+  "stats.uniqueHolders": "Holders únicos",
+  "stats.held": "En manos",
+  "stats.distribution": "Distribución de holders",
+  "stats.noHolders": "Todavía no hay holders.",
+  "stats.wallets": { one: "{count} billetera", other: "{count} billeteras" },
+  "stats.velocity": "Ritmo de minteo",
+  "stats.chart": "Minteos a lo largo del tiempo",
+  "stats.bucket": "{date}: {count} minteados",
+  "stats.noMints": "Todavía no hay minteos.",
+  "stats.perDays": "cada {count} d",
+  "stats.perHours": "cada {count} h",
+  "stats.topHolders": "Principales holders",
+  "stats.heldCount": "{count} en manos",
+  "stats.topMinters": "Principales minteadores",
+  "stats.mintedCount": "{count} minteados",
+  "stats.recentTransfers": "Transferencias recientes",
+  "stats.noTransfers": "Todavía no hay transferencias.",
+  "stats.burned": "quemado",
+  "stats.indexedThrough": "Indexado hasta el bloque {block}.",
+  "stats.partial":
+    "Mostrando la actividad desde el bloque {from} hasta el {to}.",
+
+  "token.lookupLabel": "ID del token",
+  "token.lookupPlaceholder": "ID del token (p. ej. {id})",
+  "token.lookUp": "Buscar",
+  "token.loading": "Cargando el token...",
+  "token.failed": "No se pudo cargar este token",
+  "token.missing":
+    "{token} #{id} no existe (todavía no se ha minteado o se quemó).",
+  "token.description": "{token} #{id} de la colección {collection}.",
+  "token.metadataUnavailable": "Metadatos no disponibles",
+  "token.noImage": "Sin imagen",
+  "token.imageLoading": "Cargando...",
+  "token.fallbackAlt": "Token #{id}",
+  "token.owner": "Dueño",
+  "token.ownerYou": "(tú)",
+  "token.contract": "Contrato en el explorador",
+  "token.metadataJson": "JSON de metadatos",
+  "token.projectPage": "Página del proyecto",
+
+  "transfer.sent": "Enviaste {token} a {address}.",
+  "transfer.viewTx": "Ver la transacción",
+  "transfer.sendTo": "Enviar a",
+  "transfer.placeholder": "0x... o nombre.eth",
+  "transfer.recipient": "Destinatario:",
+  "transfer.recipientNamed": "Destinatario ({name}):",
+  "transfer.contractWarning":
+    "Esta dirección es un contrato, no una billetera. Si no admite NFTs, la transferencia se revertirá; si nadie lo controla, el {token} se perderá. Sé que este contrato acepta {tokens}.",
+  "transfer.inWallet": "Confirma la transferencia en tu billetera...",
+  "transfer.pending": "Transferencia enviada, esperando la confirmación...",
+  "transfer.send": "Enviar #{id}",
+  "transfer.checking": "Comprobando...",
+  "transfer.review": "Revisar la transferencia",
+  "transfer.checkFailed":
+    "No se pudo comprobar ese destinatario. Vuelve a intentarlo.",
+  "transfer.failedOnChain": "La transferencia falló en la cadena.",
+  "recipient.empty": "Introduce un destinatario.",
+  "recipient.notAddress": "Introduce una dirección 0x (42 caracteres).",
+  "recipient.badChecksum":
+    "La suma de verificación de esta dirección no cuadra. Revisa si hay errores o vuelve a pegarla.",
+  "recipient.noNameService":
+    "{chain} no tiene servicio de nombres. Pega una dirección 0x.",
+  "recipient.unresolved": "{name} no se resuelve a ninguna dirección.",
+  "recipient.zero": "Enviarlo a la dirección cero quemaría el token.",
+  "recipient.self": "Esa es la billetera que ya tiene este token.",
+  "recipient.collection":
+    "Ese es el contrato de la propia colección; el token se quedaría atascado ahí.",
+
+  "reveal.title": "Tus nuevos {tokens}",
+  "reveal.download": "Descargar tarjeta",
+  "reveal.share": "Compartir",
+  "reveal.shareText": "¡Acabo de mintear {title} de {collection}!",
+  "reveal.cardFailed": "No se pudo crear la tarjeta",
+  "reveal.mintedOn": "Minteado en {chain}",
+  "reveal.imageUnavailable": "Imagen no disponible",
+
+  "admin.readFailed": "(error de lectura)",
+  "admin.sending": "Enviando {fn}...",
+  "admin.waiting": "Esperando la confirmación de {fn}...",
+  "admin.confirmed": "{fn} confirmada",
+  "admin.parameters": "Parámetros del contrato",
+  "admin.transferOwnership": "Transferir la propiedad",
+  "admin.newOwner": "Dirección del nuevo propietario",
+  "admin.confirmOwner": "Vuelve a escribir la dirección para confirmar",
+  "admin.renounce": "Renunciar a la propiedad",
+  "admin.renounceWarning":
+    "Deja el contrato sin propietario. Las funciones exclusivas del propietario quedarán inutilizables para siempre. No se puede deshacer.",
+  "admin.renouncePhrase": "Escribe {phrase} para activar",
+  "admin.renounceConfirm": "Haz clic de nuevo para renunciar para siempre",
+  "admin.ownerFunctions": "Funciones del propietario",
+  "admin.value": "valor ({currency})",
+  "admin.send": "Enviar {fn}",
+  "admin.invalidParam": "{param}: introduce un {type} válido",
+  "admin.invalidValue": "valor: introduce un importe en {currency}",
+};
+
+export default es;
@@ -0,0 +1,57 @@
+import { Component } from "react";
+import type { ErrorInfo, ReactNode } from "react";
+import { createLogger } from "./logger";
+import { getLocale, translate } from "../i18n/i18n";
+
+const log = createLogger("app");
+
+interface ErrorBoundaryProps {
+  children: ReactNode;
+}
+
+interface ErrorBoundaryState {
+  error: Error | null;
+}
+
+/** Logs render errors and shows a reload prompt instead of a blank page. */
+export default class ErrorBoundary extends Component<
+  ErrorBoundaryProps,
+  ErrorBoundaryState
+> {
+  state: ErrorBoundaryState = { error: null };
+
+  static getDerivedStateFromError(error: Error): ErrorBoundaryState {
+    return { error };
+  }
+
+  componentDidCatch(error: Error, info: ErrorInfo) {
+    log.error("Render crashed", {
+      error,
+      componentStack: info.componentStack ?? undefined,
+    });
+  }
+
+  render() {
+    if (!this.state.error) return this.props.children;
+    // A class can't use the hook; the locale can't change while this shows
+    const locale = getLocale();
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-black text-white p-6">
+        <div className="max-w-md text-center">
+          <h1 className="text-2xl font-bold mb-2">
+            {translate(locale, "crash.title")}
+          </h1>
+          <p className="text-sm text-gray-300 mb-4">
+            {translate(locale, "crash.body")}
+          </p>
+          <button
+            onClick={() => window.location.reload()}
+            className="px-5 py-2 bg-accent rounded hover:bg-accent-hover"
+          >
+            {translate(locale, "crash.reload")}
+          </button>
+        </div>
+      </div>
+    );
+  }
+}
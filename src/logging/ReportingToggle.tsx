@@ -0,0 +1,23 @@
+import { useState } from "react";
+import { isReportingOptedOut, setReportingOptOut } from "./reporter";
+import { useI18n } from "../i18n/i18n";
+
+/** Footer opt-out for error reporting; the choice persists across visits. */
+export default function ReportingToggle() {
+  const { t } = useI18n();
+  const [enabled, setEnabled] = useState(() => !isReportingOptedOut());
+
+  return (
+    <label className="inline-flex items-center gap-1 text-xs text-gray-400">
+      <input
+        type="checkbox"
+        checked={enabled}
+        onChange={(e) => {
+          setReportingOptOut(!e.target.checked);
+          setEnabled(e.target.checked);
+        }}
+      />
+      {t("footer.reporting")}
+    </label>
+  );
+}
@@ -0,0 +1,13 @@
+import { createLogger } from "./logger";
+
+const log = createLogger("app");
+
+/** Log errors that escape React: uncaught exceptions and rejected promises. */
+export function installGlobalErrorHandlers() {
+  window.addEventListener("error", (e) => {
+    log.error("Uncaught error", { error: e.error ?? e.message });
+  });
+  window.addEventListener("unhandledrejection", (e) => {
+    log.error("Unhandled promise rejection", { error: e.reason });
+  });
+}
@@ -0,0 +1,31 @@
+import { classifyTxError } from "../errors/decodeError";
+import type { TxError, TxErrorNames } from "../errors/decodeError";
+import type { LogContext, Logger } from "./logger";
+
+/**
+ * Log a failed transaction at a level matching its cause: a wallet rejection
+ * is the user's choice (info), a revert or bad input is expected noise
+ * (warn), anything else is worth a look (error). Returns the classified error.
+ */
+export function logTxError(
+  log: Logger,
+  message: string,
+  error: unknown,
+  context: LogContext = {},
+  names?: TxErrorNames
+): TxError {
+  const txErr = classifyTxError(error, names);
+  const level =
+    txErr.category === "user-rejected"
+      ? "info"
+      : txErr.category === "revert" || txErr.category === "insufficient-funds"
+      ? "warn"
+      : "error";
+  log[level](message, {
+    ...context,
+    category: txErr.category,
+    reason: txErr.message,
+    error: txErr.cause ?? error,
+  });
+  return txErr;
+}
@@ -0,0 +1,107 @@
+// Leveled, structured logging. Every event carries a scope (the module it
+// came from) and a context object; the shared context (account, chain) set
+// with setLogContext is merged into each one. Events go to the console and to
+// any extra sinks, e.g. the batching reporter in reporter.ts.
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+export interface LogContext {
+  account?: string | null;
+  chainId?: number;
+  txHash?: string;
+  mintStep?: string;
+  error?: unknown;
+  [key: string]: unknown;
+}
+
+export interface LogEvent {
+  level: LogLevel;
+  scope: string;
+  message: string;
+  context: LogContext;
+  time: string; // ISO 8601
+}
+
+export type LogSink = (event: LogEvent) => void;
+
+export interface Logger {
+  debug(message: string, context?: LogContext): void;
+  info(message: string, context?: LogContext): void;
+  warn(message: string, context?: LogContext): void;
+  error(message: string, context?: LogContext): void;
+}
+
+export const LEVELS: Record<LogLevel, number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+};
+
+export function isLogLevel(value: unknown): value is LogLevel {
+  return typeof value === "string" && value in LEVELS;
+}
+
+// import.meta.env is Vite-only; scripts run under tsx share some modules
+const env: Partial<ImportMetaEnv> = import.meta.env ?? {};
+let consoleLevel: LogLevel = isLogLevel(env.VITE_LOG_LEVEL)
+  ? env.VITE_LOG_LEVEL
+  : env.PROD
+  ? "warn"
+  : "debug";
+let sharedContext: LogContext = {};
+const sinks = new Set<LogSink>();
+
+/** Merge into the context attached to every event; undefined clears a key. */
+export function setLogContext(context: LogContext) {
+  const next = { ...sharedContext, ...context };
+  for (const key of Object.keys(next)) {
+    if (next[key] === undefined) delete next[key];
+  }
+  sharedContext = next;
+}
+
+export function setConsoleLevel(level: LogLevel) {
+  consoleLevel = level;
+}
+
+/** Receive every event regardless of the console level; returns a remover. */
+export function addLogSink(sink: LogSink) {
+  sinks.add(sink);
+  return () => {
+    sinks.delete(sink);
+  };
+}
+
+function emit(level: LogLevel, scope: string, message: string, context = {}) {
+  const event: LogEvent = {
+    level,
+    scope,
+    message,
+    context: { ...sharedContext, ...context },
+    time: new Date().toISOString(),
+  };
+  if (LEVELS[level] >= LEVELS[consoleLevel]) {
+    const { error, ...rest } = context as LogContext;
+    const args: unknown[] = [`[${scope}] ${message}`];
+    if (Object.keys(rest).length) args.push(rest);
+    if (error !== undefined) args.push(error);
+    console[level](...args);
+  }
+  for (const sink of sinks) {
+    try {
+      sink(event);
+    } catch {
+      // a broken sink must never take the app down with it
+    }
+  }
+}
+
+export function createLogger(scope: string): Logger {
+  return {
+    debug: (message, context) => emit("debug", scope, message, context),
+    info: (message, context) => emit("info", scope, message, context),
+    warn: (message, context) => emit("warn", scope, message, context),
+    error: (message, context) => emit("error", scope, message, context),
+  };
+}
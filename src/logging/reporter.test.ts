@@ -0,0 +1,207 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { Interface } from "ethers";
+import contractABI from "../contractABI";
+import type { LogEvent } from "./logger";
+import {
+  BatchingReporter,
+  redact,
+  setReportingOptOut,
+  truncateAddresses,
+} from "./reporter";
+import type { ReportPayload } from "./reporter";
+
+const ADDRESS = "0x70997970C51812dc3A010C7d01b50e0d17dc79C8";
+
+function event(overrides: Partial<LogEvent> = {}): LogEvent {
+  return {
+    level: "error",
+    scope: "mint",
+    message: "Mint failed",
+    context: {},
+    time: "2025-06-01T12:00:00.000Z",
+    ...overrides,
+  };
+}
+
+function fakeFetch(ok = true) {
+  const bodies: ReportPayload[] = [];
+  const fetch = vi.fn(async (_url: RequestInfo | URL, init?: RequestInit) => {
+    bodies.push(JSON.parse(init!.body as string));
+    return new Response(null, { status: ok ? 204 : 503 });
+  });
+  return { fetch: fetch as unknown as typeof globalThis.fetch, bodies };
+}
+
+afterEach(() => setReportingOptOut(false));
+
+describe("redaction", () => {
+  it("truncates addresses wherever they appear", () => {
+    expect(truncateAddresses(`sent from ${ADDRESS}.`)).toBe(
+      "sent from 0x7099…79C8."
+    );
+    // A tx hash is longer than an address and left alone
+    const hash = `0x${"ab".repeat(32)}`;
+    expect(truncateAddresses(hash)).toBe(hash);
+  });
+
+  it("truncates addresses ABI-encoded in an ethers error's calldata", async () => {
+    const iface = new Interface(contractABI);
+    const tx = {
+      to: "0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC",
+      data: iface.encodeFunctionData("mintedCount", [ADDRESS]),
+    };
+    // What a reverted mintedCount(account) read throws
+    const err = iface.makeError("0x", tx);
+    expect(err.code).toBe("CALL_EXCEPTION");
+    expect(err.message).toContain(ADDRESS.slice(2).toLowerCase());
+
+    const { fetch, bodies } = fakeFetch();
+    const reporter = new BatchingReporter({
+      endpoint: "http://sink/logs",
+      fetch,
+    });
+    reporter.report(event({ message: err.message, context: { error: err } }));
+    await reporter.flush();
+    const sent = JSON.stringify(bodies[0]).toLowerCase();
+    expect(sent).not.toContain(ADDRESS.slice(2).toLowerCase());
+    // The selector and the truncated word still show what was called
+    expect(truncateAddresses(tx.data)).toBe(
+      `${tx.data.slice(0, 10)}${"0".repeat(24)}7099…79c8`
+    );
+  });
+
+  it("leaves small numbers in calldata alone", () => {
+    const data = `0x${"0".repeat(63)}5`;
+    expect(truncateAddresses(data)).toBe(data);
+  });
+
+  it("makes context JSON-safe", () => {
+    const err = Object.assign(new Error(`bad owner ${ADDRESS}`), {
+      code: "CALL_EXCEPTION",
+    });
+    const out = redact({ account: ADDRESS, value: 10n, error: err }) as {
+      account: string;
+      value: string;
+      error: { name: string; message: string; code: string };
+    };
+    expect(out.account).toBe("0x7099…79C8");
+    expect(out.value).toBe("10");
+    expect(out.error).toMatchObject({
+      name: "Error",
+      message: "bad owner 0x7099…79C8",
+      code: "CALL_EXCEPTION",
+    });
+  });
+});
+
+describe("BatchingReporter", () => {
+  it("sends a batch once it reaches the batch size", async () => {
+    const { fetch, bodies } = fakeFetch();
+    const reporter = new BatchingReporter({
+      endpoint: "http://sink/logs",
+      batchSize: 2,
+      fetch,
+    });
+    reporter.report(event({ level: "debug" })); // below minLevel
+    reporter.report(event({ context: { account: ADDRESS } }));
+    expect(fetch).not.toHaveBeenCalled();
+    reporter.report(event({ level: "warn", message: "Slow RPC" }));
+    await vi.waitFor(() => expect(fetch).toHaveBeenCalledTimes(1));
+    expect(bodies[0].events.map((e) => e.message)).toEqual([
+      "Mint failed",
+      "Slow RPC",
+    ]);
+    expect(bodies[0].events[0].context.account).toBe("0x7099…79C8");
+  });
+
+  it("keeps a failed batch for the next flush", async () => {
+    const failing = fakeFetch(false);
+    const reporter = new BatchingReporter({
+      endpoint: "http://sink/logs",
+      fetch: failing.fetch,
+    });
+    reporter.report(event());
+    await reporter.flush();
+    expect(failing.fetch).toHaveBeenCalledTimes(1);
+    await reporter.flush();
+    expect(failing.bodies[1].events).toHaveLength(1);
+  });
+
+  it("retries a failed batch with backoff", async () => {
+    vi.useFakeTimers();
+    try {
+      const failing = fakeFetch(false);
+      const reporter = new BatchingReporter({
+        endpoint: "http://sink/logs",
+        flushMs: 20,
+        fetch: failing.fetch,
+      });
+      reporter.report(event());
+      await vi.advanceTimersByTimeAsync(20);
+      expect(failing.fetch).toHaveBeenCalledTimes(1);
+      // Retried without another report, waiting 20ms then 40ms
+      await vi.advanceTimersByTimeAsync(19);
+      expect(failing.fetch).toHaveBeenCalledTimes(1);
+      await vi.advanceTimersByTimeAsync(1);
+      expect(failing.fetch).toHaveBeenCalledTimes(2);
+      await vi.advanceTimersByTimeAsync(39);
+      expect(failing.fetch).toHaveBeenCalledTimes(2);
+      await vi.advanceTimersByTimeAsync(1);
+      expect(failing.fetch).toHaveBeenCalledTimes(3);
+      expect(failing.bodies[2].events).toHaveLength(1);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("drops a failed batch that no longer fits behind newer events", async () => {
+    let settle!: (res: Response) => void;
+    const bodies: ReportPayload[] = [];
+    const fetch = vi.fn(async (_url: RequestInfo | URL, init?: RequestInit) => {
+      bodies.push(JSON.parse(init!.body as string));
+      if (bodies.length > 1) return new Response(null, { status: 204 });
+      return new Promise<Response>((resolve) => (settle = resolve));
+    }) as unknown as typeof globalThis.fetch;
+    const reporter = new BatchingReporter({
+      endpoint: "http://sink/logs",
+      batchSize: 1_000,
+      fetch,
+    });
+    reporter.report(event({ message: "old" }));
+    const sending = reporter.flush();
+    // The queue refills to its cap while the first send is in flight
+    for (let i = 0; i < 150; i++) reporter.report(event({ message: "new" }));
+    settle(new Response(null, { status: 503 }));
+    await sending;
+    await reporter.flush();
+    expect(bodies[1].events).toHaveLength(100);
+    expect(bodies[1].events.every((e) => e.message === "new")).toBe(true);
+  });
+
+  it("drops events while the user has opted out", async () => {
+    const { fetch } = fakeFetch();
+    const reporter = new BatchingReporter({
+      endpoint: "http://sink/logs",
+      fetch,
+    });
+    setReportingOptOut(true);
+    reporter.report(event());
+    await reporter.flush();
+    expect(fetch).not.toHaveBeenCalled();
+    expect(localStorage.getItem("shramp:reportingOptOut")).toBe("1");
+  });
+
+  it("hands the queue to sendBeacon on unload", () => {
+    const { fetch } = fakeFetch();
+    const sendBeacon = vi.fn(() => true);
+    const reporter = new BatchingReporter({
+      endpoint: "http://sink/logs",
+      fetch,
+      sendBeacon,
+    });
+    reporter.report(event());
+    reporter.flushOnUnload();
+    expect(sendBeacon).toHaveBeenCalledTimes(1);
+    expect(fetch).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,223 @@
+import { LEVELS, addLogSink, isLogLevel } from "./logger";
+import type { LogContext, LogEvent, LogLevel } from "./logger";
+
+// Ships log events to an HTTP endpoint (VITE_LOG_ENDPOINT) in batches.
+// Reports never contain full wallet addresses, and users can opt out; see
+// scripts/log-sink.ts for a local endpoint to develop against.
+
+export interface ReportPayload {
+  app: string;
+  session: string; // random per page load, ties a batch's events together
+  url: string; // path only, no query or hash
+  events: LogEvent[];
+}
+
+export interface ReporterOptions {
+  endpoint: string;
+  minLevel?: LogLevel;
+  batchSize?: number;
+  flushMs?: number;
+  // Injectable for tests
+  fetch?: typeof fetch;
+  sendBeacon?: (url: string, body: string) => boolean;
+}
+
+const OPT_OUT_KEY = "shramp:reportingOptOut";
+const MAX_QUEUE = 100;
+// Failed sends are retried, doubling flushMs each time up to this
+const MAX_RETRY_MS = 60_000;
+const MAX_DEPTH = 4;
+const ADDRESS = /0x[0-9a-fA-F]{40}(?![0-9a-fA-F])/g;
+// Calldata and return data, which ethers errors embed in their message
+const HEX_BLOB = /0x[0-9a-fA-F]{64,}/g;
+// An ABI word holding an address: 12 zero bytes, then one that isn't a small
+// number (those start with zeros too)
+const PADDED_ADDRESS = /^0{24}(?!0{8})[0-9a-fA-F]{40}$/;
+
+/** `blob` with every address-shaped 32-byte word cut to its ends. */
+function truncateWords(blob: string) {
+  const body = blob.slice(2);
+  const start = body.length % 64; // the function selector, if any
+  let out = `0x${body.slice(0, start)}`;
+  for (let i = start; i < body.length; i += 64) {
+    const word = body.slice(i, i + 64);
+    out += PADDED_ADDRESS.test(word)
+      ? `${word.slice(0, 28)}…${word.slice(-4)}`
+      : word;
+  }
+  return out;
+}
+
+/**
+ * 0x1234…abcd: enough to tell wallets apart in a report, not to identify one.
+ * Covers plain addresses and ABI-encoded ones inside calldata.
+ */
+export function truncateAddresses(text: string) {
+  return text
+    .replace(HEX_BLOB, truncateWords)
+    .replace(ADDRESS, (a) => `${a.slice(0, 6)}…${a.slice(-4)}`);
+}
+
+function serializeError(err: Error, depth: number): Record<string, unknown> {
+  const e = err as Error & { code?: unknown; category?: unknown };
+  return {
+    name: e.name,
+    message: truncateAddresses(e.message),
+    ...(e.code !== undefined && { code: redact(e.code, depth + 1) }),
+    ...(e.category !== undefined && { category: e.category }),
+    ...(e.stack && { stack: truncateAddresses(e.stack) }),
+  };
+}
+
+/** JSON-safe copy of `value` with addresses truncated and bigints as strings. */
+export function redact(value: unknown, depth = 0): unknown {
+  if (typeof value === "string") return truncateAddresses(value);
+  if (typeof value === "bigint") return value.toString();
+  if (value === null || typeof value !== "object") {
+    return typeof value === "function" ? undefined : value;
+  }
+  if (depth >= MAX_DEPTH) return "[…]";
+  if (value instanceof Error) return serializeError(value, depth);
+  if (Array.isArray(value)) return value.map((v) => redact(v, depth + 1));
+  const out: Record<string, unknown> = {};
+  for (const [k, v] of Object.entries(value)) out[k] = redact(v, depth + 1);
+  return out;
+}
+
+export function isReportingOptedOut() {
+  try {
+    return localStorage.getItem(OPT_OUT_KEY) === "1";
+  } catch {
+    return false;
+  }
+}
+
+export function setReportingOptOut(optOut: boolean) {
+  try {
+    if (optOut) localStorage.setItem(OPT_OUT_KEY, "1");
+    else localStorage.removeItem(OPT_OUT_KEY);
+  } catch {
+    // storage unavailable; the choice lasts for this page load only
+  }
+  reportingOptOut = optOut;
+}
+
+let reportingOptOut = isReportingOptedOut();
+
+/** Queues events at or above `minLevel` and POSTs them in batches. */
+export class BatchingReporter {
+  private queue: LogEvent[] = [];
+  private timer: ReturnType<typeof setTimeout> | undefined;
+  private failures = 0; // consecutive failed sends
+  private readonly session = crypto.randomUUID();
+  private readonly opts: Required<
+    Omit<ReporterOptions, "sendBeacon" | "fetch">
+  > &
+    Pick<ReporterOptions, "sendBeacon" | "fetch">;
+
+  constructor(opts: ReporterOptions) {
+    this.opts = { minLevel: "warn", batchSize: 20, flushMs: 5_000, ...opts };
+  }
+
+  report(event: LogEvent) {
+    if (reportingOptOut) return;
+    if (LEVELS[event.level] < LEVELS[this.opts.minLevel]) return;
+    this.queue.push({
+      ...event,
+      message: truncateAddresses(event.message),
+      context: redact(event.context) as LogContext,
+    });
+    // Under a flood keep the newest events
+    if (this.queue.length > MAX_QUEUE)
+      this.queue.splice(0, this.queue.length - MAX_QUEUE);
+    // While backing off, a full batch waits for the retry like the rest
+    if (this.queue.length >= this.opts.batchSize && !this.failures) {
+      void this.flush();
+    } else {
+      this.timer ??= setTimeout(() => void this.flush(), this.opts.flushMs);
+    }
+  }
+
+  private payload(events: LogEvent[]): string {
+    const body: ReportPayload = {
+      app: "shramp-nft",
+      session: this.session,
+      url: typeof location === "undefined" ? "" : location.pathname,
+      events,
+    };
+    return JSON.stringify(body);
+  }
+
+  /**
+   * Send everything queued. A failed batch goes back on the front of the
+   * queue, as much of it as still fits, and is retried with backoff.
+   */
+  async flush() {
+    clearTimeout(this.timer);
+    this.timer = undefined;
+    const events = this.queue.splice(0);
+    if (events.length === 0) return;
+    const doFetch = this.opts.fetch ?? fetch;
+    try {
+      const res = await doFetch(this.opts.endpoint, {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: this.payload(events),
+        keepalive: true,
+      });
+      if (!res.ok) throw new Error(`HTTP ${res.status}`);
+      this.failures = 0;
+    } catch {
+      // Not logged: that would report the reporter's own failure in a loop
+      const keep = Math.max(0, MAX_QUEUE - this.queue.length);
+      this.queue.unshift(...(keep ? events.slice(-keep) : []));
+      const delay = Math.min(
+        this.opts.flushMs * 2 ** this.failures++,
+        MAX_RETRY_MS
+      );
+      clearTimeout(this.timer);
+      this.timer = setTimeout(() => void this.flush(), delay);
+    }
+  }
+
+  /** Page is going away: hand the queue to sendBeacon, which outlives it. */
+  flushOnUnload() {
+    const events = this.queue.splice(0);
+    if (events.length === 0) return;
+    const beacon =
+      this.opts.sendBeacon ??
+      (typeof navigator !== "undefined" && navigator.sendBeacon
+        ? (url: string, body: string) =>
+            navigator.sendBeacon(
+              url,
+              new Blob([body], { type: "application/json" })
+            )
+        : undefined);
+    if (!beacon?.(this.opts.endpoint, this.payload(events))) {
+      void this.flush();
+    }
+  }
+}
+
+/**
+ * Start reporting to VITE_LOG_ENDPOINT, if configured. Returns the reporter
+ * (or null when reporting is off) so callers can flush it.
+ */
+export function installReporter(): BatchingReporter | null {
+  const env = import.meta.env;
+  if (!env.VITE_LOG_ENDPOINT) return null;
+  const reporter = new BatchingReporter({
+    endpoint: env.VITE_LOG_ENDPOINT,
+    minLevel: isLogLevel(env.VITE_LOG_REPORT_LEVEL)
+      ? env.VITE_LOG_REPORT_LEVEL
+      : "warn",
+  });
+  addLogSink((event) => reporter.report(event));
+  window.addEventListener("pagehide", () => reporter.flushOnUnload());
+  document.addEventListener("visibilitychange", () => {
+    if (document.visibilityState === "hidden") reporter.flushOnUnload();
+  });
+  return reporter;
+}
+
+export const reportingConfigured = Boolean(import.meta.env?.VITE_LOG_ENDPOINT);
@@ -0,0 +1,160 @@
+import { useState } from "react";
+import { parseUnits } from "ethers";
+import type { ChainConfig } from "../chains/registry";
+import { useI18n } from "../i18n/i18n";
+import type { MessageKey } from "../i18n/i18n";
+import { validateFeeCaps } from "./mintCost";
+import type { FeeCaps, MintCost } from "./mintCost";
+
+interface CostPreviewProps {
+  chain: ChainConfig;
+  cost: MintCost | null;
+  error: MessageKey | null;
+  caps: FeeCaps;
+  onCapsChange: (caps: FeeCaps) => void;
+}
+
+export default function CostPreview({
+  chain,
+  cost,
+  error,
+  caps,
+  onCapsChange,
+}: CostPreviewProps) {
+  const { t, formatAmount, formatAmountInput, formatNumber, parseDecimal } =
+    useI18n();
+  const { symbol, decimals } = chain.nativeCurrency;
+  const native = (wei: bigint) => `${formatAmount(wei, decimals, 6)} ${symbol}`;
+  const formatGwei = (wei: bigint) => formatAmount(wei, 9, 3);
+  const parseGwei = (text: string): bigint | undefined | null => {
+    if (!text.trim()) return undefined;
+    try {
+      return parseUnits(parseDecimal(text), "gwei");
+    } catch {
+      return null;
+    }
+  };
+  const gweiInput = (wei: bigint | undefined) =>
+    wei !== undefined ? formatAmountInput(wei, 9, 3) : "";
+  const [maxFeeText, setMaxFeeText] = useState(gweiInput(caps.maxFeePerGas));
+  const [tipText, setTipText] = useState(gweiInput(caps.maxPriorityFeePerGas));
+  const [capsError, setCapsError] = useState<MessageKey | null>(null);
+  const gwei = (wei: bigint) => t("cost.gwei", { amount: formatGwei(wei) });
+
+  function updateCaps(nextMaxFee: string, nextTip: string) {
+    setMaxFeeText(nextMaxFee);
+    setTipText(nextTip);
+    const maxFeePerGas = parseGwei(nextMaxFee);
+    const maxPriorityFeePerGas = parseGwei(nextTip);
+    if (maxFeePerGas === null || maxPriorityFeePerGas === null) {
+      setCapsError("cost.enterGwei");
+      return;
+    }
+    const next = { maxFeePerGas, maxPriorityFeePerGas };
+    const invalid = validateFeeCaps(next);
+    setCapsError(invalid);
+    // Keep sending with the last valid caps until these are fixed
+    if (!invalid) onCapsChange(next);
+  }
+
+  const rows: [string, string][] = cost
+    ? [
+        [t("cost.price"), native(cost.priceWei)],
+        [
+          t("cost.gas"),
+          cost.gasUnits !== null
+            ? formatNumber(cost.gasUnits)
+            : t("cost.unavailable"),
+        ],
+        [
+          t("cost.baseFee"),
+          cost.baseFeePerGas !== null
+            ? gwei(cost.baseFeePerGas)
+            : t("cost.notApplicable"),
+        ],
+        [t("cost.priorityFee"), gwei(cost.maxPriorityFeePerGas)],
+        [
+          t("cost.networkFee"),
+          cost.estimatedFee !== null
+            ? t("cost.estimate", {
+                estimate: native(cost.estimatedFee),
+                max: native(cost.maxFee!),
+              })
+            : t("cost.unavailable"),
+        ],
+        [t("cost.maxTotal"), native(cost.maxTotal)],
+        [t("cost.balance"), native(cost.balance)],
+      ]
+    : [];
+  const insufficient = cost !== null && cost.balance < cost.maxTotal;
+  const belowBaseFee =
+    cost !== null &&
+    caps.maxFeePerGas !== undefined &&
+    cost.baseFeePerGas !== null &&
+    caps.maxFeePerGas < cost.baseFeePerGas;
+
+  return (
+    <div className="mb-4 p-3 bg-white/5 rounded text-xs md:text-sm">
+      {error && <p className="text-red-300">{t(error)}</p>}
+      {!cost && !error && (
+        <p className="text-gray-400">{t("cost.estimating")}</p>
+      )}
+      {cost && (
+        <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1">
+          {rows.map(([label, value]) => (
+            <div key={label} className="contents">
+              <dt className="text-gray-400">{label}</dt>
+              <dd className="text-right font-mono">{value}</dd>
+            </div>
+          ))}
+        </dl>
+      )}
+      {insufficient && (
+        <p className="mt-2 text-red-300">{t("cost.insufficient")}</p>
+      )}
+      {cost && cost.gasUnits === null && !insufficient && (
+        <p className="mt-2 text-yellow-200">{t("cost.noGasEstimate")}</p>
+      )}
+
+      <details className="mt-2">
+        <summary className="cursor-pointer text-gray-300">
+          {t("cost.feeCaps")}
+        </summary>
+        <div className="mt-2 flex flex-col sm:flex-row gap-2">
+          <label className="flex items-center gap-2">
+            <span className="text-gray-400">{t("cost.maxFee")}</span>
+            <input
+              aria-label={t("cost.maxFeeLabel")}
+              inputMode="decimal"
+              placeholder={t("cost.auto")}
+              value={maxFeeText}
+              onChange={(e) => updateCaps(e.target.value, tipText)}
+              className="w-24 px-2 py-1 bg-gray-700 text-white rounded"
+            />
+            <span className="text-gray-400">gwei</span>
+          </label>
+          <label className="flex items-center gap-2">
+            <span className="text-gray-400">{t("cost.priorityFee")}</span>
+            <input
+              aria-label={t("cost.priorityFeeLabel")}
+              inputMode="decimal"
+              placeholder={t("cost.auto")}
+              value={tipText}
+              onChange={(e) => updateCaps(maxFeeText, e.target.value)}
+              className="w-24 px-2 py-1 bg-gray-700 text-white rounded"
+            />
+            <span className="text-gray-400">gwei</span>
+          </label>
+        </div>
+        {capsError && (
+          <p className="mt-1 text-red-300">
+            {t(capsError, { example: formatGwei(52_500_000_000n) })}
+          </p>
+        )}
+        {belowBaseFee && (
+          <p className="mt-1 text-yellow-200">{t("cost.belowBaseFee")}</p>
+        )}
+      </details>
+    </div>
+  );
+}
@@ -0,0 +1,147 @@
+import { explorerTxUrl } from "../chains/registry";
+import type { ChainConfig } from "../chains/registry";
+import { TxError } from "../errors/decodeError";
+import { useI18n } from "../i18n/i18n";
+import { isCancellable } from "./mintMachine";
+import type { MintState, MintStep } from "./mintMachine";
+
+interface MintStepsProps {
+  chain: ChainConfig;
+  state: MintState;
+  onRetry: () => void;
+  onCancel: () => void;
+  onDismiss: () => void;
+}
+
+const STEPS = [
+  "validating",
+  "simulating",
+  "awaitingSignature",
+  "submitted",
+  "confirming",
+] as const satisfies readonly MintStep[];
+
+function stepMessage(
+  state: MintState,
+  t: ReturnType<typeof useI18n>["t"]
+): string {
+  switch (state.step) {
+    case "idle":
+      return "";
+    case "validating":
+    case "simulating":
+    case "submitted":
+    case "confirming":
+      return t(`mintStatus.${state.step}`);
+    case "awaitingSignature":
+      return t(state.note ?? "mintStatus.awaitingSignature");
+    case "success": {
+      const ids = state.tokenIds.map((id) => `#${id}`).join(", ");
+      return (
+        t("mintStatus.success", { count: state.quantity }) +
+        (ids ? ` (${ids})` : "") +
+        (state.replaced ? ` ${t("mintStatus.replaced")}` : "")
+      );
+    }
+    case "failed":
+      return state.error instanceof TxError && state.error.suggestion
+        ? `${t(state.error.text)} ${t(state.error.suggestion)}`
+        : t(state.error.text);
+  }
+}
+
+export default function MintSteps({
+  chain,
+  state,
+  onRetry,
+  onCancel,
+  onDismiss,
+}: MintStepsProps) {
+  const { t } = useI18n();
+  if (state.step === "idle") return null;
+
+  const failed = state.step === "failed";
+  // A failed attempt keeps showing how far it got
+  const current = failed ? state.at : state.step;
+  const reached =
+    current === "success"
+      ? STEPS.length
+      : STEPS.findIndex((step) => step === current);
+  const hash = "hash" in state ? state.hash : undefined;
+  // Retrying can't help when the contract or the limits refuse the mint
+  const retryable =
+    failed &&
+    state.error instanceof TxError &&
+    state.error.category !== "revert";
+
+  return (
+    <div className="mb-6 text-xs md:text-sm">
+      <ol className="flex gap-1 mb-2">
+        {STEPS.map((step, i) => (
+          <li
+            key={step}
+            className={`flex-1 text-center py-1 rounded ${
+              i < reached
+                ? "bg-green-500/70"
+                : i === reached
+                ? failed
+                  ? "bg-red-600/70"
+                  : "bg-accent animate-pulse"
+                : "bg-white/10 text-gray-400"
+            }`}
+          >
+            {t(`mintSteps.${step}`)}
+          </li>
+        ))}
+      </ol>
+      <div
+        className={`flex flex-col sm:flex-row sm:items-center gap-2 ${
+          failed ? "text-red-300" : "text-gray-300"
+        }`}
+      >
+        <span>
+          {stepMessage(state, t)}
+          {hash && (
+            <>
+              {" "}
+              <a
+                href={explorerTxUrl(chain, hash)}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="underline hover:text-blue-300"
+              >
+                {hash.slice(0, 10)}...
+              </a>
+            </>
+          )}
+        </span>
+        <div className="flex gap-2 sm:ml-auto">
+          {isCancellable(state) && (
+            <button
+              onClick={onCancel}
+              className="px-3 py-1 rounded bg-white/10 hover:bg-white/20"
+            >
+              {t("action.cancel")}
+            </button>
+          )}
+          {retryable && (
+            <button
+              onClick={onRetry}
+              className="px-3 py-1 rounded bg-accent hover:bg-accent-hover"
+            >
+              {t("action.retry")}
+            </button>
+          )}
+          {(failed || state.step === "success") && (
+            <button
+              onClick={onDismiss}
+              className="px-3 py-1 rounded bg-white/10 hover:bg-white/20"
+            >
+              {t("action.dismiss")}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,145 @@
+import { Interface } from "ethers";
+import type { FunctionFragment } from "ethers";
+import contractABI from "../contractABI";
+import { getContract } from "../contract";
+import { getReadRpc } from "../rpc/readProvider";
+import type { ChainConfig } from "../chains/registry";
+import {
+  allowlistMintArgs,
+  allowlistMintFragment,
+} from "../allowlist/allowlist";
+import type { AllowlistProof } from "../allowlist/merkle";
+import { fetchPhasePrice } from "../phases/schedule";
+import type { MintPhase } from "../phases/config";
+import type { MessageKey } from "../i18n/i18n";
+
+// What a mint will cost before the wallet is asked to sign: price, gas and
+// EIP-1559 fees, read from the chain rather than trusted to the wallet UI.
+
+// User-set EIP-1559 limits; unset fields fall back to the network's values
+export interface FeeCaps {
+  maxFeePerGas?: bigint;
+  maxPriorityFeePerGas?: bigint;
+}
+
+export interface MintCost {
+  priceWei: bigint; // mint price for the whole quantity
+  gasUnits: bigint | null; // null when the estimate failed
+  baseFeePerGas: bigint | null;
+  maxPriorityFeePerGas: bigint;
+  maxFeePerGas: bigint; // after caps
+  // Gas at base fee + tip, and at the max fee the wallet will reserve
+  estimatedFee: bigint | null;
+  maxFee: bigint | null;
+  maxTotal: bigint; // price + maxFee; what the balance must cover
+  balance: bigint;
+}
+
+const MINT_FRAGMENT = new Interface(contractABI).getFunction("mint")!;
+
+/** The contract function and arguments a mint of `quantity` calls. */
+export function mintCall(
+  phase: MintPhase | null,
+  allowlist: AllowlistProof | null,
+  quantity: number
+): { fn: FunctionFragment; args: unknown[] } {
+  // Allowlist phases mint through the contract's proof-checking function
+  if (phase?.kind === "allowlist" && allowlist && allowlistMintFragment) {
+    return {
+      fn: allowlistMintFragment,
+      args: allowlistMintArgs(allowlistMintFragment, quantity, allowlist),
+    };
+  }
+  return { fn: MINT_FRAGMENT, args: [quantity] };
+}
+
+/** Transaction overrides for the caps the user actually set. */
+export function feeOverrides(caps: FeeCaps): FeeCaps {
+  const overrides: FeeCaps = {};
+  if (caps.maxFeePerGas !== undefined) {
+    overrides.maxFeePerGas = caps.maxFeePerGas;
+  }
+  if (caps.maxPriorityFeePerGas !== undefined) {
+    overrides.maxPriorityFeePerGas = caps.maxPriorityFeePerGas;
+  }
+  return overrides;
+}
+
+/** Why `caps` can't be sent as-is, or null when they're usable. */
+export function validateFeeCaps(caps: FeeCaps): MessageKey | null {
+  const { maxFeePerGas, maxPriorityFeePerGas } = caps;
+  if (maxFeePerGas === 0n) return "cost.zeroMaxFee";
+  if (
+    maxFeePerGas !== undefined &&
+    maxPriorityFeePerGas !== undefined &&
+    maxPriorityFeePerGas > maxFeePerGas
+  ) {
+    return "cost.tipAboveMax";
+  }
+  return null;
+}
+
+/** Price, gas estimate, current fees and balance for minting `quantity`. */
+export async function fetchMintCost(
+  chain: ChainConfig,
+  opts: {
+    account: string;
+    phase: MintPhase;
+    allowlist: AllowlistProof | null;
+    quantity: number;
+    caps: FeeCaps;
+  }
+): Promise<MintCost> {
+  const { account, phase, allowlist, quantity, caps } = opts;
+  const rpc = getReadRpc(chain);
+  const price = await fetchPhasePrice(chain, phase);
+  const priceWei = price * BigInt(quantity);
+  const { fn, args } = mintCall(phase, allowlist, quantity);
+
+  const [gasUnits, feeData, block, balance] = await Promise.all([
+    // Fails when the mint would revert or the balance can't cover the value
+    rpc
+      .run((p) =>
+        getContract(chain, p)
+          .getFunction(fn)
+          .estimateGas(...args, { from: account, value: priceWei })
+      )
+      .catch(() => null),
+    rpc.run((p) => p.getFeeData()),
+    rpc.run((p) => p.getBlock("latest")),
+    rpc.run((p) => p.getBalance(account)),
+  ]);
+
+  const baseFeePerGas = block?.baseFeePerGas ?? null;
+  // Chains without EIP-1559 only report a legacy gas price
+  const networkMaxFee = feeData.maxFeePerGas ?? feeData.gasPrice ?? 0n;
+  const networkTip = feeData.maxPriorityFeePerGas ?? 0n;
+  const maxFeePerGas = caps.maxFeePerGas ?? networkMaxFee;
+  const tip = caps.maxPriorityFeePerGas ?? networkTip;
+  const maxPriorityFeePerGas = tip < maxFeePerGas ? tip : maxFeePerGas;
+
+  let estimatedFee: bigint | null = null;
+  let maxFee: bigint | null = null;
+  if (gasUnits !== null) {
+    const effective =
+      baseFeePerGas !== null ? baseFeePerGas + maxPriorityFeePerGas : null;
+    estimatedFee =
+      gasUnits *
+      (effective !== null && effective < maxFeePerGas
+        ? effective
+        : maxFeePerGas);
+    maxFee = gasUnits * maxFeePerGas;
+  }
+
+  return {
+    priceWei,
+    gasUnits,
+    baseFeePerGas,
+    maxPriorityFeePerGas,
+    maxFeePerGas,
+    estimatedFee,
+    maxFee,
+    maxTotal: priceWei + (maxFee ?? 0n),
+    balance,
+  };
+}
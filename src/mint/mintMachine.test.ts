@@ -0,0 +1,118 @@
+import { describe, expect, it } from "vitest";
+import {
+  getMintLimits,
+  initialMintState,
+  mintReducer,
+  validateMint,
+} from "./mintMachine";
+import type { MintAction, MintState } from "./mintMachine";
+import type { MintPhase } from "../phases/config";
+import { translate } from "../i18n/i18n";
+
+const HASH = "0x" + "ab".repeat(32);
+
+function run(actions: MintAction[], from: MintState = initialMintState) {
+  return actions.reduce(mintReducer, from);
+}
+
+const publicPhase: MintPhase = {
+  kind: "public",
+  name: null,
+  start: null,
+  end: null,
+  priceWei: null,
+  maxPerWallet: null,
+};
+
+describe("mintReducer", () => {
+  it("walks the happy path to success", () => {
+    const state = run([
+      { type: "start", quantity: 2 },
+      { type: "validated" },
+      { type: "simulated" },
+      { type: "submitted", hash: HASH },
+      { type: "confirming" },
+      { type: "succeeded", hash: HASH, tokenIds: [7n, 8n], replaced: false },
+    ]);
+    expect(state).toEqual({
+      step: "success",
+      quantity: 2,
+      hash: HASH,
+      tokenIds: [7n, 8n],
+      replaced: false,
+    });
+  });
+
+  it("ignores events that don't apply to the current step", () => {
+    const simulating = run([
+      { type: "start", quantity: 1 },
+      { type: "validated" },
+    ]);
+    expect(run([{ type: "submitted", hash: HASH }], simulating)).toBe(
+      simulating
+    );
+    expect(run([{ type: "start", quantity: 3 }], simulating)).toBe(simulating);
+  });
+
+  it("records where a failed attempt stopped", () => {
+    const error = new Error("nope") as never;
+    const state = run([
+      { type: "start", quantity: 1 },
+      { type: "validated" },
+      { type: "simulated" },
+      { type: "failed", error },
+    ]);
+    expect(state).toMatchObject({ step: "failed", at: "awaitingSignature" });
+  });
+
+  it("doesn't reopen a mint it already settled", () => {
+    const success = run([
+      { type: "resumed", quantity: 1, hash: HASH },
+      { type: "succeeded", hash: HASH, tokenIds: [1n], replaced: false },
+    ]);
+    expect(run([{ type: "resumed", quantity: 1, hash: HASH }], success)).toBe(
+      success
+    );
+  });
+});
+
+describe("validateMint", () => {
+  const limits = getMintLimits({
+    maxPerWallet: 2,
+    userMintedCount: 1,
+    maxSupply: 10,
+    totalSupply: 9,
+  });
+  const sale = { phase: publicPhase, allowlisted: false };
+
+  it("accepts a quantity within every limit", () => {
+    expect(validateMint(1, limits, 1, sale)).toBeNull();
+  });
+
+  it("rejects quantities over the wallet allowance", () => {
+    const error = validateMint(2, limits, 1, sale);
+    expect(error?.message).toBe(
+      "You can only mint 1 more NFT. You've already minted 1."
+    );
+    expect(error?.text).toEqual({
+      key: "mintError.overAllowance",
+      params: { count: 1, minted: 1 },
+    });
+    expect(translate("es", error!.text.key, error!.text.params)).toBe(
+      "Solo puedes mintear 1 NFT más. Ya has minteado 1."
+    );
+  });
+
+  it("rejects minting outside a live phase", () => {
+    expect(
+      validateMint(1, limits, 1, { phase: null, allowlisted: false })?.message
+    ).toBe("Minting is not open right now.");
+  });
+
+  it("requires a proof during the allowlist phase", () => {
+    const phase = { ...publicPhase, kind: "allowlist" as const };
+    expect(
+      validateMint(1, limits, 1, { phase, allowlisted: false })?.message
+    ).toMatch(/allowlist/);
+  });
+});
@@ -0,0 +1,225 @@
+import type { TxError } from "../errors/decodeError";
+import type { MintPhase } from "../phases/config";
+import { translate } from "../i18n/i18n";
+import type { Translatable } from "../i18n/i18n";
+
+// Mint lifecycle as an explicit state machine:
+// idle → validating → simulating → awaitingSignature → submitted →
+// confirming → success | failed. Events that don't apply to the current
+// state are ignored, so stale async callbacks can't corrupt the flow.
+
+export type MintStep =
+  | "idle"
+  | "validating"
+  | "simulating"
+  | "awaitingSignature"
+  | "submitted"
+  | "confirming"
+  | "success"
+  | "failed";
+
+export class MintValidationError extends Error {
+  // Shown to the user; `message` is the English, for logs
+  readonly text: Translatable;
+
+  constructor(text: Translatable) {
+    super(translate("en", text.key, text.params));
+    this.name = "MintValidationError";
+    this.text = text;
+  }
+}
+
+export type MintState =
+  | { step: "idle" }
+  | { step: "validating"; quantity: number }
+  | { step: "simulating"; quantity: number }
+  | {
+      step: "awaitingSignature";
+      quantity: number;
+      // e.g. "simulation unavailable" or an RPC rate-limit retry
+      note?: Translatable;
+    }
+  | { step: "submitted"; quantity: number; hash: string }
+  | { step: "confirming"; quantity: number; hash: string }
+  | {
+      step: "success";
+      quantity: number;
+      hash: string;
+      tokenIds: bigint[];
+      replaced: boolean;
+    }
+  | {
+      step: "failed";
+      quantity: number;
+      error: TxError | MintValidationError;
+      // Step the attempt was in when it failed
+      at: MintStep;
+      hash?: string;
+    };
+
+export type MintAction =
+  | { type: "start"; quantity: number }
+  | { type: "validated" }
+  | { type: "simulated"; note?: Translatable }
+  | { type: "note"; note: Translatable }
+  | { type: "submitted"; hash: string }
+  | { type: "confirming" }
+  | { type: "resumed"; quantity: number; hash: string }
+  | {
+      type: "succeeded";
+      hash: string;
+      tokenIds: bigint[];
+      replaced: boolean;
+    }
+  | { type: "failed"; error: TxError | MintValidationError }
+  | { type: "reset" };
+
+export const initialMintState: MintState = { step: "idle" };
+
+const ACTIVE_STEPS: MintStep[] = [
+  "validating",
+  "simulating",
+  "awaitingSignature",
+  "submitted",
+  "confirming",
+];
+
+export function isMintActive(state: MintState) {
+  return ACTIVE_STEPS.includes(state.step);
+}
+
+/** Steps where the user may still abandon the attempt (nothing sent yet). */
+export function isCancellable(state: MintState) {
+  return (
+    state.step === "validating" ||
+    state.step === "simulating" ||
+    state.step === "awaitingSignature"
+  );
+}
+
+export function mintReducer(state: MintState, action: MintAction): MintState {
+  switch (action.type) {
+    case "start":
+      return isMintActive(state)
+        ? state
+        : { step: "validating", quantity: action.quantity };
+    case "validated":
+      return state.step === "validating"
+        ? { step: "simulating", quantity: state.quantity }
+        : state;
+    case "simulated":
+      return state.step === "simulating"
+        ? {
+            step: "awaitingSignature",
+            quantity: state.quantity,
+            note: action.note,
+          }
+        : state;
+    case "note":
+      return state.step === "awaitingSignature"
+        ? { ...state, note: action.note }
+        : state;
+    case "submitted":
+      return state.step === "awaitingSignature"
+        ? { step: "submitted", quantity: state.quantity, hash: action.hash }
+        : state;
+    case "confirming":
+      return state.step === "submitted"
+        ? { step: "confirming", quantity: state.quantity, hash: state.hash }
+        : state;
+    case "resumed":
+      // A mint restored from storage after a reload. The pending list can lag
+      // behind an outcome this machine already recorded; don't reopen it.
+      return isMintActive(state) ||
+        ("hash" in state && state.hash === action.hash)
+        ? state
+        : { step: "confirming", quantity: action.quantity, hash: action.hash };
+    case "succeeded":
+      return state.step === "submitted" || state.step === "confirming"
+        ? {
+            step: "success",
+            quantity: state.quantity,
+            hash: action.hash,
+            tokenIds: action.tokenIds,
+            replaced: action.replaced,
+          }
+        : state;
+    case "failed":
+      return isMintActive(state)
+        ? {
+            step: "failed",
+            quantity: "quantity" in state ? state.quantity : 0,
+            error: action.error,
+            at: state.step,
+            hash: "hash" in state ? state.hash : undefined,
+          }
+        : state;
+    case "reset":
+      return initialMintState;
+  }
+}
+
+export interface MintLimits {
+  remainingAllowance: number;
+  remainingSupply: number;
+  // Largest quantity the user can pick right now (at least 1 for the input)
+  maxQuantity: number;
+  walletMaxed: boolean;
+  soldOut: boolean;
+}
+
+export function getMintLimits(params: {
+  maxPerWallet: number;
+  userMintedCount: number;
+  maxSupply: number;
+  totalSupply: number;
+}): MintLimits {
+  const remainingAllowance = Math.max(
+    0,
+    params.maxPerWallet - params.userMintedCount
+  );
+  const remainingSupply = Math.max(0, params.maxSupply - params.totalSupply);
+  return {
+    remainingAllowance,
+    remainingSupply,
+    maxQuantity: Math.max(1, Math.min(remainingAllowance, remainingSupply)),
+    walletMaxed: remainingAllowance <= 0,
+    soldOut: remainingSupply <= 0,
+  };
+}
+
+/** Pre-flight checks; returns the reason a mint can't proceed, if any. */
+export function validateMint(
+  quantity: number,
+  limits: MintLimits,
+  userMintedCount: number,
+  sale: { phase: MintPhase | null; allowlisted: boolean }
+): MintValidationError | null {
+  if (limits.soldOut) return new MintValidationError({ key: "mintError.soldOut" });
+  if (!sale.phase) {
+    return new MintValidationError({ key: "mintError.notOpen" });
+  }
+  if (sale.phase.kind === "allowlist" && !sale.allowlisted) {
+    return new MintValidationError({ key: "mintError.notAllowlisted" });
+  }
+  if (limits.walletMaxed) {
+    return new MintValidationError({ key: "mintError.walletMaxed" });
+  }
+  if (
+    !Number.isInteger(quantity) ||
+    quantity < 1 ||
+    quantity > limits.remainingAllowance
+  ) {
+    return new MintValidationError({
+      key: "mintError.overAllowance",
+      params: { count: limits.remainingAllowance, minted: userMintedCount },
+    });
+  }
+  if (quantity > limits.remainingSupply) {
+    return new MintValidationError({
+      key: "mintError.overSupply",
+      params: { count: limits.remainingSupply },
+    });
+  }
+  return null;
+}
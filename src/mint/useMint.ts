@@ -0,0 +1,294 @@
+import { useCallback, useEffect, useReducer, useRef } from "react";
+import { BrowserProvider } from "ethers";
+import type { ContractTransactionResponse } from "ethers";
+import { getContract } from "../contract";
+import { getReadRpc } from "../rpc/readProvider";
+import { switchWalletChain } from "../chains/switchNetwork";
+import type { ChainConfig } from "../chains/registry";
+import {
+  TxError,
+  classifyTxError,
+  insufficientFunds,
+  txErrorNames,
+} from "../errors/decodeError";
+import type { Translatable } from "../i18n/i18n";
+import { usePendingMints } from "../tx/usePendingMints";
+import type { MintOutcome, PendingMint } from "../tx/pendingMints";
+import type { EIP1193Provider } from "../wallet/eip6963";
+import type { AllowlistProof } from "../allowlist/merkle";
+import { fetchPhasePrice } from "../phases/schedule";
+import type { MintPhase } from "../phases/config";
+import {
+  initialMintState,
+  isCancellable,
+  mintReducer,
+  validateMint,
+} from "./mintMachine";
+import type { MintLimits } from "./mintMachine";
+import { feeOverrides, mintCall } from "./mintCost";
+import type { FeeCaps } from "./mintCost";
+import { createLogger } from "../logging/logger";
+import { logTxError } from "../logging/logTxError";
+
+const log = createLogger("mint");
+
+interface UseMintOptions {
+  chain: ChainConfig;
+  // The collection's plural token name, for error messages
+  tokenNamePlural: string;
+  walletProvider?: EIP1193Provider;
+  account: string | null;
+  limits: MintLimits;
+  userMintedCount: number;
+  // Live sale phase; null while minting is closed
+  phase: MintPhase | null;
+  // The wallet's allowlist proof, used during allowlist phases
+  allowlist: AllowlistProof | null;
+  // User-set EIP-1559 caps applied to the mint transaction
+  feeCaps: FeeCaps;
+  // No wallet selected yet: ask the user to pick one
+  onNeedWallet: () => void;
+  // A mint reached a final outcome; refresh supply, gallery, ...
+  onSettled: () => void;
+}
+
+const MAX_SEND_RETRIES = 3;
+
+function isRateLimited(err: unknown) {
+  type RpcErr = { code?: unknown; message?: string; error?: RpcErr };
+  const rpcErr = err as RpcErr;
+  // ethers wraps the wallet's JSON-RPC error, so check the inner one too
+  return [rpcErr, rpcErr?.error].some(
+    (e) =>
+      e?.code === -32603 &&
+      typeof e?.message === "string" &&
+      /rate limit/i.test(e.message)
+  );
+}
+
+/** Drives the mint state machine; see mintMachine.ts for the states. */
+export function useMint({
+  chain,
+  tokenNamePlural,
+  walletProvider,
+  account,
+  limits,
+  userMintedCount,
+  phase,
+  allowlist,
+  feeCaps,
+  onNeedWallet,
+  onSettled,
+}: UseMintOptions) {
+  const [state, dispatch] = useReducer(mintReducer, initialMintState);
+  // Bumped on cancel so an abandoned attempt stops driving the machine
+  const attemptRef = useRef(0);
+  const onSettledRef = useRef(onSettled);
+
+  useEffect(() => {
+    onSettledRef.current = onSettled;
+  }, [onSettled]);
+
+  const handleSettled = useCallback(
+    (_pending: PendingMint, outcome: MintOutcome) => {
+      if (outcome.status === "success") {
+        log.info("Mint confirmed", {
+          txHash: outcome.hash,
+          tokenIds: outcome.tokenIds,
+        });
+        dispatch({
+          type: "succeeded",
+          hash: outcome.hash,
+          tokenIds: outcome.tokenIds,
+          replaced: outcome.replaced,
+        });
+      } else {
+        log.warn("Mint did not confirm", {
+          txHash: outcome.hash,
+          reason: outcome.reason,
+        });
+        dispatch({
+          type: "failed",
+          error:
+            outcome.reason === "dropped"
+              ? new TxError(
+                  "unknown",
+                  { key: "mintError.dropped" },
+                  { cause: outcome }
+                )
+              : new TxError(
+                  "revert",
+                  { key: "mintError.failedOnChain" },
+                  { cause: outcome }
+                ),
+        });
+      }
+      onSettledRef.current();
+    },
+    []
+  );
+
+  const pendingMints = usePendingMints(account, chain, handleSettled);
+
+  // Mints restored after a reload (or sent after a cancel) resume confirming
+  useEffect(() => {
+    const restored = pendingMints.pending[0];
+    if (restored) {
+      dispatch({
+        type: "resumed",
+        quantity: restored.quantity,
+        hash: restored.hash,
+      });
+    }
+  }, [pendingMints.pending]);
+
+  async function mint(quantity: number) {
+    if (!walletProvider) {
+      onNeedWallet();
+      return;
+    }
+    const attempt = ++attemptRef.current;
+    const cancelled = () => attemptRef.current !== attempt;
+
+    dispatch({ type: "start", quantity });
+    const invalid = validateMint(quantity, limits, userMintedCount, {
+      phase,
+      allowlisted: Boolean(allowlist),
+    });
+    if (invalid) {
+      dispatch({ type: "failed", error: invalid });
+      return;
+    }
+    dispatch({ type: "validated" });
+
+    // Which part of the flow a failure came from, for the logs
+    let mintStep = "prepare";
+    let txHash: string | undefined;
+    try {
+      const provider = new BrowserProvider(walletProvider);
+      // Never sign against whatever network the wallet happens to be on
+      await switchWalletChain(provider, chain);
+      const signer = await provider.getSigner();
+      const contract = getContract(chain, signer);
+      const readRpc = getReadRpc(chain);
+      const price = await fetchPhasePrice(chain, phase!);
+      const totalPrice = price * BigInt(quantity);
+      const call = mintCall(phase, allowlist, quantity);
+      const mintFn = contract.getFunction(call.fn);
+      const args = call.args;
+      const fees = feeOverrides(feeCaps);
+
+      // Dry-run and estimate to surface revert reasons before sending
+      mintStep = "simulate";
+      let simulationNote: Translatable | undefined;
+      let gas: bigint | null = null;
+      try {
+        await mintFn.staticCall(...args, { value: totalPrice });
+        gas = await mintFn.estimateGas(...args, { value: totalPrice });
+      } catch (simErr) {
+        const txErr = classifyTxError(
+          simErr,
+          txErrorNames(chain, tokenNamePlural)
+        );
+        // Only a decoded revert (or a wallet-side problem) is conclusive.
+        // Some RPCs cannot simulate with value and fail without revert data;
+        // proceed to send and rely on node validation in that case.
+        if (txErr.category !== "unknown" && txErr.category !== "rpc") {
+          throw txErr;
+        }
+        log.warn("Simulation failed, proceeding to send", {
+          mintStep,
+          error: txErr.cause,
+        });
+        simulationNote = { key: "mintStatus.simulationUnavailable" };
+      }
+      // Catch an underfunded wallet here rather than in the wallet prompt
+      if (gas !== null) {
+        const from = await signer.getAddress();
+        const [feeData, balance] = await Promise.all([
+          readRpc.run((p) => p.getFeeData()),
+          readRpc.run((p) => p.getBalance(from)),
+        ]);
+        const maxFeePerGas =
+          fees.maxFeePerGas ?? feeData.maxFeePerGas ?? feeData.gasPrice ?? 0n;
+        if (balance < totalPrice + gas * maxFeePerGas) {
+          throw insufficientFunds(txErrorNames(chain), {
+            balance,
+            gas,
+            maxFeePerGas,
+          });
+        }
+      }
+      if (cancelled()) return;
+      dispatch({ type: "simulated", note: simulationNote });
+
+      // Only the send is retried; once a hash exists it is tracked, never resent
+      const send = async (n: number): Promise<ContractTransactionResponse> => {
+        try {
+          return (await mintFn(...args, {
+            value: totalPrice,
+            ...fees,
+          })) as ContractTransactionResponse;
+        } catch (err) {
+          if (isRateLimited(err) && n < MAX_SEND_RETRIES && !cancelled()) {
+            const delayMs = 500 * Math.pow(2, n); // 500, 1000, 2000
+            dispatch({
+              type: "note",
+              note: {
+                key: "mintStatus.rateLimited",
+                params: { seconds: Math.round(delayMs / 1000) },
+              },
+            });
+            await new Promise((res) => setTimeout(res, delayMs));
+            return send(n + 1);
+          }
+          throw err;
+        }
+      };
+
+      const startBlock = await readRpc.run((p) => p.getBlockNumber());
+      mintStep = "send";
+      const tx = await send(0);
+      mintStep = "track";
+      txHash = tx.hash;
+      log.info("Mint submitted", { mintStep, txHash, quantity });
+      // Even an abandoned attempt gets tracked once it's on its way
+      dispatch({ type: "submitted", hash: tx.hash });
+      dispatch({ type: "confirming" });
+      await pendingMints.track({
+        hash: tx.hash,
+        quantity,
+        account: await signer.getAddress(),
+        chainId: chain.id,
+        contract: chain.contractAddress,
+        nonce: tx.nonce,
+        startBlock,
+        timestamp: Date.now(),
+      });
+    } catch (e) {
+      if (cancelled()) return;
+      const txErr = logTxError(
+        log,
+        "Mint failed",
+        e,
+        { mintStep, txHash },
+        txErrorNames(chain, tokenNamePlural)
+      );
+      dispatch({ type: "failed", error: txErr });
+    }
+  }
+
+  function cancel() {
+    if (!isCancellable(state)) return;
+    attemptRef.current++;
+    dispatch({ type: "reset" });
+  }
+
+  function retry() {
+    if (state.step === "failed") mint(state.quantity || 1);
+  }
+
+  const reset = useCallback(() => dispatch({ type: "reset" }), []);
+
+  return { state, mint, cancel, retry, reset };
+}
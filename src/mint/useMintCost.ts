@@ -0,0 +1,71 @@
+import { useEffect, useState } from "react";
+import type { ChainConfig } from "../chains/registry";
+import type { AllowlistProof } from "../allowlist/merkle";
+import type { MintPhase } from "../phases/config";
+import { fetchMintCost } from "./mintCost";
+import type { FeeCaps, MintCost } from "./mintCost";
+import type { MessageKey } from "../i18n/i18n";
+import { createLogger } from "../logging/logger";
+
+const log = createLogger("mint");
+
+// Fees move with every block; re-quote this often while the panel is shown
+const REFRESH_MS = 15_000;
+
+/** Live cost quote for the mint the user is about to make. */
+export function useMintCost(
+  chain: ChainConfig,
+  opts: {
+    account: string | null;
+    phase: MintPhase | null;
+    allowlist: AllowlistProof | null;
+    quantity: number;
+    caps: FeeCaps;
+  }
+) {
+  const { account, phase, allowlist, quantity, caps } = opts;
+  const [cost, setCost] = useState<MintCost | null>(null);
+  const [error, setError] = useState<MessageKey | null>(null);
+  const { maxFeePerGas, maxPriorityFeePerGas } = caps;
+
+  useEffect(() => {
+    setCost(null);
+    setError(null);
+    if (!account || !phase) return;
+    let stale = false;
+    const quote = async () => {
+      try {
+        const next = await fetchMintCost(chain, {
+          account,
+          phase,
+          allowlist,
+          quantity,
+          caps: { maxFeePerGas, maxPriorityFeePerGas },
+        });
+        if (!stale) {
+          setCost(next);
+          setError(null);
+        }
+      } catch (e) {
+        log.error("Mint cost estimate failed", { error: e });
+        if (!stale) setError("cost.failed");
+      }
+    };
+    quote();
+    const timer = setInterval(quote, REFRESH_MS);
+    return () => {
+      stale = true;
+      clearInterval(timer);
+    };
+  }, [
+    chain,
+    account,
+    phase,
+    allowlist,
+    quantity,
+    maxFeePerGas,
+    maxPriorityFeePerGas,
+  ]);
+
+  return { cost, error };
+}
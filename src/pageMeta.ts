@@ -0,0 +1,48 @@
+import { useEffect } from "react";
+import { metaAttribute, metaTags } from "./pageMetaTags";
+import type { PageMeta } from "./pageMetaTags";
+
+// Document title plus Open Graph / Twitter card tags for the current route.
+// Crawlers that don't run scripts get a token page's tags from the server
+// (api/token-meta.ts); link unfurlers that render the page (and the browser
+// tab) see these updates.
+
+function findTag(key: string) {
+  return document.head.querySelector<HTMLMetaElement>(
+    `meta[${metaAttribute(key)}="${key}"]`
+  );
+}
+
+function setTag(key: string, content: string | undefined) {
+  let el = findTag(key);
+  if (content === undefined) {
+    el?.remove();
+    return;
+  }
+  if (!el) {
+    el = document.createElement("meta");
+    el.setAttribute(metaAttribute(key), key);
+    document.head.appendChild(el);
+  }
+  el.content = content;
+}
+
+/** Replace the document's title and tags; tags `meta` leaves out are removed. */
+export function applyPageMeta(meta: PageMeta) {
+  document.title = meta.title;
+  for (const [key, content] of Object.entries(metaTags(meta))) {
+    setTag(key, content);
+  }
+}
+
+/**
+ * Meta for one page. The app shell re-applies the collection's defaults in a
+ * layout effect on every route change (see App.tsx); layout effects run
+ * before passive ones, so a page's own tags always win.
+ */
+export function usePageMeta(meta: PageMeta) {
+  const { title, description, image, url } = meta;
+  useEffect(() => {
+    applyPageMeta({ title, description, image, url });
+  }, [title, description, image, url]);
+}
@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import { injectPageMeta } from "./pageMetaTags";
+
+const INDEX_HTML = `<!doctype html>
+<html lang="en">
+  <head>
+    <meta charset="UTF-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+    <title>SHRAMP-NFT</title>
+    <meta property="og:title" content="Shramp NFT" />
+    <meta name="twitter:card" content="summary" />
+  </head>
+  <body></body>
+</html>`;
+
+describe("server-rendered page meta", () => {
+  it("replaces the title and default tags, keeping the rest", () => {
+    const html = injectPageMeta(INDEX_HTML, {
+      title: "Shramp #7 | Shramp NFT",
+      description: "A shrimp.",
+      image: "https://ipfs.io/ipfs/bafy/7.png",
+      url: "https://shramp.example/token/7",
+    });
+    expect(html).toContain("<title>Shramp #7 | Shramp NFT</title>");
+    expect(html).toContain('<meta charset="UTF-8" />');
+    expect(html).toContain('<meta name="viewport"');
+    expect(html).not.toContain('content="Shramp NFT"');
+    expect(html.match(/property="og:title"/g)).toHaveLength(1);
+    expect(html).toContain(
+      '<meta property="og:image" content="https://ipfs.io/ipfs/bafy/7.png" />'
+    );
+    expect(html).toContain(
+      '<meta name="twitter:card" content="summary_large_image" />'
+    );
+    // Parses back to the same head
+    const doc = new DOMParser().parseFromString(html, "text/html");
+    expect(doc.title).toBe("Shramp #7 | Shramp NFT");
+    expect(
+      doc.querySelector('meta[property="og:url"]')?.getAttribute("content")
+    ).toBe("https://shramp.example/token/7");
+  });
+
+  it("escapes metadata text", () => {
+    const html = injectPageMeta(INDEX_HTML, {
+      title: "Evil</title><script>alert(1)</script>",
+      description: '"><script>alert(2)</script>',
+    });
+    expect(html).not.toContain("<script>");
+    const doc = new DOMParser().parseFromString(html, "text/html");
+    expect(doc.title).toBe("Evil</title><script>alert(1)</script>");
+    expect(
+      doc.querySelector('meta[name="description"]')?.getAttribute("content")
+    ).toBe('"><script>alert(2)</script>');
+  });
+});
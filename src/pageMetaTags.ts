@@ -0,0 +1,62 @@
+// Title plus Open Graph / Twitter card tags for a page. Shared by the browser
+// (pageMeta.ts) and the edge function that writes them into index.html for
+// crawlers (api/token-meta.ts), so keep it free of DOM and React.
+
+export interface PageMeta {
+  title: string;
+  description?: string;
+  image?: string; // absolute URL
+  url?: string; // canonical absolute URL of the page
+}
+
+/** Open Graph uses `property`, everything else `name`. */
+export const metaAttribute = (key: string) =>
+  key.startsWith("og:") ? "property" : "name";
+
+/** Every tag a page manages; undefined means the page has none. */
+export const metaTags = (
+  meta: PageMeta
+): Record<string, string | undefined> => ({
+  description: meta.description,
+  "og:title": meta.title,
+  "og:description": meta.description,
+  "og:image": meta.image,
+  "og:url": meta.url,
+  "og:type": "website",
+  "twitter:card": meta.image ? "summary_large_image" : "summary",
+  "twitter:title": meta.title,
+  "twitter:description": meta.description,
+  "twitter:image": meta.image,
+});
+
+function escapeHtml(text: string) {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/** `html` (the built index.html) with its title and tags replaced by `meta`'s. */
+export function injectPageMeta(html: string, meta: PageMeta): string {
+  const tags = metaTags(meta);
+  // index.html's own defaults for these tags go; anything else stays
+  const kept = html.replace(
+    /\s*<meta\s+(?:name|property)="([^"]+)"[^>]*>/g,
+    (tag, key: string) => (key in tags ? "" : tag)
+  );
+  const added = Object.entries(tags)
+    .filter((entry): entry is [string, string] => entry[1] !== undefined)
+    .map(
+      ([key, content]) =>
+        `<meta ${metaAttribute(key)}="${key}" content="${escapeHtml(
+          content
+        )}" />`
+    );
+  return kept
+    .replace(
+      /<title>[\s\S]*?<\/title>/,
+      () => `<title>${escapeHtml(meta.title)}</title>`
+    )
+    .replace("</head>", () => `  ${added.join("\n    ")}\n  </head>`);
+}
@@ -0,0 +1,82 @@
+import { formatCountdown } from "./schedule";
+import type { SaleState } from "./schedule";
+import type { MintPhase } from "./config";
+import { useI18n } from "../i18n/i18n";
+
+interface PhaseBannerProps {
+  sale: SaleState;
+  // Effective per-wallet cap for the connected wallet in the live phase
+  walletCap: number;
+}
+
+export default function PhaseBanner({ sale, walletCap }: PhaseBannerProps) {
+  const { t, rich } = useI18n();
+  const phaseName = (phase: MintPhase) =>
+    phase.name ?? t(`phase.${phase.kind}`);
+
+  switch (sale.status) {
+    case "loading":
+      return (
+        <p className="text-xs md:text-sm text-gray-400 mb-4">
+          {t("phase.checking")}
+        </p>
+      );
+    case "error":
+      return (
+        <p className="text-xs md:text-sm text-gray-400 mb-4">
+          {t("phase.error")}
+        </p>
+      );
+    case "unscheduled":
+      return (
+        <p className="text-xs md:text-sm text-gray-300 mb-4">
+          {t("phase.unscheduled")}
+        </p>
+      );
+    case "sold-out":
+      return (
+        <p className="text-sm md:text-base font-semibold text-pink-300 mb-4">
+          {t("phase.soldOut")}
+        </p>
+      );
+    case "ended":
+      return (
+        <p className="text-xs md:text-sm text-gray-300 mb-4">
+          {t("phase.ended")}
+        </p>
+      );
+    case "upcoming":
+      return (
+        <p className="text-xs md:text-sm text-gray-300 mb-4">
+          {rich("phase.startsIn", {
+            phase: phaseName(sale.next),
+            time: (
+              <span className="font-mono text-white">
+                {formatCountdown(sale.startsIn)}
+              </span>
+            ),
+          })}
+        </p>
+      );
+    case "live": {
+      const countdown = sale.endsIn !== null && (
+        <span className="font-mono">{formatCountdown(sale.endsIn)}</span>
+      );
+      return (
+        <p className="text-xs md:text-sm text-gray-300 mb-4">
+          {t("phase.live", { phase: phaseName(sale.phase), max: walletCap })}
+          {countdown && (
+            <span className="block text-gray-400 mt-1">
+              {sale.next && sale.next.start === sale.phase.end
+                ? rich("phase.startsIn", {
+                    phase: phaseName(sale.next),
+                    time: countdown,
+                  })
+                : rich("phase.endsIn", { time: countdown })}
+            </span>
+          )}
+        </p>
+      );
+    }
+  }
+}
@@ -0,0 +1,84 @@
+import { parseEther } from "ethers";
+import { createLogger } from "../logging/logger";
+
+// Mint phase model and the VITE_*_MINT_SCHEDULE parser. Kept free of
+// contract/RPC imports so the chain registry can use it at load time.
+
+const log = createLogger("phases");
+
+export type PhaseKind = "allowlist" | "public";
+
+export interface MintPhase {
+  kind: PhaseKind;
+  name: string | null; // configured name; null = the kind's translated name
+  start: number | null; // unix seconds; null = open since deployment
+  end: number | null; // unix seconds; null = until sold out
+  // Allowlist only, for contracts without an allowlist price view; null = the
+  // contract's price. Public mints always pay the contract's mintPrice()
+  priceWei: bigint | null;
+  maxPerWallet: number | null; // null = the contract's maxPerWallet
+}
+
+function toUnix(value: unknown): number | null {
+  if (value === undefined || value === null || value === "") return null;
+  if (typeof value === "number") return value;
+  const n = Number(value);
+  if (!Number.isNaN(n)) return n;
+  const ms = Date.parse(String(value));
+  if (Number.isNaN(ms)) throw new Error(`invalid time "${value}"`);
+  return Math.floor(ms / 1000);
+}
+
+/**
+ * Phases from an already-parsed schedule array of
+ * `{ kind, name?, start?, end?, price?, maxPerWallet? }` where times are ISO
+ * strings or unix seconds and `price` is in ether. Only allowlist phases take a
+ * `price`: the public mint charges the contract's price, so one configured
+ * there would never be used. Throws on bad entries.
+ */
+export function toPhases(items: unknown): MintPhase[] {
+  if (!Array.isArray(items)) throw new Error("expected a JSON array");
+  return items.map((item): MintPhase => {
+    if (item.kind !== "allowlist" && item.kind !== "public") {
+      throw new Error(`unknown phase kind "${item.kind}"`);
+    }
+    const maxPerWallet =
+      item.maxPerWallet !== undefined ? Number(item.maxPerWallet) : null;
+    if (
+      maxPerWallet !== null &&
+      (!Number.isInteger(maxPerWallet) || maxPerWallet < 1)
+    ) {
+      throw new Error(`invalid maxPerWallet "${item.maxPerWallet}"`);
+    }
+    if (item.kind === "public" && item.price !== undefined) {
+      throw new Error(
+        "a public phase can't set a price; the contract's mintPrice() applies"
+      );
+    }
+    return {
+      kind: item.kind,
+      name: item.name ?? null,
+      start: toUnix(item.start),
+      end: toUnix(item.end),
+      priceWei:
+        item.price !== undefined ? parseEther(String(item.price)) : null,
+      maxPerWallet,
+    };
+  });
+}
+
+/**
+ * Parse a schedule env var, a JSON array in the format `toPhases` takes. Bad
+ * config is logged and ignored rather than taking the page down.
+ */
+export function parseSchedule(
+  raw: string | undefined
+): MintPhase[] | undefined {
+  if (!raw) return undefined;
+  try {
+    return toPhases(JSON.parse(raw));
+  } catch (e) {
+    log.error("Ignoring invalid mint schedule", { error: e });
+    return undefined;
+  }
+}
@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest";
+import { getSaleState } from "./schedule";
+import { toPhases } from "./config";
+import type { MintPhase } from "./config";
+
+const [allowlist, publicPhase]: MintPhase[] = toPhases([
+  { kind: "allowlist", start: 1_000, end: 2_000, maxPerWallet: 1 },
+  { kind: "public", start: 2_000 },
+]);
+const phases = [allowlist, publicPhase];
+
+describe("sale state", () => {
+  it("tells an unloaded schedule from a failing one and from no phases", () => {
+    expect(getSaleState({ phases: null, error: null }, 1_500, false)).toEqual({
+      status: "loading",
+    });
+    expect(
+      getSaleState({ phases: null, error: new Error("rpc down") }, 1_500, false)
+    ).toEqual({ status: "error" });
+    expect(getSaleState({ phases: [], error: null }, 1_500, false)).toEqual({
+      status: "unscheduled",
+    });
+    // A failed reload keeps showing the phases already loaded
+    expect(
+      getSaleState({ phases, error: new Error("rpc down") }, 1_500, false)
+    ).toMatchObject({ status: "live", phase: allowlist });
+  });
+
+  it("follows the phases on chain time", () => {
+    const at = (now: number | null) =>
+      getSaleState({ phases, error: null }, now, false);
+    expect(at(null)).toEqual({ status: "loading" });
+    expect(at(500)).toEqual({
+      status: "upcoming",
+      next: allowlist,
+      startsIn: 500,
+    });
+    expect(at(1_500)).toEqual({
+      status: "live",
+      phase: allowlist,
+      endsIn: 500,
+      next: publicPhase,
+    });
+    expect(at(2_500)).toMatchObject({ status: "live", phase: publicPhase });
+    expect(getSaleState({ phases, error: null }, 2_500, true)).toEqual({
+      status: "sold-out",
+    });
+  });
+});
+
+describe("schedule config", () => {
+  it("rejects a maxPerWallet that isn't a positive integer", () => {
+    for (const maxPerWallet of [0, -1, 1.5, "two"]) {
+      expect(() => toPhases([{ kind: "public", maxPerWallet }])).toThrow(
+        /invalid maxPerWallet/
+      );
+    }
+    expect(toPhases([{ kind: "public", maxPerWallet: "3" }])[0]).toMatchObject({
+      maxPerWallet: 3,
+    });
+  });
+
+  it("takes a price only for allowlist phases", () => {
+    expect(() => toPhases([{ kind: "public", price: "0.5" }])).toThrow(
+      /public phase can't set a price/
+    );
+    expect(toPhases([{ kind: "allowlist", price: "0.5" }])[0].priceWei).toBe(
+      500000000000000000n
+    );
+  });
+});
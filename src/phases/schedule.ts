@@ -0,0 +1,217 @@
+import { Interface } from "ethers";
+import contractABI from "../contractABI";
+import { getContract } from "../contract";
+import { batchRead } from "../rpc/multicall";
+import { getReadRpc } from "../rpc/readProvider";
+import type { ChainConfig } from "../chains/registry";
+import {
+  allowlistMintFragment,
+  allowlistPriceFragment,
+} from "../allowlist/allowlist";
+import type { MintPhase, PhaseKind } from "./config";
+import { createLogger } from "../logging/logger";
+
+// Mint phases resolved for a chain. Times come from the chain config
+// (VITE_*_MINT_SCHEDULE) and are overridden by contract views when the ABI
+// has them; the contract is the source of truth for anything it exposes.
+
+export type SaleState =
+  | { status: "sold-out" }
+  | { status: "upcoming"; next: MintPhase; startsIn: number }
+  | {
+      status: "live";
+      phase: MintPhase;
+      endsIn: number | null;
+      next: MintPhase | null;
+    }
+  | { status: "ended" }
+  // The collection has no mint phases at all
+  | { status: "unscheduled" }
+  // The schedule couldn't be loaded yet; it is being retried
+  | { status: "error" }
+  // Chain time or schedule not known yet
+  | { status: "loading" };
+
+// Zero-argument views contracts commonly use for sale times
+const TIME_VIEWS: Record<PhaseKind, { start: string[]; end: string[] }> = {
+  allowlist: {
+    start: [
+      "allowlistStart",
+      "allowlistStartTime",
+      "presaleStart",
+      "presaleStartTime",
+    ],
+    end: ["allowlistEnd", "allowlistEndTime", "presaleEnd", "presaleEndTime"],
+  },
+  public: {
+    start: [
+      "publicStart",
+      "publicStartTime",
+      "publicSaleStart",
+      "mintStart",
+      "saleStart",
+    ],
+    end: ["publicEnd", "publicEndTime", "publicSaleEnd", "mintEnd", "saleEnd"],
+  },
+};
+
+const log = createLogger("phases");
+
+const iface = new Interface(contractABI);
+
+function findView(names: string[]) {
+  for (const name of names) {
+    const f = iface.getFunction(name);
+    if (f && f.constant && f.inputs.length === 0) return f.name;
+  }
+  return null;
+}
+
+function emptyPhase(kind: PhaseKind): MintPhase {
+  return {
+    kind,
+    name: null,
+    start: null,
+    end: null,
+    priceWei: null,
+    maxPerWallet: null,
+  };
+}
+
+/** Current price of `phase`, read fresh from the contract where it can be. */
+export async function fetchPhasePrice(
+  chain: ChainConfig,
+  phase: MintPhase
+): Promise<bigint> {
+  const rpc = getReadRpc(chain);
+  if (phase.kind === "allowlist" && allowlistPriceFragment) {
+    const fn = allowlistPriceFragment;
+    return rpc.run((p) => getContract(chain, p).getFunction(fn)());
+  }
+  if (phase.kind === "allowlist" && phase.priceWei !== null) {
+    return phase.priceWei;
+  }
+  return rpc.run((p) => getContract(chain, p).mintPrice());
+}
+
+/** Configured phases merged with on-chain times and prices, by start time. */
+export async function fetchSchedule(chain: ChainConfig): Promise<MintPhase[]> {
+  const configured = chain.schedule ?? [];
+  const kinds: PhaseKind[] = ["allowlist", "public"];
+  // Kept so the page can say why it can't mint, rather than hiding the phase
+  if (
+    !allowlistMintFragment &&
+    configured.some((p) => p.kind === "allowlist")
+  ) {
+    log.warn("Allowlist phase configured but the ABI has no allowlist mint", {
+      chainId: chain.id,
+    });
+  }
+
+  const views = kinds.flatMap((kind) =>
+    (["start", "end"] as const)
+      .map((field) => ({ kind, field, fn: findView(TIME_VIEWS[kind][field]) }))
+      .filter(
+        (v): v is { kind: PhaseKind; field: "start" | "end"; fn: string } =>
+          Boolean(v.fn)
+      )
+  );
+  const results = views.length
+    ? await batchRead(
+        chain,
+        views.map((v) => ({ fn: v.fn }))
+      )
+    : [];
+
+  const phases = kinds.flatMap((kind) => {
+    const fromConfig = configured.filter((p) => p.kind === kind);
+    const onChain = views
+      .map((v, i) => ({ ...v, result: results[i] }))
+      .filter((v) => v.kind === kind && v.result.success);
+    // Without config or views there is still an always-open public phase
+    if (!fromConfig.length && !onChain.length && kind === "allowlist") {
+      return [];
+    }
+    const list = fromConfig.length ? fromConfig : [emptyPhase(kind)];
+    return list.map((phase) => {
+      const merged = { ...phase };
+      for (const v of onChain) {
+        const seconds = Number((v.result as { value: bigint }).value);
+        // 0 conventionally means "not scheduled"
+        merged[v.field] = seconds > 0 ? seconds : null;
+      }
+      return merged;
+    });
+  });
+
+  // A public phase with no start opens when the allowlist closes
+  const allowlistEnd = Math.max(
+    0,
+    ...phases.filter((p) => p.kind === "allowlist").map((p) => p.end ?? 0)
+  );
+  for (const phase of phases) {
+    if (phase.kind === "public" && phase.start === null && allowlistEnd) {
+      phase.start = allowlistEnd;
+    }
+  }
+
+  const priced = await Promise.all(
+    phases.map(async (phase) => ({
+      ...phase,
+      priceWei: await fetchPhasePrice(chain, phase),
+    }))
+  );
+  return priced.sort((a, b) => (a.start ?? 0) - (b.start ?? 0));
+}
+
+/**
+ * Where the sale stands at chain time `now` (unix seconds). `phases` is null
+ * until the schedule has loaded; `error` is set while loading keeps failing.
+ */
+export function getSaleState(
+  schedule: { phases: MintPhase[] | null; error: unknown },
+  now: number | null,
+  soldOut: boolean
+): SaleState {
+  const { phases, error } = schedule;
+  if (soldOut) return { status: "sold-out" };
+  if (phases === null) {
+    return error ? { status: "error" } : { status: "loading" };
+  }
+  if (phases.length === 0) return { status: "unscheduled" };
+  if (now === null) return { status: "loading" };
+  const upcoming = phases.filter((p) => p.start !== null && p.start > now);
+  // With overlapping phases the most recently started one applies
+  const live = phases
+    .filter(
+      (p) =>
+        (p.start === null || p.start <= now) && (p.end === null || p.end > now)
+    )
+    .pop();
+  if (live) {
+    return {
+      status: "live",
+      phase: live,
+      endsIn: live.end !== null ? live.end - now : null,
+      next: upcoming[0] ?? null,
+    };
+  }
+  if (upcoming.length) {
+    return {
+      status: "upcoming",
+      next: upcoming[0],
+      startsIn: upcoming[0].start! - now,
+    };
+  }
+  return { status: "ended" };
+}
+
+/** "2d 03:04:05" style countdown. */
+export function formatCountdown(seconds: number): string {
+  const s = Math.max(0, Math.floor(seconds));
+  const days = Math.floor(s / 86400);
+  const hms = [Math.floor(s / 3600) % 24, Math.floor(s / 60) % 60, s % 60]
+    .map((n) => String(n).padStart(2, "0"))
+    .join(":");
+  return days > 0 ? `${days}d ${hms}` : hms;
+}
@@ -0,0 +1,58 @@
+import { useEffect, useState } from "react";
+import { getReadRpc } from "../rpc/readProvider";
+import type { ChainConfig } from "../chains/registry";
+import { createLogger } from "../logging/logger";
+
+const log = createLogger("phases");
+
+// How often the latest block timestamp is re-read to correct drift
+const RESYNC_MS = 30_000;
+
+/**
+ * Current chain time in unix seconds, ticking every second: the latest block's
+ * timestamp advanced by the time elapsed since it was read. Phase gating uses
+ * this rather than the local clock, which may be set wrong. Null until the
+ * first block is read.
+ */
+export function useChainClock(chain: ChainConfig) {
+  const [now, setNow] = useState<number | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    let anchor: { blockTime: number; readAt: number } | null = null;
+    setNow(null);
+
+    const tick = () =>
+      anchor
+        ? Math.floor(
+            anchor.blockTime + (performance.now() - anchor.readAt) / 1000
+          )
+        : null;
+
+    const sync = async () => {
+      try {
+        const block = await getReadRpc(chain).run((p) => p.getBlock("latest"));
+        if (cancelled || !block) return;
+        // Never step backwards when a lagging RPC answers a resync
+        const blockTime = Math.max(block.timestamp, tick() ?? 0);
+        anchor = { blockTime, readAt: performance.now() };
+        setNow(blockTime);
+      } catch (e) {
+        log.warn("Failed to read chain time", { error: e });
+      }
+    };
+    sync();
+    const resync = setInterval(sync, RESYNC_MS);
+    const ticker = setInterval(() => {
+      const t = tick();
+      if (t !== null) setNow(t);
+    }, 1000);
+    return () => {
+      cancelled = true;
+      clearInterval(resync);
+      clearInterval(ticker);
+    };
+  }, [chain]);
+
+  return now;
+}
@@ -0,0 +1,59 @@
+import { useCallback, useEffect, useState } from "react";
+import { fetchSchedule } from "./schedule";
+import type { MintPhase } from "./config";
+import type { ChainConfig } from "../chains/registry";
+import { createLogger } from "../logging/logger";
+
+const log = createLogger("phases");
+
+// Failed loads are retried, doubling the wait up to the cap
+const RETRY_MS = 5_000;
+const MAX_RETRY_MS = 60_000;
+
+/**
+ * Mint phases of `chain`, null until the first load; `reload` after the
+ * owner changes times or prices. `error` is the last failed load, cleared
+ * once one succeeds.
+ */
+export function useMintSchedule(chain: ChainConfig) {
+  const [phases, setPhases] = useState<MintPhase[] | null>(null);
+  const [error, setError] = useState<unknown>(null);
+  const [reloads, setReloads] = useState(0);
+
+  useEffect(() => {
+    setPhases(null);
+    setError(null);
+  }, [chain]);
+
+  useEffect(() => {
+    if (!chain.contractAddress) {
+      setPhases([]);
+      return;
+    }
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const load = async (failures: number) => {
+      try {
+        const next = await fetchSchedule(chain);
+        if (cancelled) return;
+        setPhases(next);
+        setError(null);
+      } catch (e) {
+        if (cancelled) return;
+        const delay = Math.min(RETRY_MS * 2 ** failures, MAX_RETRY_MS);
+        log.warn("Failed to load mint schedule", { error: e, retryIn: delay });
+        setError(e);
+        timer = setTimeout(() => load(failures + 1), delay);
+      }
+    };
+    load(0);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [chain, reloads]);
+
+  const reload = useCallback(() => setReloads((n) => n + 1), []);
+
+  return { phases, error, reload };
+}
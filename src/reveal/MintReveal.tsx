@@ -0,0 +1,200 @@
+import { useState } from "react";
+import { resolveUri } from "../gallery/metadata";
+import { explorerTxUrl } from "../chains/registry";
+import type { ChainConfig } from "../chains/registry";
+import { collectionPath } from "../collections/registry";
+import type { CollectionConfig } from "../collections/registry";
+import { navigate } from "../router";
+import { tokenPath } from "../token/tokenDetails";
+import { createLogger } from "../logging/logger";
+import { useI18n } from "../i18n/i18n";
+import type { MessageKey } from "../i18n/i18n";
+import {
+  canShare,
+  downloadBlob,
+  renderShareCard,
+  shareCard,
+} from "./shareCard";
+import { useRevealedTokens } from "./useRevealedTokens";
+import type { RevealedToken } from "./useRevealedTokens";
+
+const log = createLogger("reveal");
+
+interface MintRevealProps {
+  collection: CollectionConfig;
+  chain: ChainConfig;
+  tokenIds: bigint[];
+  hash: string; // the mint transaction
+}
+
+function imageUrls(token: RevealedToken) {
+  try {
+    return token.metadata?.image ? resolveUri(token.metadata.image) : [];
+  } catch {
+    return [];
+  }
+}
+
+function RevealCard({
+  collection,
+  chain,
+  token,
+  hash,
+  index,
+}: {
+  collection: CollectionConfig;
+  chain: ChainConfig;
+  token: RevealedToken;
+  hash: string;
+  index: number;
+}) {
+  const [imageIndex, setImageIndex] = useState(0);
+  const [busy, setBusy] = useState(false);
+  const { t } = useI18n();
+  const [cardError, setCardError] = useState<MessageKey | null>(null);
+  const urls = imageUrls(token);
+  const imageUrl = urls[imageIndex];
+  const label = `${collection.tokenName} #${token.tokenId}`;
+  const title = token.metadata?.name ?? label;
+  const href = collectionPath(collection, tokenPath(token.tokenId));
+
+  const renderCard = () =>
+    renderShareCard({
+      collectionName: collection.name,
+      title,
+      // Start from the gateway that worked for the <img>
+      imageUrls: urls.slice(imageIndex),
+      caption: t("reveal.mintedOn", { chain: chain.name }),
+      imageUnavailable: t("reveal.imageUnavailable"),
+      explorerUrl: explorerTxUrl(chain, hash),
+      accent: collection.theme.accent,
+    });
+  const fileName = `${collection.slug}-${token.tokenId}.png`;
+
+  async function run(action: (card: Blob) => Promise<void> | void) {
+    setBusy(true);
+    setCardError(null);
+    try {
+      await action(await renderCard());
+    } catch (e) {
+      // Closing the share sheet isn't an error
+      if ((e as { name?: string })?.name !== "AbortError") {
+        log.warn("Share card failed", { tokenId: token.tokenId, error: e });
+        setCardError("reveal.cardFailed");
+      }
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <li
+      className={`bg-white/5 rounded-lg overflow-hidden ${
+        token.loading ? "" : "motion-safe:animate-reveal"
+      }`}
+      style={{ animationDelay: `${index * 150}ms` }}
+    >
+      <div className="aspect-square bg-gray-800 flex items-center justify-center">
+        {token.loading ? (
+          <span className="text-4xl text-gray-500 animate-pulse">?</span>
+        ) : imageUrl ? (
+          <img
+            src={imageUrl}
+            alt={title}
+            className="w-full h-full object-cover"
+            // Try the next gateway if this one fails
+            onError={() => setImageIndex((i) => i + 1)}
+          />
+        ) : (
+          <span className="text-xs text-gray-500">
+            {t(token.error ?? "token.noImage")}
+          </span>
+        )}
+      </div>
+      <div className="p-2">
+        <a
+          href={href}
+          onClick={(e) => {
+            e.preventDefault();
+            navigate(href);
+          }}
+          className="block text-sm font-semibold truncate hover:underline"
+        >
+          {title}
+        </a>
+        {token.metadata?.name && (
+          <div className="text-[10px] text-gray-400">{label}</div>
+        )}
+        <div className="flex gap-1 mt-2 text-xs">
+          <button
+            onClick={() => run((card) => downloadBlob(card, fileName))}
+            disabled={busy || token.loading}
+            className="flex-1 px-2 py-1 rounded bg-accent hover:bg-accent-hover disabled:opacity-50"
+          >
+            {t("reveal.download")}
+          </button>
+          {canShare() && (
+            <button
+              onClick={() =>
+                run((card) =>
+                  shareCard(card, fileName, {
+                    title,
+                    text: t("reveal.shareText", {
+                      title,
+                      collection: collection.name,
+                    }),
+                    url: new URL(href, window.location.origin).toString(),
+                  })
+                )
+              }
+              disabled={busy || token.loading}
+              className="px-2 py-1 rounded bg-white/10 hover:bg-white/20 disabled:opacity-50"
+            >
+              {t("reveal.share")}
+            </button>
+          )}
+        </div>
+        {cardError && (
+          <div className="text-[10px] text-red-300 mt-1">{t(cardError)}</div>
+        )}
+      </div>
+    </li>
+  );
+}
+
+/** The tokens a mint just produced, revealed one after another. */
+export default function MintReveal({
+  collection,
+  chain,
+  tokenIds,
+  hash,
+}: MintRevealProps) {
+  const { t } = useI18n();
+  const tokens = useRevealedTokens(chain, tokenIds);
+  if (tokens.length === 0) return null;
+
+  return (
+    <div className="mb-6">
+      <h2 className="text-sm md:text-base font-semibold mb-2">
+        {t("reveal.title", {
+          tokens:
+            tokens.length === 1
+              ? collection.tokenName
+              : collection.tokenNamePlural,
+        })}
+      </h2>
+      <ul className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-3">
+        {tokens.map((token, i) => (
+          <RevealCard
+            key={token.tokenId.toString()}
+            collection={collection}
+            chain={chain}
+            token={token}
+            hash={hash}
+            index={i}
+          />
+        ))}
+      </ul>
+    </div>
+  );
+}
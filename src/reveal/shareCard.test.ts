@@ -0,0 +1,30 @@
+import { describe, expect, it } from "vitest";
+import { wrapText } from "./shareCard";
+
+// One unit per character keeps the widths easy to reason about
+const measure = (text: string) => text.length;
+
+describe("wrapText", () => {
+  it("breaks between words", () => {
+    expect(wrapText(measure, "Shramp #12 the Bold", 10, 3)).toEqual([
+      "Shramp #12",
+      "the Bold",
+    ]);
+  });
+
+  it("breaks inside a word too long for a line", () => {
+    expect(wrapText(measure, "see https://x.io/tx/0xabc", 10, 4)).toEqual([
+      "see",
+      "https://x.",
+      "io/tx/0xab",
+      "c",
+    ]);
+  });
+
+  it("ends the last line with an ellipsis when text is cut", () => {
+    expect(wrapText(measure, "one two three four", 5, 2)).toEqual([
+      "one",
+      "two…",
+    ]);
+  });
+});
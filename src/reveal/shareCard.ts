@@ -0,0 +1,201 @@
+// A PNG "I minted this" card, drawn client-side on a canvas. The size is the
+// Open Graph one, so the image previews well wherever it gets posted.
+
+export interface ShareCardInput {
+  collectionName: string;
+  title: string; // e.g. "Shramp #12"
+  imageUrls: string[]; // gateway URLs of the token image, best first
+  caption: string; // e.g. "Minted on Monad"
+  imageUnavailable: string; // drawn in place of an image that won't load
+  explorerUrl?: string;
+  accent: string;
+}
+
+export const CARD_WIDTH = 1200;
+export const CARD_HEIGHT = 630;
+const PADDING = 60;
+const IMAGE_SIZE = CARD_HEIGHT - 2 * PADDING;
+const FONT = "system-ui, -apple-system, Segoe UI, Roboto, sans-serif";
+
+/**
+ * Load an image the canvas can export. Cross-origin images only work when
+ * the gateway sends CORS headers; anything else would taint the canvas.
+ */
+function loadImage(url: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.crossOrigin = "anonymous";
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error(`Image failed to load: ${url}`));
+    img.src = url;
+  });
+}
+
+async function firstImage(urls: string[]) {
+  for (const url of urls) {
+    try {
+      return await loadImage(url);
+    } catch {
+      // try the next gateway
+    }
+  }
+  return null;
+}
+
+/**
+ * Lines of `text` no wider than `maxWidth`, breaking between words, or inside
+ * a word (a URL) that doesn't fit on a line of its own.
+ */
+export function wrapText(
+  measure: (text: string) => number,
+  text: string,
+  maxWidth: number,
+  maxLines: number
+): string[] {
+  const lines: string[] = [];
+  let line = "";
+  for (const word of text.split(" ")) {
+    const joined = line ? `${line} ${word}` : word;
+    if (measure(joined) <= maxWidth) {
+      line = joined;
+      continue;
+    }
+    if (line) lines.push(line);
+    line = "";
+    for (const char of word) {
+      if (line && measure(line + char) > maxWidth) {
+        lines.push(line);
+        line = "";
+      }
+      line += char;
+    }
+  }
+  if (line) lines.push(line);
+  if (lines.length <= maxLines) return lines;
+  const kept = lines.slice(0, maxLines);
+  let last = kept[maxLines - 1];
+  while (last && measure(`${last}…`) > maxWidth) last = last.slice(0, -1);
+  kept[maxLines - 1] = `${last}…`;
+  return kept;
+}
+
+function drawCover(
+  ctx: CanvasRenderingContext2D,
+  img: HTMLImageElement,
+  x: number,
+  y: number,
+  size: number
+) {
+  // Crop to a centered square, like object-fit: cover
+  const side = Math.min(img.naturalWidth, img.naturalHeight);
+  const sx = (img.naturalWidth - side) / 2;
+  const sy = (img.naturalHeight - side) / 2;
+  ctx.drawImage(img, sx, sy, side, side, x, y, size, size);
+}
+
+/** Draw the card and encode it as a PNG. */
+export async function renderShareCard(input: ShareCardInput): Promise<Blob> {
+  const canvas = document.createElement("canvas");
+  canvas.width = CARD_WIDTH;
+  canvas.height = CARD_HEIGHT;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas is not supported in this browser");
+
+  ctx.fillStyle = "#111827";
+  ctx.fillRect(0, 0, CARD_WIDTH, CARD_HEIGHT);
+  ctx.fillStyle = input.accent;
+  ctx.fillRect(0, CARD_HEIGHT - 12, CARD_WIDTH, 12);
+
+  const img = await firstImage(input.imageUrls);
+  if (img) {
+    drawCover(ctx, img, PADDING, PADDING, IMAGE_SIZE);
+  } else {
+    ctx.fillStyle = "#1f2937";
+    ctx.fillRect(PADDING, PADDING, IMAGE_SIZE, IMAGE_SIZE);
+    ctx.fillStyle = "#6b7280";
+    ctx.font = `32px ${FONT}`;
+    ctx.textAlign = "center";
+    ctx.fillText(
+      input.imageUnavailable,
+      PADDING + IMAGE_SIZE / 2,
+      PADDING + IMAGE_SIZE / 2
+    );
+    ctx.textAlign = "left";
+  }
+
+  const textX = PADDING * 2 + IMAGE_SIZE;
+  const textWidth = CARD_WIDTH - textX - PADDING;
+  const measure = (t: string) => ctx.measureText(t).width;
+  let y = PADDING + 40;
+
+  ctx.fillStyle = "#d1d5db";
+  ctx.font = `600 30px ${FONT}`;
+  for (const line of wrapText(measure, input.collectionName, textWidth, 2)) {
+    ctx.fillText(line, textX, y);
+    y += 40;
+  }
+
+  y += 40;
+  ctx.fillStyle = "#ffffff";
+  ctx.font = `bold 64px ${FONT}`;
+  for (const line of wrapText(measure, input.title, textWidth, 3)) {
+    ctx.fillText(line, textX, y);
+    y += 76;
+  }
+
+  ctx.fillStyle = input.accent;
+  ctx.font = `600 28px ${FONT}`;
+  ctx.fillText(input.caption, textX, y + 10);
+
+  if (input.explorerUrl) {
+    ctx.fillStyle = "#9ca3af";
+    ctx.font = `20px ${FONT}`;
+    const lines = wrapText(measure, input.explorerUrl, textWidth, 3);
+    let lineY = CARD_HEIGHT - PADDING - 12 - 28 * (lines.length - 1);
+    for (const line of lines) {
+      ctx.fillText(line, textX, lineY);
+      lineY += 28;
+    }
+  }
+
+  return new Promise((resolve, reject) => {
+    try {
+      canvas.toBlob(
+        (blob) =>
+          blob ? resolve(blob) : reject(new Error("Could not encode the card")),
+        "image/png"
+      );
+    } catch (e) {
+      // SecurityError: an image without CORS headers tainted the canvas
+      reject(e);
+    }
+  });
+}
+
+export const canShare = () => typeof navigator.share === "function";
+
+/**
+ * Open the OS share sheet with the card attached, or with just the link where
+ * the browser can't share files.
+ */
+export async function shareCard(
+  blob: Blob,
+  fileName: string,
+  share: { title: string; text: string; url: string }
+) {
+  const file = new File([blob], fileName, { type: blob.type });
+  const withFile = { ...share, files: [file] };
+  await navigator.share(navigator.canShare?.(withFile) ? withFile : share);
+}
+
+export function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  // Give the browser a moment to start the download before revoking
+  setTimeout(() => URL.revokeObjectURL(url), 1_000);
+}
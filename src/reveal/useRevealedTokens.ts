@@ -0,0 +1,57 @@
+import { useEffect, useState } from "react";
+import { fetchTokenMetadata } from "../gallery/metadata";
+import type { TokenMetadata } from "../gallery/metadata";
+import { fetchTokenUri } from "../gallery/ownedTokens";
+import type { ChainConfig } from "../chains/registry";
+import { createLogger } from "../logging/logger";
+import type { MessageKey } from "../i18n/i18n";
+
+const log = createLogger("reveal");
+
+export interface RevealedToken {
+  tokenId: bigint;
+  metadata: TokenMetadata | null;
+  // Set when the metadata couldn't be loaded (e.g. not revealed yet)
+  error: MessageKey | null;
+  loading: boolean;
+}
+
+/** Metadata of freshly minted tokens, each one filled in as it arrives. */
+export function useRevealedTokens(chain: ChainConfig, tokenIds: bigint[]) {
+  const key = tokenIds.join(",");
+  const [tokens, setTokens] = useState<RevealedToken[]>([]);
+
+  useEffect(() => {
+    const ids = key ? key.split(",").map(BigInt) : [];
+    setTokens(
+      ids.map((tokenId) => ({
+        tokenId,
+        metadata: null,
+        error: null,
+        loading: true,
+      }))
+    );
+    let cancelled = false;
+    const update = (tokenId: bigint, patch: Partial<RevealedToken>) =>
+      !cancelled &&
+      setTokens((list) =>
+        list.map((t) =>
+          t.tokenId === tokenId ? { ...t, ...patch, loading: false } : t
+        )
+      );
+    for (const tokenId of ids) {
+      fetchTokenUri(chain, tokenId)
+        .then(fetchTokenMetadata)
+        .then((metadata) => update(tokenId, { metadata }))
+        .catch((e) => {
+          log.warn("Minted token metadata failed", { tokenId, error: e });
+          update(tokenId, { error: "token.metadataUnavailable" });
+        });
+    }
+    return () => {
+      cancelled = true;
+    };
+  }, [chain, key]);
+
+  return tokens;
+}
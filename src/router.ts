@@ -0,0 +1,27 @@
+import { useEffect, useState } from "react";
+
+// Minimal History API routing; the app only has a handful of pages.
+
+const NAVIGATE_EVENT = "shramp:navigate";
+
+export function navigate(path: string) {
+  if (path === window.location.pathname) return;
+  window.history.pushState(null, "", path);
+  window.dispatchEvent(new Event(NAVIGATE_EVENT));
+  window.scrollTo(0, 0);
+}
+
+/** Current `location.pathname`, updated on navigate() and back/forward. */
+export function usePathname() {
+  const [pathname, setPathname] = useState(window.location.pathname);
+  useEffect(() => {
+    const update = () => setPathname(window.location.pathname);
+    window.addEventListener("popstate", update);
+    window.addEventListener(NAVIGATE_EVENT, update);
+    return () => {
+      window.removeEventListener("popstate", update);
+      window.removeEventListener(NAVIGATE_EVENT, update);
+    };
+  }, []);
+  return pathname;
+}
@@ -0,0 +1,61 @@
+import type { Log } from "ethers";
+import { getReadRpc } from "./readProvider";
+import type { ChainConfig } from "../chains/registry";
+
+// Chunked eth_getLogs for the chain's contract. Nodes cap the block range
+// (or result count) per request, so scans go window by window and shrink the
+// window whenever a node rejects one as too large.
+
+const INITIAL_CHUNK = 1_000;
+const MIN_CHUNK = 10;
+
+function isRangeTooLarge(err: unknown) {
+  const e = err as { message?: string; error?: { message?: string } };
+  const text = `${e?.message ?? ""} ${e?.error?.message ?? ""}`;
+  return /range|too many|limit|exceed|10000|block count/i.test(text);
+}
+
+/**
+ * Logs of the chain's contract matching `topics` over [fromBlock, toBlock].
+ * `onChunk` runs after every window with its logs and last block, e.g. to
+ * checkpoint a long scan; the returned list holds every log either way.
+ */
+export async function fetchContractLogs(
+  chain: ChainConfig,
+  topics: (string | string[] | null)[],
+  fromBlock: number,
+  toBlock: number,
+  {
+    chunk = INITIAL_CHUNK,
+    onChunk,
+  }: {
+    chunk?: number;
+    onChunk?: (logs: Log[], endBlock: number) => void | Promise<void>;
+  } = {}
+): Promise<Log[]> {
+  const address = chain.contractAddress;
+  if (!address) return [];
+  const readRpc = getReadRpc(chain);
+  const out: Log[] = [];
+  let start = fromBlock;
+  let size = chunk;
+  while (start <= toBlock) {
+    const end = Math.min(toBlock, start + size - 1);
+    let logs: Log[];
+    try {
+      logs = await readRpc.run((p) =>
+        p.getLogs({ address, topics, fromBlock: start, toBlock: end })
+      );
+    } catch (err) {
+      if (size > MIN_CHUNK && isRangeTooLarge(err)) {
+        size = Math.max(MIN_CHUNK, Math.floor(size / 2));
+        continue;
+      }
+      throw err;
+    }
+    out.push(...logs);
+    await onChunk?.(logs, end);
+    start = end + 1;
+  }
+  return out;
+}
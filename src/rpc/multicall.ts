@@ -0,0 +1,152 @@
+import { Contract, Interface } from "ethers";
+import contractABI from "../contractABI";
+import { getReadRpc } from "./readProvider";
+import type { ChainConfig } from "../chains/registry";
+import { createLogger } from "../logging/logger";
+
+// Batched contract reads. Uses Multicall3 `aggregate3` when it is deployed on
+// the chain, otherwise falls back to (throttled) parallel single calls. Each
+// call succeeds or fails on its own, like `allowFailure: true`.
+
+const log = createLogger("rpc");
+
+export interface ReadCall {
+  fn: string; // function name in contractABI
+  args?: unknown[];
+}
+
+export interface ReadOptions {
+  // Read state as of this block instead of the latest one
+  blockTag?: number;
+}
+
+export type ReadResult<T = unknown> =
+  | { success: true; value: T }
+  | { success: false; error: unknown };
+
+const MULTICALL3_ABI = [
+  "function aggregate3((address target, bool allowFailure, bytes callData)[] calls) payable returns ((bool success, bytes returnData)[] returnData)",
+];
+
+// Calls per aggregate3 request, and concurrency of the single-call fallback
+const MULTICALL_BATCH = 100;
+const FALLBACK_CONCURRENCY = 10;
+
+const iface = new Interface(contractABI);
+const multicallAvailable = new Map<number, Promise<boolean>>();
+
+/** Whether Multicall3 has code on `chain` (checked once per session). */
+function hasMulticall(chain: ChainConfig): Promise<boolean> {
+  const address = chain.multicall3Address;
+  if (!address) return Promise.resolve(false);
+  let cached = multicallAvailable.get(chain.id);
+  if (!cached) {
+    cached = getReadRpc(chain)
+      .run((p) => p.getCode(address))
+      .then((code) => code !== "0x")
+      .catch(() => false);
+    multicallAvailable.set(chain.id, cached);
+  }
+  return cached;
+}
+
+function decodeResult(call: ReadCall, returnData: string): unknown {
+  const decoded = iface.decodeFunctionResult(call.fn, returnData);
+  return decoded.length === 1 ? decoded[0] : decoded.toArray();
+}
+
+async function viaMulticall(
+  chain: ChainConfig,
+  calls: ReadCall[],
+  { blockTag }: ReadOptions
+): Promise<ReadResult[]> {
+  const target = chain.contractAddress!;
+  const results: ReadResult[] = [];
+  for (let i = 0; i < calls.length; i += MULTICALL_BATCH) {
+    const batch = calls.slice(i, i + MULTICALL_BATCH);
+    const encoded = batch.map((c) => ({
+      target,
+      allowFailure: true,
+      callData: iface.encodeFunctionData(c.fn, c.args ?? []),
+    }));
+    const raw: { success: boolean; returnData: string }[] = await getReadRpc(
+      chain
+    ).run((p) =>
+      new Contract(chain.multicall3Address!, MULTICALL3_ABI, p)
+        .getFunction("aggregate3")
+        .staticCall(encoded, { blockTag })
+    );
+    raw.forEach((r, j) => {
+      const call = batch[j];
+      if (!r.success) {
+        // Keep the revert payload so callers can decode the reason
+        results.push({
+          success: false,
+          error: { code: "CALL_EXCEPTION", data: r.returnData, call },
+        });
+        return;
+      }
+      try {
+        results.push({
+          success: true,
+          value: decodeResult(call, r.returnData),
+        });
+      } catch (error) {
+        // e.g. empty return data: the function isn't implemented
+        results.push({ success: false, error });
+      }
+    });
+  }
+  return results;
+}
+
+async function viaSingleCalls(
+  chain: ChainConfig,
+  calls: ReadCall[],
+  { blockTag }: ReadOptions
+): Promise<ReadResult[]> {
+  const readRpc = getReadRpc(chain);
+  const results: ReadResult[] = [];
+  for (let i = 0; i < calls.length; i += FALLBACK_CONCURRENCY) {
+    const batch = calls.slice(i, i + FALLBACK_CONCURRENCY);
+    const settled = await Promise.allSettled(
+      batch.map((c) =>
+        readRpc.run((p) =>
+          new Contract(chain.contractAddress!, contractABI, p)
+            .getFunction(c.fn)
+            .staticCall(...(c.args ?? []), { blockTag })
+        )
+      )
+    );
+    for (const s of settled) {
+      results.push(
+        s.status === "fulfilled"
+          ? { success: true, value: s.value }
+          : { success: false, error: s.reason }
+      );
+    }
+  }
+  return results;
+}
+
+/**
+ * Read several contract functions at once. Results line up with `calls`.
+ * Rejects only when the batch itself can't be sent (e.g. every RPC is down).
+ */
+export async function batchRead(
+  chain: ChainConfig,
+  calls: ReadCall[],
+  opts: ReadOptions = {}
+): Promise<ReadResult[]> {
+  if (!chain.contractAddress || calls.length === 0) return [];
+  if (await hasMulticall(chain)) {
+    try {
+      return await viaMulticall(chain, calls, opts);
+    } catch (err) {
+      log.warn("Multicall failed, falling back to single calls", {
+        error: err,
+      });
+    }
+  }
+  return viaSingleCalls(chain, calls, opts);
+}
@@ -0,0 +1,132 @@
+import { JsonRpcProvider, Network } from "ethers";
+import type { ChainConfig } from "../chains/registry";
+import { createLogger } from "../logging/logger";
+
+// Read-only JSON-RPC access, independent of any injected wallet.
+// The wallet is only needed for signing; every `view` call goes through here.
+
+const log = createLogger("rpc");
+
+// How long a failing endpoint is skipped before being tried again
+const COOLDOWN_MS = 30_000;
+
+/**
+ * True for failures that say nothing about the call itself (rate limits,
+ * timeouts, dead endpoints), so the same request may succeed elsewhere.
+ * Reverts (CALL_EXCEPTION) are deliberately not retried.
+ */
+export function isRetryableRpcError(err: unknown): boolean {
+  const e = err as {
+    code?: number | string;
+    status?: number;
+    message?: string;
+    shortMessage?: string;
+    error?: { code?: number; message?: string };
+    info?: { responseStatus?: string };
+  };
+  if (!e) return false;
+  if (e.code === "CALL_EXCEPTION") return false;
+  if (
+    e.code === "NETWORK_ERROR" ||
+    e.code === "TIMEOUT" ||
+    e.code === "SERVER_ERROR" ||
+    e.code === "UNKNOWN_ERROR"
+  ) {
+    return true;
+  }
+  const numericCode = typeof e.code === "number" ? e.code : e.error?.code;
+  if (numericCode === -32005 || numericCode === 429 || e.status === 429) {
+    return true;
+  }
+  const text = [
+    e.message,
+    e.shortMessage,
+    e.error?.message,
+    e.info?.responseStatus,
+  ]
+    .filter(Boolean)
+    .join(" ");
+  return /rate limit|too many requests|429|timeout|failed to fetch|bad response|50[234]/i.test(
+    text
+  );
+}
+
+interface Endpoint {
+  url: string;
+  provider: JsonRpcProvider;
+  cooldownUntil: number;
+}
+
+export class ReadRpc {
+  private endpoints: Endpoint[];
+
+  constructor(urls: string[], chainId: number) {
+    // staticNetwork skips the eth_chainId probe (and its retry loop) per URL
+    const network = Network.from(chainId);
+    this.endpoints = urls.map((url) => ({
+      url,
+      provider: new JsonRpcProvider(url, network, { staticNetwork: network }),
+      cooldownUntil: 0,
+    }));
+  }
+
+  /** Provider of the endpoint currently considered healthy. */
+  get provider(): JsonRpcProvider {
+    return this.ordered()[0].provider;
+  }
+
+  get urls(): string[] {
+    return this.endpoints.map((e) => e.url);
+  }
+
+  // Healthy endpoints first (in configured order), then cooling ones
+  private ordered(): Endpoint[] {
+    const now = Date.now();
+    const healthy = this.endpoints.filter((e) => e.cooldownUntil <= now);
+    const cooling = this.endpoints
+      .filter((e) => e.cooldownUntil > now)
+      .sort((a, b) => a.cooldownUntil - b.cooldownUntil);
+    return [...healthy, ...cooling];
+  }
+
+  /**
+   * Run `fn` against the first healthy endpoint, failing over to the next one
+   * on retryable errors. Non-retryable errors are rethrown immediately.
+   */
+  async run<T>(fn: (provider: JsonRpcProvider) => Promise<T>): Promise<T> {
+    let lastErr: unknown;
+    for (const endpoint of this.ordered()) {
+      try {
+        const result = await fn(endpoint.provider);
+        endpoint.cooldownUntil = 0;
+        return result;
+      } catch (err) {
+        if (!isRetryableRpcError(err)) throw err;
+        log.warn("RPC endpoint failed, failing over", {
+          endpoint: endpoint.url,
+          error: err,
+        });
+        endpoint.cooldownUntil = Date.now() + COOLDOWN_MS;
+        lastErr = err;
+      }
+    }
+    throw lastErr;
+  }
+}
+
+const readRpcs = new Map<string, ReadRpc>();
+
+/**
+ * Shared read client for `chain` (endpoint health is tracked per chain).
+ * Keyed by the endpoints too: two configs for one chain id can list
+ * different RPCs.
+ */
+export function getReadRpc(chain: ChainConfig): ReadRpc {
+  const key = `${chain.id}:${chain.rpcUrls.join(",")}`;
+  let rpc = readRpcs.get(key);
+  if (!rpc) {
+    rpc = new ReadRpc(chain.rpcUrls, chain.id);
+    readRpcs.set(key, rpc);
+  }
+  return rpc;
+}
@@ -0,0 +1,123 @@
+import { useEffect, useState } from "react";
+import type { ReactNode } from "react";
+import { getContract } from "../contract";
+import { getReadRpc } from "../rpc/readProvider";
+import type { ChainConfig } from "../chains/registry";
+import type { CollectionConfig } from "../collections/registry";
+import { useI18n } from "../i18n/i18n";
+import type { Translatable } from "../i18n/i18n";
+import type { SiweSession } from "./session";
+import { createLogger } from "../logging/logger";
+
+const log = createLogger("siwe");
+
+interface HolderSectionProps {
+  collection: CollectionConfig;
+  chain: ChainConfig;
+  session: SiweSession | null;
+  signing: boolean;
+  error: Translatable[] | null;
+  onSignIn: () => void;
+  onSignOut: () => void;
+  // Changes whenever holdings may have (e.g. after a mint)
+  refreshKey?: unknown;
+  // Shown only to a signed-in address with a nonzero balance
+  children: ReactNode;
+}
+
+function shortAddress(address: string) {
+  return `${address.slice(0, 6)}...${address.slice(-4)}`;
+}
+
+/** Holder-only content, unlocked by SIWE plus an on-chain balance check. */
+export default function HolderSection({
+  collection,
+  chain,
+  session,
+  signing,
+  error,
+  onSignIn,
+  onSignOut,
+  refreshKey,
+  children,
+}: HolderSectionProps) {
+  const { t } = useI18n();
+  const [balance, setBalance] = useState<bigint | null>(null);
+  const address = session?.address;
+  const { tokenName, tokenNamePlural } = collection;
+
+  useEffect(() => {
+    setBalance(null);
+    if (!address) return;
+    let stale = false;
+    getReadRpc(chain)
+      .run((p) => getContract(chain, p).balanceOf(address))
+      .then((b) => !stale && setBalance(b))
+      .catch((e) => {
+        log.error("Holder balance read failed", { error: e });
+        if (!stale) setBalance(0n);
+      });
+    return () => {
+      stale = true;
+    };
+  }, [chain, address, refreshKey]);
+
+  return (
+    <div className="mt-6">
+      <h2 className="text-sm md:text-base font-semibold mb-2">
+        {t("holder.title")}
+      </h2>
+      {!session ? (
+        <div className="text-xs md:text-sm text-gray-300">
+          <p className="mb-2">
+            {t("holder.signInPrompt", { token: tokenName })}
+          </p>
+          <button
+            onClick={onSignIn}
+            disabled={signing}
+            className="px-3 py-1 rounded bg-accent hover:bg-accent-hover disabled:opacity-50"
+          >
+            {signing ? t("holder.checkWallet") : t("holder.signIn")}
+          </button>
+          {error && (
+            <p className="mt-2 text-red-300">
+              {error.map((e) => t(e)).join(" ")}
+            </p>
+          )}
+        </div>
+      ) : balance === null ? (
+        <div className="text-xs text-gray-400">
+          {t("holder.checking", { tokens: tokenNamePlural })}
+        </div>
+      ) : (
+        <div className="text-xs md:text-sm text-gray-300">
+          {balance > 0n ? (
+            <>
+              <p className="mb-2">
+                {t("holder.signedIn", {
+                  address: shortAddress(session.address),
+                  count: balance,
+                  tokens: balance === 1n ? tokenName : tokenNamePlural,
+                })}
+              </p>
+              {children}
+            </>
+          ) : (
+            <p>
+              {t("holder.notHolder", {
+                address: shortAddress(session.address),
+                token: tokenName,
+              })}
+            </p>
+          )}
+          <button
+            onClick={onSignOut}
+            className="mt-2 text-xs underline text-gray-400 hover:text-white"
+          >
+            {t("holder.signOut")}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
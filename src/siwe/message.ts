@@ -0,0 +1,146 @@
+import { getAddress } from "ethers";
+
+// Sign-In with Ethereum (EIP-4361) messages. Pure string handling with no
+// DOM access, so the Node verifier (scripts/siwe-verifier.ts) shares it.
+
+export interface SiweMessage {
+  domain: string; // host[:port] of the site asking for the signature
+  address: string; // EIP-55 checksummed
+  statement?: string;
+  uri: string;
+  version: "1";
+  chainId: number;
+  nonce: string;
+  issuedAt: string; // ISO 8601
+  expirationTime?: string;
+  notBefore?: string;
+  requestId?: string;
+  resources?: string[];
+}
+
+const HEADER = " wants you to sign in with your Ethereum account:";
+const NONCE_CHARS =
+  "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789";
+
+/** Random alphanumeric nonce (EIP-4361 asks for at least 8 characters). */
+export function generateNonce(length = 17): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(length));
+  return Array.from(bytes, (b) => NONCE_CHARS[b % NONCE_CHARS.length]).join("");
+}
+
+/** The exact text the wallet signs. */
+export function formatSiweMessage(m: SiweMessage): string {
+  const lines = [`${m.domain}${HEADER}`, getAddress(m.address), ""];
+  if (m.statement) lines.push(m.statement);
+  lines.push(
+    "",
+    `URI: ${m.uri}`,
+    `Version: ${m.version}`,
+    `Chain ID: ${m.chainId}`,
+    `Nonce: ${m.nonce}`,
+    `Issued At: ${m.issuedAt}`
+  );
+  if (m.expirationTime) lines.push(`Expiration Time: ${m.expirationTime}`);
+  if (m.notBefore) lines.push(`Not Before: ${m.notBefore}`);
+  if (m.requestId !== undefined) lines.push(`Request ID: ${m.requestId}`);
+  if (m.resources?.length) {
+    lines.push("Resources:", ...m.resources.map((r) => `- ${r}`));
+  }
+  return lines.join("\n");
+}
+
+const FIELDS: Record<string, keyof SiweMessage> = {
+  URI: "uri",
+  Version: "version",
+  "Chain ID": "chainId",
+  Nonce: "nonce",
+  "Issued At": "issuedAt",
+  "Expiration Time": "expirationTime",
+  "Not Before": "notBefore",
+  "Request ID": "requestId",
+};
+
+// RFC 3339 date-time, the timestamp format EIP-4361 requires
+const TIMESTAMP =
+  /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})$/i;
+
+/** Whether `value` is an RFC 3339 timestamp that names a real instant. */
+function isSiweTimestamp(value: string): boolean {
+  return TIMESTAMP.test(value) && !Number.isNaN(Date.parse(value));
+}
+
+/** Parse a message produced by `formatSiweMessage`; throws if malformed. */
+export function parseSiweMessage(text: string): SiweMessage {
+  const lines = text.split("\n");
+  const fail = (why: string): never => {
+    throw new Error(`Malformed SIWE message: ${why}`);
+  };
+
+  if (!lines[0]?.endsWith(HEADER)) fail("missing header");
+  const domain = lines[0].slice(0, -HEADER.length);
+  let address = "";
+  try {
+    address = getAddress(lines[1] ?? "");
+  } catch {
+    fail("invalid address");
+  }
+  if (lines[1] !== address) fail("address is not checksummed");
+  if (lines[2] !== "") fail("expected a blank line after the address");
+
+  // Optional statement, then a blank line before the fields
+  let i = 3;
+  let statement: string | undefined;
+  if (lines[i] !== "") {
+    statement = lines[i++];
+    if (lines[i] !== "") fail("expected a blank line after the statement");
+  }
+  i++;
+
+  const fields: Partial<Record<keyof SiweMessage, string>> = {};
+  let resources: string[] | undefined;
+  for (; i < lines.length; i++) {
+    const line = lines[i];
+    if (line === "Resources:") {
+      resources = lines.slice(i + 1).map((r) => {
+        if (!r.startsWith("- ")) fail(`bad resource line "${r}"`);
+        return r.slice(2);
+      });
+      break;
+    }
+    const sep = line.indexOf(": ");
+    const key = sep > 0 ? FIELDS[line.slice(0, sep)] : undefined;
+    if (!key) fail(`unexpected line "${line}"`);
+    if (key! in fields) fail(`duplicate field "${line.slice(0, sep)}"`);
+    fields[key!] = line.slice(sep + 2);
+  }
+
+  const { uri, version, chainId, nonce, issuedAt } = fields;
+  if (!uri || !nonce || !issuedAt || !chainId) fail("missing required field");
+  if (version !== "1") fail(`unsupported version ${version}`);
+  if (!/^[a-zA-Z0-9]{8,}$/.test(nonce!)) fail("nonce too short");
+  if (!/^[1-9]\d*$/.test(chainId!)) fail(`invalid chain ID ${chainId}`);
+  const timestamps = {
+    "Issued At": issuedAt,
+    "Expiration Time": fields.expirationTime,
+    "Not Before": fields.notBefore,
+  };
+  for (const [name, value] of Object.entries(timestamps)) {
+    if (value !== undefined && !isSiweTimestamp(value)) {
+      fail(`${name} is not an ISO 8601 timestamp`);
+    }
+  }
+  return {
+    domain,
+    address,
+    statement,
+    uri: uri!,
+    version: "1",
+    chainId: Number(chainId),
+    nonce: nonce!,
+    issuedAt: issuedAt!,
+    expirationTime: fields.expirationTime,
+    notBefore: fields.notBefore,
+    requestId: fields.requestId,
+    resources,
+  };
+}
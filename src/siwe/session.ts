@@ -0,0 +1,150 @@
+import { BrowserProvider, getAddress } from "ethers";
+import type { ChainConfig } from "../chains/registry";
+import type { EIP1193Provider } from "../wallet/eip6963";
+import { formatSiweMessage, generateNonce, parseSiweMessage } from "./message";
+import { SiweError, verifySiweMessage } from "./verify";
+import { createLogger } from "../logging/logger";
+
+// Browser side of Sign-In with Ethereum. With VITE_SIWE_VERIFIER_URL set the
+// nonce comes from, and the signature is checked by, that verifier (see
+// scripts/siwe-verifier.ts); otherwise both happen in the page, which is
+// enough to gate UI but proves nothing to a server.
+
+const log = createLogger("siwe");
+
+export interface SiweSession {
+  address: string;
+  chainId: number;
+  collection: string; // slug of the collection signed in to
+  message: string;
+  signature: string;
+  expiresAt: string;
+}
+
+const STORAGE_KEY = "shramp:siwe";
+const SESSION_MS = 8 * 60 * 60_000;
+
+const verifierUrl = import.meta.env.VITE_SIWE_VERIFIER_URL?.replace(/\/$/, "");
+
+async function fetchNonce(): Promise<string> {
+  if (!verifierUrl) return generateNonce();
+  const res = await fetch(`${verifierUrl}/nonce`, { credentials: "include" });
+  if (!res.ok) throw new Error(`Verifier nonce request failed (${res.status})`);
+  return (await res.text()).trim();
+}
+
+async function verify(
+  message: string,
+  signature: string,
+  nonce: string,
+  chainId: number
+) {
+  if (!verifierUrl) {
+    verifySiweMessage(message, signature, {
+      domain: window.location.host,
+      nonce,
+      chainIds: [chainId],
+    });
+    return;
+  }
+  const res = await fetch(`${verifierUrl}/verify`, {
+    method: "POST",
+    credentials: "include",
+    headers: { "content-type": "application/json" },
+    body: JSON.stringify({ message, signature }),
+  });
+  if (!res.ok) {
+    const body = (await res.json().catch(() => ({}))) as { error?: string };
+    throw new Error(body.error ?? `Sign-in was rejected (${res.status})`);
+  }
+}
+
+/**
+ * Ask the wallet to sign a SIWE message for `account` and verify it.
+ * `statement` is the human-readable line the wallet shows; verifiers don't
+ * check it, so it can name the collection in the user's language.
+ */
+export async function signInWithEthereum(
+  chain: ChainConfig,
+  collection: string,
+  statement: string,
+  walletProvider: EIP1193Provider,
+  account: string
+): Promise<SiweSession> {
+  const nonce = await fetchNonce();
+  const issuedAt = new Date();
+  const expiresAt = new Date(issuedAt.getTime() + SESSION_MS).toISOString();
+  const message = formatSiweMessage({
+    domain: window.location.host,
+    address: getAddress(account),
+    statement,
+    uri: window.location.origin,
+    version: "1",
+    chainId: chain.id,
+    nonce,
+    issuedAt: issuedAt.toISOString(),
+    expirationTime: expiresAt,
+  });
+  const signer = await new BrowserProvider(walletProvider).getSigner(account);
+  const signature = await signer.signMessage(message);
+  await verify(message, signature, nonce, chain.id);
+
+  const session: SiweSession = {
+    address: getAddress(account),
+    chainId: chain.id,
+    collection,
+    message,
+    signature,
+    expiresAt,
+  };
+  try {
+    sessionStorage.setItem(STORAGE_KEY, JSON.stringify(session));
+  } catch {
+    // storage may be unavailable; the session lasts until reload
+  }
+  return session;
+}
+
+/**
+ * The stored session for `account` on `chainId` in `collection`, if it's still
+ * valid.
+ * Signature and expiry are re-checked so a hand-edited entry is ignored.
+ */
+export function loadSiweSession(
+  account: string | null,
+  chainId: number,
+  collection: string
+): SiweSession | null {
+  if (!account) return null;
+  try {
+    const raw = sessionStorage.getItem(STORAGE_KEY);
+    if (!raw) return null;
+    const session = JSON.parse(raw) as SiweSession;
+    if (
+      session.address !== getAddress(account) ||
+      session.chainId !== chainId ||
+      session.collection !== collection
+    ) {
+      return null;
+    }
+    const signed = verifySiweMessage(session.message, session.signature, {
+      domain: window.location.host,
+      nonce: parseSiweMessage(session.message).nonce,
+      chainIds: [chainId],
+    });
+    return signed.address === session.address ? session : null;
+  } catch (e) {
+    if (!(e instanceof SiweError) || e.reason !== "expired") {
+      log.warn("Ignoring stored SIWE session", { error: e });
+    }
+    return null;
+  }
+}
+
+export function clearSiweSession() {
+  try {
+    sessionStorage.removeItem(STORAGE_KEY);
+  } catch {
+    // nothing stored
+  }
+}
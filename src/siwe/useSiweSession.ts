@@ -0,0 +1,95 @@
+import { useCallback, useEffect, useState } from "react";
+import type { ChainConfig } from "../chains/registry";
+import type { CollectionConfig } from "../collections/registry";
+import { describeTxError } from "../errors/decodeError";
+import type { EIP1193Provider } from "../wallet/eip6963";
+import { useI18n } from "../i18n/i18n";
+import type { MessageKey, Translatable } from "../i18n/i18n";
+import {
+  clearSiweSession,
+  loadSiweSession,
+  signInWithEthereum,
+} from "./session";
+import type { SiweSession } from "./session";
+import { SiweError } from "./verify";
+import type { SiweFailure } from "./verify";
+import { createLogger } from "../logging/logger";
+
+const log = createLogger("siwe");
+
+const FAILURES: Record<SiweFailure, MessageKey> = {
+  malformed: "siwe.malformed",
+  domain: "siwe.domain",
+  nonce: "siwe.nonce",
+  chain: "siwe.chain",
+  expired: "siwe.expired",
+  "not-yet-valid": "siwe.notYetValid",
+  signature: "siwe.signature",
+};
+
+/**
+ * SIWE session for the connected account in `collection`; dropped when
+ * either changes.
+ */
+export function useSiweSession(
+  chain: ChainConfig,
+  collection: CollectionConfig,
+  walletProvider: EIP1193Provider | undefined,
+  account: string | null
+) {
+  const { t } = useI18n();
+  const [session, setSession] = useState<SiweSession | null>(() =>
+    loadSiweSession(account, chain.id, collection.slug)
+  );
+  const [signing, setSigning] = useState(false);
+  const [error, setError] = useState<Translatable[] | null>(null);
+
+  useEffect(() => {
+    setSession(loadSiweSession(account, chain.id, collection.slug));
+    setError(null);
+  }, [account, chain.id, collection.slug]);
+
+  // Expire the session in place rather than waiting for a reload
+  useEffect(() => {
+    if (!session) return;
+    const ms = Date.parse(session.expiresAt) - Date.now();
+    const timer = setTimeout(() => setSession(null), Math.max(0, ms));
+    return () => clearTimeout(timer);
+  }, [session]);
+
+  const signIn = useCallback(async () => {
+    if (!walletProvider || !account) return;
+    setSigning(true);
+    setError(null);
+    try {
+      setSession(
+        await signInWithEthereum(
+          chain,
+          collection.slug,
+          t("siwe.statement", { collection: collection.name }),
+          walletProvider,
+          account
+        )
+      );
+    } catch (e) {
+      log.warn("Sign-in failed", { error: e });
+      // A verifier rejection comes back as a plain Error; the log has its text
+      setError(
+        e instanceof SiweError
+          ? [{ key: FAILURES[e.reason] }]
+          : !(e as { code?: unknown })?.code
+          ? [{ key: "siwe.failed" }]
+          : describeTxError(e)
+      );
+    } finally {
+      setSigning(false);
+    }
+  }, [chain, collection, t, walletProvider, account]);
+
+  const signOut = useCallback(() => {
+    clearSiweSession();
+    setSession(null);
+  }, []);
+
+  return { session, signing, error, signIn, signOut };
+}
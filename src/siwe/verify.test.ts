@@ -0,0 +1,158 @@
+import { describe, expect, it } from "vitest";
+import { Wallet } from "ethers";
+import { formatSiweMessage, parseSiweMessage } from "./message";
+import type { SiweMessage } from "./message";
+import { SiweError, verifySiweMessage } from "./verify";
+
+const wallet = new Wallet(
+  "0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d"
+);
+const NOW = new Date("2025-06-01T12:00:00Z");
+
+const fields: SiweMessage = {
+  domain: "shramp.example",
+  address: wallet.address,
+  statement: "Sign in to Shramp NFT to unlock holder features.",
+  uri: "https://shramp.example",
+  version: "1",
+  chainId: 10143,
+  nonce: "a1B2c3D4e5F6g7H8",
+  issuedAt: "2025-06-01T11:59:00.000Z",
+  expirationTime: "2025-06-01T19:59:00.000Z",
+};
+
+async function signed(overrides: Partial<SiweMessage> = {}) {
+  const text = formatSiweMessage({ ...fields, ...overrides });
+  return { text, signature: await wallet.signMessage(text) };
+}
+
+function failure(fn: () => unknown) {
+  try {
+    fn();
+  } catch (e) {
+    return (e as SiweError).reason;
+  }
+  return null;
+}
+
+describe("SIWE messages", () => {
+  it("round-trips through format and parse", () => {
+    const withResources = { ...fields, resources: ["ipfs://bafy/1"] };
+    expect(parseSiweMessage(formatSiweMessage(withResources))).toEqual({
+      ...withResources,
+      notBefore: undefined,
+      requestId: undefined,
+    });
+  });
+
+  it("follows the EIP-4361 layout without a statement", () => {
+    const text = formatSiweMessage({ ...fields, statement: undefined });
+    expect(text).toContain(`${wallet.address}\n\n\nURI: `);
+    expect(parseSiweMessage(text).statement).toBeUndefined();
+  });
+
+  it("rejects timestamps that aren't ISO 8601", () => {
+    for (const field of ["issuedAt", "expirationTime", "notBefore"] as const) {
+      for (const value of ["tomorrow", "2025-06-01", "2025-13-01T00:00:00Z"]) {
+        const text = formatSiweMessage({ ...fields, [field]: value });
+        expect(() => parseSiweMessage(text)).toThrow(/ISO 8601/);
+      }
+    }
+    const offset = formatSiweMessage({
+      ...fields,
+      notBefore: "2025-06-01T13:00:00+02:00",
+    });
+    expect(parseSiweMessage(offset).notBefore).toBe(
+      "2025-06-01T13:00:00+02:00"
+    );
+  });
+
+  it("rejects duplicate fields", () => {
+    const text = formatSiweMessage(fields);
+    for (const line of [
+      "Nonce: zzzzzzzzzz",
+      "Chain ID: 1",
+      "Expiration Time: 2099-01-01T00:00:00Z",
+    ]) {
+      expect(() => parseSiweMessage(`${text}\n${line}`)).toThrow(
+        /duplicate field/
+      );
+    }
+  });
+});
+
+describe("verifySiweMessage", () => {
+  const opts = {
+    domain: fields.domain,
+    nonce: fields.nonce,
+    chainIds: [fields.chainId],
+    now: NOW,
+  };
+
+  it("accepts a message signed by its address", async () => {
+    const { text, signature } = await signed();
+    expect(verifySiweMessage(text, signature, opts).address).toBe(
+      wallet.address
+    );
+  });
+
+  it("rejects another domain, nonce or an expired message", async () => {
+    const { text, signature } = await signed();
+    expect(
+      failure(() =>
+        verifySiweMessage(text, signature, { ...opts, domain: "evil.example" })
+      )
+    ).toBe("domain");
+    expect(
+      failure(() =>
+        verifySiweMessage(text, signature, { ...opts, nonce: "zzzzzzzzzz" })
+      )
+    ).toBe("nonce");
+    expect(
+      failure(() =>
+        verifySiweMessage(text, signature, {
+          ...opts,
+          now: new Date("2025-06-02T00:00:00Z"),
+        })
+      )
+    ).toBe("expired");
+  });
+
+  it("rejects a message for another chain", async () => {
+    const { text, signature } = await signed({ chainId: 1 });
+    expect(failure(() => verifySiweMessage(text, signature, opts))).toBe(
+      "chain"
+    );
+    expect(
+      verifySiweMessage(text, signature, { ...opts, chainIds: [10143, 1] })
+        .chainId
+    ).toBe(1);
+  });
+
+  it("rejects a message whose validity window can't be read", async () => {
+    // Signed text that slipped past the parser must not count as unbounded
+    for (const field of ["expirationTime", "notBefore"] as const) {
+      const { text, signature } = await signed({ [field]: "soon" });
+      expect(failure(() => verifySiweMessage(text, signature, opts))).toBe(
+        "malformed"
+      );
+    }
+  });
+
+  it("rejects a signature over different text", async () => {
+    const { signature } = await signed();
+    const tampered = formatSiweMessage({
+      ...fields,
+      uri: "https://evil.example",
+    });
+    expect(failure(() => verifySiweMessage(tampered, signature, opts))).toBe(
+      "signature"
+    );
+  });
+
+  it("rejects malformed messages", () => {
+    expect(failure(() => verifySiweMessage("hello", "0x", opts))).toBe(
+      "malformed"
+    );
+  });
+});
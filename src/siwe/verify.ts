@@ -0,0 +1,100 @@
+import { getAddress, verifyMessage } from "ethers";
+import { parseSiweMessage } from "./message";
+import type { SiweMessage } from "./message";
+
+// Checks a signed SIWE message. Runs unchanged in the browser and in Node;
+// only EOA signatures are supported (no EIP-1271 contract wallets).
+
+export type SiweFailure =
+  | "malformed"
+  | "domain"
+  | "nonce"
+  | "chain"
+  | "expired"
+  | "not-yet-valid"
+  | "signature";
+
+export class SiweError extends Error {
+  readonly reason: SiweFailure;
+
+  constructor(reason: SiweFailure, message: string) {
+    super(message);
+    this.name = "SiweError";
+    this.reason = reason;
+  }
+}
+
+export interface SiweVerifyOptions {
+  // Domain the message must be bound to, e.g. window.location.host
+  domain: string;
+  // Nonce this verifier issued for the sign-in
+  nonce: string;
+  // Chains a sign-in is accepted for
+  chainIds: readonly number[];
+  now?: Date;
+}
+
+function timestamp(value: string | undefined): number | null {
+  if (value === undefined) return null;
+  const ms = Date.parse(value);
+  if (Number.isNaN(ms)) {
+    throw new SiweError("malformed", `Invalid timestamp "${value}"`);
+  }
+  return ms;
+}
+
+/** Parse and verify `text`; returns the signed fields or throws SiweError. */
+export function verifySiweMessage(
+  text: string,
+  signature: string,
+  opts: SiweVerifyOptions
+): SiweMessage {
+  let message: SiweMessage;
+  try {
+    message = parseSiweMessage(text);
+  } catch (e) {
+    throw new SiweError("malformed", (e as Error).message);
+  }
+
+  if (message.domain !== opts.domain) {
+    throw new SiweError(
+      "domain",
+      `Message is for ${message.domain}, expected ${opts.domain}`
+    );
+  }
+  if (message.nonce !== opts.nonce) {
+    throw new SiweError("nonce", "Nonce doesn't match this sign-in");
+  }
+  if (!opts.chainIds.includes(message.chainId)) {
+    throw new SiweError(
+      "chain",
+      `Message is for chain ${message.chainId}, expected ${opts.chainIds.join(
+        " or "
+      )}`
+    );
+  }
+  const now = (opts.now ?? new Date()).getTime();
+  // An unparseable time must not read as "no limit" (NaN compares false)
+  const expires = timestamp(message.expirationTime);
+  const notBefore = timestamp(message.notBefore);
+  if (expires !== null && expires <= now) {
+    throw new SiweError("expired", "Sign-in message has expired");
+  }
+  if (notBefore !== null && notBefore > now) {
+    throw new SiweError("not-yet-valid", "Sign-in message isn't valid yet");
+  }
+
+  let signer: string;
+  try {
+    signer = verifyMessage(text, signature);
+  } catch {
+    throw new SiweError("signature", "Invalid signature");
+  }
+  if (getAddress(signer) !== message.address) {
+    throw new SiweError(
+      "signature",
+      "Signature was not made by the address in the message"
+    );
+  }
+  return message;
+}
@@ -0,0 +1,252 @@
+import type { ReactNode } from "react";
+import { ZeroAddress } from "ethers";
+import { explorerTxUrl } from "../chains/registry";
+import type { ChainConfig } from "../chains/registry";
+import type { CollectionConfig } from "../collections/registry";
+import { useI18n } from "../i18n/i18n";
+import { useCollectionStats } from "./useCollectionStats";
+import type { CollectionStats } from "./collectionStats";
+
+interface StatsPageProps {
+  collection: CollectionConfig;
+  chain: ChainConfig;
+  account?: string | null;
+}
+
+function Short({
+  address,
+  account,
+}: {
+  address: string;
+  account?: string | null;
+}) {
+  const { t } = useI18n();
+  if (account && address.toLowerCase() === account.toLowerCase()) {
+    return <span className="text-green-300">{t("address.you")}</span>;
+  }
+  return <>{`${address.slice(0, 6)}...${address.slice(-4)}`}</>;
+}
+
+function bucketLabel(start: number, bucketSeconds: number, locale: string) {
+  const date = new Date(start * 1000);
+  return bucketSeconds >= 86_400
+    ? date.toLocaleDateString(locale)
+    : date.toLocaleString(locale, {
+        month: "short",
+        day: "numeric",
+        hour: "numeric",
+      });
+}
+
+function Section({ title, children }: { title: string; children: ReactNode }) {
+  return (
+    <div className="mt-6">
+      <h2 className="text-sm md:text-base font-semibold mb-2">{title}</h2>
+      {children}
+    </div>
+  );
+}
+
+function VelocityChart({
+  velocity,
+}: {
+  velocity: CollectionStats["velocity"];
+}) {
+  const { locale, t } = useI18n();
+  const { buckets, bucketSeconds } = velocity;
+  if (buckets.length === 0) {
+    return <div className="text-xs text-gray-400">{t("stats.noMints")}</div>;
+  }
+  const peak = Math.max(...buckets.map((b) => b.mints));
+  return (
+    <>
+      <div
+        className="flex items-end gap-0.5 h-24"
+        role="img"
+        aria-label={t("stats.chart")}
+      >
+        {buckets.map((b) => (
+          <div
+            key={b.start}
+            title={t("stats.bucket", {
+              date: bucketLabel(b.start, bucketSeconds, locale),
+              count: b.mints,
+            })}
+            className="flex-1 bg-green-400/80 rounded-t min-h-px"
+            style={{ height: `${(b.mints / peak) * 100}%` }}
+          />
+        ))}
+      </div>
+      <div className="flex justify-between text-xs text-gray-400 mt-1">
+        <span>{bucketLabel(buckets[0].start, bucketSeconds, locale)}</span>
+        <span>
+          {bucketSeconds >= 86_400
+            ? t("stats.perDays", { count: bucketSeconds / 86_400 })
+            : t("stats.perHours", { count: bucketSeconds / 3_600 })}
+        </span>
+        <span>
+          {bucketLabel(
+            buckets[buckets.length - 1].start,
+            bucketSeconds,
+            locale
+          )}
+        </span>
+      </div>
+    </>
+  );
+}
+
+/** Collection-wide stats from indexed NFTMinted/Transfer events. */
+export default function StatsPage({
+  collection,
+  chain,
+  account,
+}: StatsPageProps) {
+  const { locale, t, formatNumber } = useI18n();
+  const { stats, coverage, loading, error } = useCollectionStats(chain);
+
+  if (error && !stats) {
+    return <div className="text-xs text-red-300">{t(error)}</div>;
+  }
+  if (!stats || !coverage) {
+    return (
+      <div className="text-xs text-gray-400">
+        {loading ? t("stats.indexing") : t("stats.none")}
+      </div>
+    );
+  }
+
+  const widest = Math.max(1, ...stats.distribution.map((d) => d.holders));
+  return (
+    <div>
+      <div className="grid grid-cols-3 gap-3 text-center">
+        {(
+          [
+            [t("stats.minted"), stats.mints],
+            [t("stats.uniqueHolders"), stats.uniqueHolders],
+            [t("stats.held"), stats.tokens],
+          ] as const
+        ).map(([label, value]) => (
+          <div key={label} className="bg-white/5 rounded p-3">
+            <div className="text-xl md:text-2xl font-bold">
+              {formatNumber(value)}
+            </div>
+            <div className="text-xs text-gray-400">{label}</div>
+          </div>
+        ))}
+      </div>
+
+      <Section title={t("stats.distribution")}>
+        {stats.distribution.length === 0 ? (
+          <div className="text-xs text-gray-400">{t("stats.noHolders")}</div>
+        ) : (
+          <ul className="space-y-1 text-xs md:text-sm">
+            {stats.distribution.map((d) => (
+              <li key={d.tokens} className="flex items-center gap-2">
+                <span className="w-20 shrink-0">
+                  {formatNumber(d.tokens)}{" "}
+                  {d.tokens === 1
+                    ? collection.tokenName
+                    : collection.tokenNamePlural}
+                </span>
+                <div className="flex-1 bg-gray-700 rounded h-3 overflow-hidden">
+                  <div
+                    className="h-3 bg-accent"
+                    style={{ width: `${(d.holders / widest) * 100}%` }}
+                  />
+                </div>
+                <span className="w-24 shrink-0 text-right text-gray-300">
+                  {t("stats.wallets", { count: d.holders })}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </Section>
+
+      <Section title={t("stats.velocity")}>
+        <VelocityChart velocity={stats.velocity} />
+      </Section>
+
+      <Section title={t("stats.topHolders")}>
+        {stats.topHolders.length === 0 ? (
+          <div className="text-xs text-gray-400">{t("stats.noHolders")}</div>
+        ) : (
+          <ol className="divide-y divide-white/10 text-xs md:text-sm">
+            {stats.topHolders.map((h, i) => (
+              <li key={h.address} className="flex justify-between py-1.5">
+                <span>
+                  <span className="text-gray-400 mr-2">{i + 1}.</span>
+                  <Short address={h.address} account={account} />
+                </span>
+                <span>{t("stats.heldCount", { count: h.tokens })}</span>
+              </li>
+            ))}
+          </ol>
+        )}
+      </Section>
+
+      <Section title={t("stats.topMinters")}>
+        {stats.topMinters.length === 0 ? (
+          <div className="text-xs text-gray-400">{t("stats.noMints")}</div>
+        ) : (
+          <ol className="divide-y divide-white/10 text-xs md:text-sm">
+            {stats.topMinters.map((m, i) => (
+              <li key={m.address} className="flex justify-between py-1.5">
+                <span>
+                  <span className="text-gray-400 mr-2">{i + 1}.</span>
+                  <Short address={m.address} account={account} />
+                </span>
+                <span>{t("stats.mintedCount", { count: m.mints })}</span>
+              </li>
+            ))}
+          </ol>
+        )}
+      </Section>
+
+      <Section title={t("stats.recentTransfers")}>
+        {stats.recentTransfers.length === 0 ? (
+          <div className="text-xs text-gray-400">{t("stats.noTransfers")}</div>
+        ) : (
+          <ul className="divide-y divide-white/10 text-xs md:text-sm">
+            {stats.recentTransfers.map((tr) => (
+              <li
+                key={`${tr.txHash}:${tr.tokenId}`}
+                className="flex justify-between py-1.5 gap-2"
+              >
+                <span>
+                  #{tr.tokenId.toString()}{" "}
+                  <Short address={tr.from} account={account} /> →{" "}
+                  {tr.to === ZeroAddress ? (
+                    t("stats.burned")
+                  ) : (
+                    <Short address={tr.to} account={account} />
+                  )}
+                </span>
+                <a
+                  href={explorerTxUrl(chain, tr.txHash)}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-gray-400 hover:text-blue-300 underline"
+                >
+                  {tr.timestamp
+                    ? new Date(tr.timestamp * 1000).toLocaleString(locale)
+                    : t("explorer.block", { block: String(tr.blockNumber) })}
+                </a>
+              </li>
+            ))}
+          </ul>
+        )}
+      </Section>
+
+      <p className="mt-6 text-xs text-gray-500">
+        {coverage.complete
+          ? t("stats.indexedThrough", { block: String(coverage.scannedTo) })
+          : t("stats.partial", {
+              from: String(coverage.fromBlock),
+              to: String(coverage.scannedTo),
+            })}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+import { Interface, ZeroAddress } from "ethers";
+import contractABI from "../contractABI";
+import { computeStats, mintVelocity } from "./collectionStats";
+import type { StoredLog } from "./collectionStats";
+
+const iface = new Interface(contractABI);
+const ALICE = "0x70997970C51812dc3A010C7d01b50e0d17dc79C8";
+const BOB = "0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC";
+const CAROL = "0x90F79bf6EB2c4f870365E785982E1f101E93b906";
+
+let index = 0;
+function log(blockNumber: number, event: string, args: unknown[]): StoredLog {
+  const { topics, data } = iface.encodeEventLog(event, args);
+  return {
+    blockNumber,
+    index: index++,
+    transactionHash: `0x${blockNumber.toString(16).padStart(64, "0")}`,
+    topics,
+    data,
+  };
+}
+
+// A mint as the reference contract logs it: Transfer from zero + NFTMinted
+const mint = (block: number, to: string, id: number) => [
+  log(block, "Transfer", [ZeroAddress, to, id]),
+  log(block, "NFTMinted", [to, id]),
+];
+
+describe("computeStats", () => {
+  const logs = [
+    ...mint(10, ALICE, 1),
+    ...mint(10, ALICE, 2),
+    ...mint(11, BOB, 3),
+    ...mint(20, CAROL, 4),
+    log(30, "Transfer", [CAROL, BOB, 4]),
+    log(31, "Transfer", [ALICE, ZeroAddress, 1]),
+  ];
+  const stats = computeStats(logs, { 10: 1_000, 11: 1_001, 20: 9_000 });
+
+  it("counts holders and their distribution after transfers and burns", () => {
+    expect(stats.mints).toBe(4);
+    expect(stats.tokens).toBe(3);
+    expect(stats.uniqueHolders).toBe(2);
+    expect(stats.distribution).toEqual([
+      { tokens: 1, holders: 1 },
+      { tokens: 2, holders: 1 },
+    ]);
+    expect(stats.topHolders).toEqual([
+      { address: BOB, tokens: 2 },
+      { address: ALICE, tokens: 1 },
+    ]);
+  });
+
+  it("ranks minters and lists transfers newest first without mints", () => {
+    expect(stats.topMinters[0]).toEqual({ address: ALICE, mints: 2 });
+    expect(
+      stats.recentTransfers.map((t) => [t.blockNumber, t.to, t.timestamp])
+    ).toEqual([
+      [31, ZeroAddress, undefined],
+      [30, BOB, undefined],
+    ]);
+  });
+
+  it("buckets mint velocity by hour for a short sale", () => {
+    expect(stats.velocity.bucketSeconds).toBe(3_600);
+    expect(stats.velocity.buckets.map((b) => b.mints)).toEqual([3, 0, 1]);
+  });
+});
+
+describe("mintVelocity", () => {
+  it("widens buckets to keep long sales readable", () => {
+    const week = 7 * 86_400;
+    const { bucketSeconds, buckets } = mintVelocity([0, 3 * week]);
+    expect(bucketSeconds).toBe(86_400);
+    expect(buckets).toHaveLength(22);
+  });
+});
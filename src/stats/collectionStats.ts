@@ -0,0 +1,148 @@
+import { Interface, ZeroAddress, getAddress } from "ethers";
+import contractABI from "../contractABI";
+import { applyOwnershipLogs, holdersOf } from "../holders/snapshot";
+import type { OwnershipLog } from "../holders/snapshot";
+
+// Collection-level stats derived from the contract's NFTMinted and Transfer
+// logs. Pure functions over cached logs; see indexer.ts for how they're kept
+// up to date.
+
+// A log as cached in IndexedDB (plain data, no provider attached)
+export interface StoredLog extends OwnershipLog {
+  transactionHash: string;
+  topics: string[];
+}
+
+export interface TransferEvent {
+  from: string;
+  to: string; // zero address for burns
+  tokenId: bigint;
+  blockNumber: number;
+  txHash: string;
+  timestamp?: number; // unix seconds, when the block time is known
+}
+
+export interface VelocityBucket {
+  start: number; // unix seconds
+  mints: number;
+}
+
+export interface CollectionStats {
+  tokens: number; // tokens currently held (burns excluded)
+  uniqueHolders: number;
+  // How many wallets hold each number of tokens, smallest holding first
+  distribution: { tokens: number; holders: number }[];
+  mints: number;
+  velocity: { bucketSeconds: number; buckets: VelocityBucket[] };
+  topHolders: { address: string; tokens: number }[];
+  topMinters: { address: string; mints: number }[];
+  recentTransfers: TransferEvent[]; // newest first, mints excluded
+}
+
+const iface = new Interface(contractABI);
+const LEADERBOARD_SIZE = 10;
+const RECENT_TRANSFERS = 10;
+// Smallest bucket that keeps the velocity chart at or under MAX_BUCKETS bars
+const BUCKET_SIZES = [3_600, 6 * 3_600, 86_400, 7 * 86_400];
+const MAX_BUCKETS = 48;
+
+const byChainOrder = (a: StoredLog, b: StoredLog) =>
+  a.blockNumber - b.blockNumber || a.index - b.index;
+
+/** Mint timestamps bucketed at a resolution that suits their time span. */
+export function mintVelocity(times: number[]): CollectionStats["velocity"] {
+  if (times.length === 0)
+    return { bucketSeconds: BUCKET_SIZES[0], buckets: [] };
+  const first = Math.min(...times);
+  const last = Math.max(...times);
+  const bucketSeconds =
+    BUCKET_SIZES.find((size) => (last - first) / size < MAX_BUCKETS) ??
+    BUCKET_SIZES[BUCKET_SIZES.length - 1];
+  const origin = first - (first % bucketSeconds);
+  const buckets: VelocityBucket[] = [];
+  for (let start = origin; start <= last; start += bucketSeconds) {
+    buckets.push({ start, mints: 0 });
+  }
+  for (const t of times) {
+    buckets[Math.floor((t - origin) / bucketSeconds)].mints++;
+  }
+  return { bucketSeconds, buckets };
+}
+
+/**
+ * Stats over every NFTMinted/Transfer log of the collection. `blockTimes`
+ * maps block numbers to unix seconds; mints in blocks without a known time
+ * are left out of the velocity chart.
+ */
+export function computeStats(
+  logs: StoredLog[],
+  blockTimes: Record<number, number>
+): CollectionStats {
+  const ordered = [...logs].sort(byChainOrder);
+  const minters = new Map<string, number>();
+  const mintTimes: number[] = [];
+  const transfers: TransferEvent[] = [];
+  let mints = 0;
+
+  for (const log of ordered) {
+    const parsed = iface.parseLog({ topics: log.topics, data: log.data });
+    if (parsed?.name === "NFTMinted") {
+      const minter = getAddress(parsed.args.minter as string);
+      minters.set(minter, (minters.get(minter) ?? 0) + 1);
+      mints++;
+      const time = blockTimes[log.blockNumber];
+      if (time !== undefined) mintTimes.push(time);
+    } else if (parsed?.name === "Transfer") {
+      const from = getAddress(parsed.args.from as string);
+      if (from === ZeroAddress) continue; // the mint itself
+      transfers.push({
+        from,
+        to: getAddress(parsed.args.to as string),
+        tokenId: parsed.args.tokenId as bigint,
+        blockNumber: log.blockNumber,
+        txHash: log.transactionHash,
+        timestamp: blockTimes[log.blockNumber],
+      });
+    }
+  }
+
+  const holders = holdersOf(applyOwnershipLogs({}, ordered));
+  const sizes = new Map<number, number>();
+  for (const h of holders) sizes.set(h.count, (sizes.get(h.count) ?? 0) + 1);
+
+  return {
+    tokens: holders.reduce((sum, h) => sum + h.count, 0),
+    uniqueHolders: holders.length,
+    distribution: Array.from(sizes, ([tokens, holders]) => ({
+      tokens,
+      holders,
+    })).sort((a, b) => a.tokens - b.tokens),
+    mints,
+    velocity: mintVelocity(mintTimes),
+    topHolders: holders
+      .slice(0, LEADERBOARD_SIZE)
+      .map((h) => ({ address: h.address, tokens: h.count })),
+    topMinters: Array.from(minters, ([address, mints]) => ({ address, mints }))
+      .sort((a, b) => b.mints - a.mints || a.address.localeCompare(b.address))
+      .slice(0, LEADERBOARD_SIZE),
+    recentTransfers: transfers.reverse().slice(0, RECENT_TRANSFERS),
+  };
+}
+
+/** Blocks whose timestamps the stats use: every mint, recent transfers. */
+export function blocksNeedingTimes(logs: StoredLog[]): number[] {
+  const blocks = new Set<number>();
+  const transferBlocks: number[] = [];
+  for (const log of logs) {
+    const parsed = iface.parseLog({ topics: log.topics, data: log.data });
+    if (parsed?.name === "NFTMinted") blocks.add(log.blockNumber);
+    else if (parsed?.name === "Transfer" && parsed.args.from !== ZeroAddress) {
+      transferBlocks.push(log.blockNumber);
+    }
+  }
+  transferBlocks
+    .sort((a, b) => b - a)
+    .slice(0, RECENT_TRANSFERS)
+    .forEach((b) => blocks.add(b));
+  return Array.from(blocks);
+}
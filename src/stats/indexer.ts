@@ -0,0 +1,110 @@
+import type { Log } from "ethers";
+import { fetchContractLogs } from "../rpc/logs";
+import { getReadRpc } from "../rpc/readProvider";
+import { MINT_TOPIC, TRANSFER_TOPIC } from "../holders/snapshot";
+import type { ChainConfig } from "../chains/registry";
+import { blocksNeedingTimes } from "./collectionStats";
+import type { StoredLog } from "./collectionStats";
+import { loadLogCache, saveLogCache } from "./logCache";
+import type { LogCacheEntry } from "./logCache";
+
+// Keeps the cached NFTMinted/Transfer history of a deployment current.
+
+// Without a configured deploy block, history starts this far back
+const FALLBACK_BLOCKS = 100_000;
+// Cached blocks re-scanned on every sync so reorged-out logs get dropped
+const REORG_DEPTH = 12;
+// Block timestamps requested at once (ethers batches them into one request)
+const TIME_BATCH = 50;
+
+export interface IndexedLogs {
+  logs: StoredLog[];
+  blockTimes: Record<number, number>;
+  fromBlock: number;
+  scannedTo: number;
+  // False when the scan starts at a fallback block rather than the deploy block
+  complete: boolean;
+}
+
+function toStored(log: Log): StoredLog {
+  // Plain copy; ethers Logs hold a provider, which IndexedDB can't store
+  return {
+    blockNumber: log.blockNumber,
+    index: log.index,
+    transactionHash: log.transactionHash,
+    topics: [...log.topics],
+    data: log.data,
+  };
+}
+
+async function fillBlockTimes(
+  chain: ChainConfig,
+  blocks: number[],
+  blockTimes: Record<number, number>
+) {
+  const missing = blocks.filter((b) => blockTimes[b] === undefined);
+  const readRpc = getReadRpc(chain);
+  for (let i = 0; i < missing.length; i += TIME_BATCH) {
+    const batch = missing.slice(i, i + TIME_BATCH);
+    const found = await Promise.all(
+      batch.map((n) => readRpc.run((p) => p.getBlock(n)))
+    );
+    found.forEach((block, j) => {
+      if (block) blockTimes[batch[j]] = block.timestamp;
+    });
+  }
+}
+
+/**
+ * The deployment's NFTMinted and Transfer logs up to the latest block.
+ * Starts from the IndexedDB cache and only fetches blocks it hasn't seen
+ * (plus the last few, in case of a reorg), then writes the cache back.
+ */
+export async function syncCollectionLogs(
+  chain: ChainConfig
+): Promise<IndexedLogs> {
+  const key = `${chain.id}:${chain.contractAddress?.toLowerCase()}`;
+  const latest = await getReadRpc(chain).run((p) => p.getBlockNumber());
+  let cache = await loadLogCache(key);
+  const fromBlock =
+    chain.deployBlock ??
+    cache?.fromBlock ??
+    Math.max(0, latest - FALLBACK_BLOCKS);
+  // A changed deploy block (or a node behind the cache) means starting over
+  if (cache && (cache.fromBlock !== fromBlock || cache.scannedTo > latest)) {
+    cache = null;
+  }
+  const entry: LogCacheEntry = cache ?? {
+    key,
+    fromBlock,
+    scannedTo: fromBlock - 1,
+    logs: [],
+    blockTimes: {},
+  };
+
+  const rescanFrom = Math.max(fromBlock, entry.scannedTo - REORG_DEPTH + 1);
+  const fresh = await fetchContractLogs(
+    chain,
+    [[TRANSFER_TOPIC, MINT_TOPIC]],
+    rescanFrom,
+    latest
+  );
+  entry.logs = [
+    ...entry.logs.filter((l) => l.blockNumber < rescanFrom),
+    ...fresh.map(toStored),
+  ];
+  for (const block of Object.keys(entry.blockTimes)) {
+    if (Number(block) >= rescanFrom) delete entry.blockTimes[Number(block)];
+  }
+  entry.scannedTo = latest;
+  await fillBlockTimes(chain, blocksNeedingTimes(entry.logs), entry.blockTimes);
+  await saveLogCache(entry);
+
+  return {
+    logs: entry.logs,
+    blockTimes: entry.blockTimes,
+    fromBlock,
+    scannedTo: latest,
+    complete: chain.deployBlock !== undefined,
+  };
+}
@@ -0,0 +1,68 @@
+import type { StoredLog } from "./collectionStats";
+import { createLogger } from "../logging/logger";
+
+// IndexedDB cache of the collection's logs, so a return visit to the stats
+// page only fetches blocks it hasn't seen. Everything degrades to "no cache"
+// when IndexedDB is unavailable (private mode, tests).
+
+const log = createLogger("stats");
+
+export interface LogCacheEntry {
+  key: string; // chainId:contract
+  fromBlock: number; // first block scanned
+  scannedTo: number; // last block scanned
+  logs: StoredLog[];
+  blockTimes: Record<number, number>;
+}
+
+const DB_NAME = "shramp";
+const DB_VERSION = 1;
+const STORE = "collectionLogs";
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+function openDb(): Promise<IDBDatabase | null> {
+  if (typeof indexedDB === "undefined") return Promise.resolve(null);
+  dbPromise ??= new Promise((resolve) => {
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () =>
+      req.result.createObjectStore(STORE, { keyPath: "key" });
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => {
+      log.warn("IndexedDB unavailable", { error: req.error });
+      resolve(null);
+    };
+  });
+  return dbPromise;
+}
+
+function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+export async function loadLogCache(key: string): Promise<LogCacheEntry | null> {
+  const db = await openDb();
+  if (!db) return null;
+  try {
+    const store = db.transaction(STORE).objectStore(STORE);
+    return ((await request(store.get(key))) as LogCacheEntry) ?? null;
+  } catch (err) {
+    log.warn("Log cache read failed", { error: err });
+    return null;
+  }
+}
+
+export async function saveLogCache(entry: LogCacheEntry) {
+  const db = await openDb();
+  if (!db) return;
+  try {
+    const store = db.transaction(STORE, "readwrite").objectStore(STORE);
+    await request(store.put(entry));
+  } catch (err) {
+    // quota or a closed db; the next visit just rescans
+    log.warn("Log cache write failed", { error: err });
+  }
+}
@@ -0,0 +1,60 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { computeStats } from "./collectionStats";
+import type { CollectionStats } from "./collectionStats";
+import { syncCollectionLogs } from "./indexer";
+import type { ChainConfig } from "../chains/registry";
+import type { MessageKey } from "../i18n/i18n";
+import { createLogger } from "../logging/logger";
+
+const log = createLogger("stats");
+
+// New blocks are picked up this often while the stats page is open
+const REFRESH_MS = 30_000;
+
+export interface StatsCoverage {
+  fromBlock: number;
+  scannedTo: number;
+  complete: boolean;
+}
+
+export function useCollectionStats(chain: ChainConfig) {
+  const [stats, setStats] = useState<CollectionStats | null>(null);
+  const [coverage, setCoverage] = useState<StatsCoverage | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<MessageKey | null>(null);
+  // Chain of the sync in flight; results for a chain no longer shown are dropped
+  const syncing = useRef<ChainConfig | null>(null);
+  const current = useRef(chain);
+
+  const reload = useCallback(async () => {
+    if (!chain.contractAddress || syncing.current === chain) return;
+    syncing.current = chain;
+    setLoading(true);
+    setError(null);
+    try {
+      const { logs, blockTimes, ...rest } = await syncCollectionLogs(chain);
+      if (current.current !== chain) return;
+      setStats(computeStats(logs, blockTimes));
+      setCoverage(rest);
+    } catch (e) {
+      log.error("Collection log sync failed", { error: e });
+      if (current.current === chain) {
+        setError("stats.failed");
+      }
+    } finally {
+      if (syncing.current === chain) syncing.current = null;
+      if (current.current === chain) setLoading(false);
+    }
+  }, [chain]);
+
+  useEffect(() => {
+    current.current = chain;
+    setStats(null);
+    setCoverage(null);
+    reload();
+    const timer = window.setInterval(reload, REFRESH_MS);
+    return () => window.clearInterval(timer);
+  }, [chain, reload]);
+
+  return { stats, coverage, loading, error, reload };
+}
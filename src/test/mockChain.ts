@@ -0,0 +1,463 @@
+import {
+  AbiCoder,
+  Interface,
+  ZeroAddress,
+  ZeroHash,
+  getAddress,
+  keccak256,
+  toBeHex,
+  toUtf8Bytes,
+  zeroPadValue,
+} from "ethers";
+import contractABI from "../contractABI";
+
+// In-memory EVM chain with the Shramp contract deployed, answering the
+// JSON-RPC methods the app uses. Shared by the mock wallet (EIP-1193) and the
+// mocked HTTP read RPC so both see the same state.
+
+export class RpcError extends Error {
+  readonly code: number;
+  readonly data?: string;
+
+  constructor(code: number, message: string, data?: string) {
+    super(message);
+    this.name = "RpcError";
+    this.code = code;
+    this.data = data;
+  }
+}
+
+/** Solidity `revert("reason")` as a JSON-RPC execution error. */
+export function revertError(reason: string) {
+  const data =
+    "0x08c379a0" +
+    AbiCoder.defaultAbiCoder().encode(["string"], [reason]).slice(2);
+  return new RpcError(3, `execution reverted: ${reason}`, data);
+}
+
+export interface MockContractState {
+  mintPrice: bigint;
+  maxSupply: bigint;
+  maxPerWallet: bigint;
+  nextTokenId: bigint;
+  owner: string;
+  baseURI: string;
+  tokenOwners: Map<bigint, string>;
+  minted: Map<string, bigint>; // lowercase address → count
+}
+
+interface MinedTx {
+  tx: Record<string, unknown>;
+  receipt: Record<string, unknown>;
+}
+
+interface MockLog {
+  address: string;
+  topics: string[];
+  data: string;
+  blockNumber: number;
+  blockHash: string;
+  transactionHash: string;
+  transactionIndex: number;
+  logIndex: number;
+}
+
+interface Failure {
+  method: string;
+  error: Error;
+  times: number;
+}
+
+const iface = new Interface(contractABI);
+const NFT_MINTED = iface.getEvent("NFTMinted")!.topicHash;
+const TRANSFER = iface.getEvent("Transfer")!.topicHash;
+const hex = (n: number | bigint) => toBeHex(n);
+
+function blockHash(n: number) {
+  return keccak256(toUtf8Bytes(`block:${n}`));
+}
+
+/** Runtime code containing a PUSH4 of every ABI selector, for the bytecode check. */
+function fakeBytecode() {
+  const selectors: string[] = [];
+  iface.forEachFunction((f) => selectors.push("63" + f.selector.slice(2)));
+  return "0x6080" + selectors.join("") + "00";
+}
+
+export interface MockChainOptions {
+  chainId?: number;
+  contractAddress?: string;
+  contract?: Partial<MockContractState>;
+  // Unix seconds of the latest block
+  timestamp?: number;
+}
+
+export class MockChain {
+  readonly chainId: number;
+  readonly contractAddress: string;
+  readonly contract: MockContractState;
+  blockNumber = 100;
+  timestamp: number;
+  // Balance reported for every account
+  balance = 10n ** 21n;
+  // Every JSON-RPC call seen, wallet and read RPC alike
+  readonly calls: { method: string; params: unknown[] }[] = [];
+  private txs = new Map<string, MinedTx>();
+  private logs: MockLog[] = [];
+  private nonces = new Map<string, number>();
+  private failures: Failure[] = [];
+
+  constructor(opts: MockChainOptions = {}) {
+    this.chainId = opts.chainId ?? 10143;
+    this.contractAddress = getAddress(
+      opts.contractAddress ?? "0x5FbDB2315678afecb367f032d93F642f64180aa3"
+    );
+    this.timestamp = opts.timestamp ?? 1_750_000_000;
+    this.contract = {
+      mintPrice: 10n ** 17n,
+      maxSupply: 500n,
+      maxPerWallet: 2n,
+      nextTokenId: 1n,
+      owner: "0x000000000000000000000000000000000000dEaD",
+      baseURI: "ipfs://bafy-shramp/",
+      tokenOwners: new Map(),
+      minted: new Map(),
+      ...opts.contract,
+    };
+  }
+
+  /** Make the next `times` calls of `method` fail with `error`. */
+  failNext(method: string, error: Error, times = 1) {
+    this.failures.push({ method, error, times });
+  }
+
+  callsOf(method: string) {
+    return this.calls.filter((c) => c.method === method);
+  }
+
+  get totalSupply() {
+    return BigInt(this.contract.tokenOwners.size);
+  }
+
+  async request(method: string, params: unknown[] = []): Promise<unknown> {
+    this.calls.push({ method, params });
+    const failure = this.failures.find((f) => f.method === method);
+    if (failure) {
+      if (--failure.times <= 0) {
+        this.failures.splice(this.failures.indexOf(failure), 1);
+      }
+      throw failure.error;
+    }
+    return this.handle(method, params);
+  }
+
+  private handle(method: string, params: unknown[]): unknown {
+    switch (method) {
+      case "eth_chainId":
+        return hex(this.chainId);
+      case "net_version":
+        return String(this.chainId);
+      case "eth_blockNumber":
+        return hex(this.blockNumber);
+      case "eth_gasPrice":
+        return hex(50_000_000_000n);
+      case "eth_maxPriorityFeePerGas":
+        return hex(2_000_000_000n);
+      case "eth_getBalance":
+        return hex(this.balance);
+      case "eth_getBlockByNumber":
+        return this.block(params[0] as string);
+      case "eth_getCode":
+        return getAddress(params[0] as string) === this.contractAddress
+          ? fakeBytecode()
+          : "0x";
+      case "eth_getStorageAt":
+        return ZeroHash;
+      case "eth_getTransactionCount":
+        return hex(this.nonces.get((params[0] as string).toLowerCase()) ?? 0);
+      case "eth_call":
+        return this.call(params[0] as Record<string, string>);
+      case "eth_estimateGas":
+        this.call(params[0] as Record<string, string>);
+        return hex(150_000);
+      case "eth_getTransactionByHash":
+        return this.txs.get((params[0] as string).toLowerCase())?.tx ?? null;
+      case "eth_getTransactionReceipt":
+        return (
+          this.txs.get((params[0] as string).toLowerCase())?.receipt ?? null
+        );
+      case "eth_getLogs":
+        return this.getLogs(params[0] as Record<string, unknown>);
+      case "eth_sendTransaction": {
+        const tx = params[0] as Record<string, string>;
+        return this.sendTransaction(tx.from, tx);
+      }
+      default:
+        throw new RpcError(-32601, `Method ${method} not supported`);
+    }
+  }
+
+  private block(tag: string) {
+    const n = tag === "latest" || tag === "pending" ? this.blockNumber : +tag;
+    if (n > this.blockNumber) return null;
+    return {
+      hash: blockHash(n),
+      parentHash: blockHash(n - 1),
+      number: hex(n),
+      timestamp: hex(this.timestamp - (this.blockNumber - n)),
+      nonce: "0x0000000000000000",
+      difficulty: "0x0",
+      gasLimit: hex(30_000_000),
+      gasUsed: "0x0",
+      baseFeePerGas: hex(25_000_000_000n),
+      miner: "0x0000000000000000000000000000000000000000",
+      extraData: "0x",
+      transactions: [],
+    };
+  }
+
+  /** Contract view calls, and the mint checks for simulations. */
+  private call(tx: Record<string, string>): string {
+    if (!tx.to || getAddress(tx.to) !== this.contractAddress) return "0x";
+    const parsed = iface.parseTransaction({
+      data: tx.data ?? tx.input,
+      value: tx.value ?? 0,
+    });
+    if (!parsed) throw revertError("unknown selector");
+    const c = this.contract;
+    const result = (value: unknown) =>
+      iface.encodeFunctionResult(parsed.fragment, [value]);
+    switch (parsed.name) {
+      case "mint":
+        this.checkMint(tx.from, parsed.args[0], BigInt(tx.value ?? 0));
+        return "0x";
+      case "safeTransferFrom":
+        this.checkTransfer(tx.from, parsed.args[0], parsed.args[2]);
+        return "0x";
+      case "mintPrice":
+        return result(c.mintPrice);
+      case "maxSupply":
+        return result(c.maxSupply);
+      case "maxPerWallet":
+        return result(c.maxPerWallet);
+      case "totalSupply":
+        return result(this.totalSupply);
+      case "nextTokenId":
+        return result(c.nextTokenId);
+      case "owner":
+        return result(c.owner);
+      case "mintedCount":
+        return result(c.minted.get(parsed.args[0].toLowerCase()) ?? 0n);
+      case "balanceOf": {
+        const who = (parsed.args[0] as string).toLowerCase();
+        const owned = [...c.tokenOwners.values()].filter(
+          (o) => o.toLowerCase() === who
+        );
+        return result(owned.length);
+      }
+      case "ownerOf": {
+        const owner = c.tokenOwners.get(parsed.args[0]);
+        if (!owner) throw revertError("ERC721: invalid token ID");
+        return result(owner);
+      }
+      case "tokenURI":
+        return result(`${c.baseURI}${parsed.args[0]}.json`);
+      default:
+        throw revertError(`${parsed.name} not mocked`);
+    }
+  }
+
+  private checkMint(from: string, quantity: bigint, value: bigint) {
+    const c = this.contract;
+    if (value !== c.mintPrice * quantity) {
+      throw revertError("Incorrect mint price");
+    }
+    const minted = c.minted.get(from?.toLowerCase()) ?? 0n;
+    if (minted + quantity > c.maxPerWallet) {
+      throw revertError("Max NFTs per wallet reached");
+    }
+    if (this.totalSupply + quantity > c.maxSupply) {
+      throw revertError("Max supply reached");
+    }
+  }
+
+  private checkTransfer(sender: string, from: string, tokenId: bigint) {
+    const owner = this.contract.tokenOwners.get(tokenId);
+    if (!owner) throw revertError("ERC721: invalid token ID");
+    if (
+      owner.toLowerCase() !== from.toLowerCase() ||
+      owner.toLowerCase() !== sender?.toLowerCase()
+    ) {
+      throw revertError("ERC721: caller is not token owner");
+    }
+  }
+
+  /**
+   * Mine `tx` (as signed by the wallet for `from`) into a new block and return
+   * its hash. Failing mints are mined with status 0, like a real chain.
+   */
+  private sendTransaction(from: string, tx: Record<string, string>): string {
+    const sender = getAddress(from);
+    const nonce = this.nonces.get(sender.toLowerCase()) ?? 0;
+    this.nonces.set(sender.toLowerCase(), nonce + 1);
+    this.blockNumber += 1;
+    this.timestamp += 1;
+    const n = this.blockNumber;
+    const hash = keccak256(toUtf8Bytes(`tx:${sender}:${nonce}`));
+
+    const logs: MockLog[] = [];
+    let status = 1;
+    try {
+      const parsed = iface.parseTransaction({
+        data: tx.data,
+        value: tx.value ?? 0,
+      });
+      if (parsed?.name === "mint") {
+        const quantity: bigint = parsed.args[0];
+        this.checkMint(sender, quantity, BigInt(tx.value ?? 0));
+        const c = this.contract;
+        for (let i = 0n; i < quantity; i++) {
+          const tokenId = c.nextTokenId++;
+          c.tokenOwners.set(tokenId, sender);
+          // _safeMint's Transfer from the zero address, then NFTMinted
+          logs.push({
+            address: this.contractAddress,
+            topics: [
+              TRANSFER,
+              zeroPadValue(ZeroAddress, 32),
+              zeroPadValue(sender, 32),
+              zeroPadValue(hex(tokenId), 32),
+            ],
+            data: "0x",
+            blockNumber: n,
+            blockHash: blockHash(n),
+            transactionHash: hash,
+            transactionIndex: 0,
+            logIndex: logs.length,
+          });
+          logs.push({
+            address: this.contractAddress,
+            topics: [
+              NFT_MINTED,
+              zeroPadValue(sender, 32),
+              zeroPadValue(hex(tokenId), 32),
+            ],
+            data: "0x",
+            blockNumber: n,
+            blockHash: blockHash(n),
+            transactionHash: hash,
+            transactionIndex: 0,
+            logIndex: logs.length,
+          });
+        }
+        const key = sender.toLowerCase();
+        c.minted.set(key, (c.minted.get(key) ?? 0n) + quantity);
+      } else if (parsed?.name === "safeTransferFrom") {
+        const [from, to, tokenId] = parsed.args as unknown as [
+          string,
+          string,
+          bigint
+        ];
+        this.checkTransfer(sender, from, tokenId);
+        this.contract.tokenOwners.set(tokenId, getAddress(to));
+        logs.push({
+          address: this.contractAddress,
+          topics: [
+            TRANSFER,
+            zeroPadValue(from, 32),
+            zeroPadValue(to, 32),
+            zeroPadValue(hex(tokenId), 32),
+          ],
+          data: "0x",
+          blockNumber: n,
+          blockHash: blockHash(n),
+          transactionHash: hash,
+          transactionIndex: 0,
+          logIndex: 0,
+        });
+      }
+    } catch {
+      status = 0;
+      logs.length = 0;
+    }
+    this.logs.push(...logs);
+
+    const mined = {
+      blockHash: blockHash(n),
+      blockNumber: hex(n),
+      transactionIndex: "0x0",
+    };
+    this.txs.set(hash, {
+      tx: {
+        hash,
+        from: sender,
+        to: tx.to ?? null,
+        nonce: hex(nonce),
+        gas: tx.gas ?? hex(150_000),
+        gasPrice: tx.gasPrice ?? hex(50_000_000_000n),
+        value: tx.value ?? "0x0",
+        input: tx.data ?? "0x",
+        type: "0x0",
+        chainId: hex(this.chainId),
+        v: "0x1b",
+        r: "0x" + "11".repeat(32),
+        s: "0x" + "22".repeat(32),
+        ...mined,
+      },
+      receipt: {
+        transactionHash: hash,
+        from: sender,
+        to: tx.to ?? null,
+        contractAddress: null,
+        status: hex(status),
+        gasUsed: hex(100_000),
+        cumulativeGasUsed: hex(100_000),
+        effectiveGasPrice: hex(50_000_000_000n),
+        logsBloom: "0x" + "00".repeat(256),
+        type: "0x0",
+        logs: logs.map((l) => this.formatLog(l)),
+        ...mined,
+      },
+    });
+    return hash;
+  }
+
+  private formatLog(log: MockLog) {
+    return {
+      ...log,
+      blockNumber: hex(log.blockNumber),
+      transactionIndex: hex(log.transactionIndex),
+      logIndex: hex(log.logIndex),
+      removed: false,
+    };
+  }
+
+  private getLogs(filter: Record<string, unknown>) {
+    const from =
+      filter.fromBlock === undefined || filter.fromBlock === "earliest"
+        ? 0
+        : Number(filter.fromBlock);
+    const to =
+      filter.toBlock === undefined || filter.toBlock === "latest"
+        ? this.blockNumber
+        : Number(filter.toBlock);
+    const topics = (filter.topics ?? []) as (string | string[] | null)[];
+    return this.logs
+      .filter((l) => l.blockNumber >= from && l.blockNumber <= to)
+      .filter(
+        (l) =>
+          !filter.address ||
+          l.address.toLowerCase() === String(filter.address).toLowerCase()
+      )
+      .filter((l) =>
+        topics.every((t, i) => {
+          if (t === null) return true;
+          const options = (Array.isArray(t) ? t : [t]).map((x) =>
+            x.toLowerCase()
+          );
+          return options.includes(l.topics[i]?.toLowerCase());
+        })
+      )
+      .map((l) => this.formatLog(l));
+  }
+}
@@ -0,0 +1,242 @@
+import {
+  FetchRequest,
+  Wallet,
+  getAddress,
+  getBytes,
+  toUtf8Bytes,
+  toUtf8String,
+} from "ethers";
+import type { GetUrlResponse } from "ethers";
+import { MockChain, RpcError } from "./mockChain";
+import type {
+  EIP1193Provider,
+  EIP1193RequestArgs,
+  EIP6963ProviderDetail,
+} from "../wallet/eip6963";
+
+type Listener = (...args: never[]) => void;
+
+// Well-known Hardhat/Anvil dev keys, so the mock can sign for their accounts
+const DEV_KEYS = [
+  "0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d",
+  "0x5de4111afa1a4b94908f83103eb1f1706367c2e68ca870fc3fb9a804cdab365a",
+];
+const DEV_WALLETS = new Map(
+  DEV_KEYS.map((key) => {
+    const wallet = new Wallet(key);
+    return [wallet.address, wallet];
+  })
+);
+
+export interface MockWalletOptions {
+  accounts?: string[];
+  // Chain the wallet starts on; need not be one of `chains`
+  chainId?: number;
+  // Chains the wallet can serve, keyed by id
+  chains: MockChain[];
+  // Chain ids the wallet already knows; others need wallet_addEthereumChain
+  knownChainIds?: number[];
+  // The site was connected on an earlier visit, so eth_accounts answers
+  authorized?: boolean;
+}
+
+/**
+ * Scriptable in-memory EIP-1193 wallet. Account/network methods are answered
+ * here, everything else is forwarded to the `MockChain` it's connected to.
+ * `failNext` injects wallet-side errors (user rejection, rate limits, ...)
+ * without touching the read RPC.
+ */
+export class MockWallet implements EIP1193Provider {
+  accounts: string[];
+  chainId: number;
+  connected = false;
+  readonly requests: EIP1193RequestArgs[] = [];
+  private chains: Map<number, MockChain>;
+  private known: Set<number>;
+  private listeners = new Map<string, Set<Listener>>();
+  private failures: { method: string; error: Error; times: number }[] = [];
+
+  constructor(opts: MockWalletOptions) {
+    this.accounts = (
+      opts.accounts ?? ["0x70997970C51812dc3A010C7d01b50e0d17dc79C8"]
+    ).map((a) => getAddress(a));
+    this.chains = new Map(opts.chains.map((c) => [c.chainId, c]));
+    this.chainId = opts.chainId ?? opts.chains[0].chainId;
+    this.known = new Set([this.chainId, ...(opts.knownChainIds ?? [])]);
+    this.connected = opts.authorized ?? false;
+  }
+
+  failNext(method: string, error: Error, times = 1) {
+    this.failures.push({ method, error, times });
+  }
+
+  requestsOf(method: string) {
+    return this.requests.filter((r) => r.method === method);
+  }
+
+  on(event: string, listener: Listener) {
+    if (!this.listeners.has(event)) this.listeners.set(event, new Set());
+    this.listeners.get(event)!.add(listener);
+  }
+
+  removeListener(event: string, listener: Listener) {
+    this.listeners.get(event)?.delete(listener);
+  }
+
+  listenerCount(event: string) {
+    return this.listeners.get(event)?.size ?? 0;
+  }
+
+  emit(event: string, ...args: unknown[]) {
+    for (const listener of this.listeners.get(event) ?? []) {
+      (listener as (...a: unknown[]) => void)(...args);
+    }
+  }
+
+  /** Simulate the user switching network from the wallet UI. */
+  switchChain(chainId: number) {
+    this.chainId = chainId;
+    this.known.add(chainId);
+    this.emit("chainChanged", `0x${chainId.toString(16)}`);
+  }
+
+  /** Simulate the user switching (or disconnecting) accounts. */
+  changeAccounts(accounts: string[]) {
+    this.accounts = accounts.map((a) => getAddress(a));
+    this.emit("accountsChanged", this.connected ? this.accounts : []);
+  }
+
+  /** Simulate the provider losing its connection (EIP-1193 disconnect). */
+  disconnect() {
+    this.emit("disconnect", new RpcError(4900, "Disconnected"));
+  }
+
+  async request({ method, params }: EIP1193RequestArgs): Promise<unknown> {
+    this.requests.push({ method, params });
+    const args = (Array.isArray(params) ? params : []) as unknown[];
+    const failure = this.failures.find((f) => f.method === method);
+    if (failure) {
+      if (--failure.times <= 0) {
+        this.failures.splice(this.failures.indexOf(failure), 1);
+      }
+      throw failure.error;
+    }
+
+    switch (method) {
+      case "eth_requestAccounts":
+        this.connected = true;
+        return this.accounts;
+      case "eth_accounts":
+        return this.connected ? this.accounts : [];
+      case "wallet_revokePermissions":
+        this.connected = false;
+        return null;
+      case "eth_chainId":
+        return `0x${this.chainId.toString(16)}`;
+      case "wallet_switchEthereumChain": {
+        const id = Number((args[0] as { chainId: string }).chainId);
+        if (!this.known.has(id)) {
+          throw new RpcError(4902, `Unrecognized chain ID ${id}`);
+        }
+        this.switchChain(id);
+        return null;
+      }
+      case "wallet_addEthereumChain": {
+        const id = Number((args[0] as { chainId: string }).chainId);
+        // Real wallets offer to switch right after adding
+        this.switchChain(id);
+        return null;
+      }
+      case "personal_sign": {
+        if (!this.connected) throw new RpcError(4100, "Unauthorized");
+        const [data, address] = args as string[];
+        const signer = DEV_WALLETS.get(getAddress(address));
+        if (!signer) throw new RpcError(-32000, `No key for ${address}`);
+        return signer.signMessage(getBytes(data));
+      }
+      case "eth_sendTransaction": {
+        if (!this.connected) throw new RpcError(4100, "Unauthorized");
+        const tx = args[0] as Record<string, string>;
+        return this.chain().request(method, [
+          { ...tx, from: tx.from ?? this.accounts[0] },
+        ]);
+      }
+      default:
+        return this.chain().request(method, args);
+    }
+  }
+
+  private chain() {
+    const chain = this.chains.get(this.chainId);
+    if (!chain) {
+      throw new RpcError(-32000, `No mock chain for ${this.chainId}`);
+    }
+    return chain;
+  }
+}
+
+/** Announce `wallet` over EIP-6963, now and on every discovery request. */
+export function announceWallet(
+  wallet: EIP1193Provider,
+  info: Partial<EIP6963ProviderDetail["info"]> = {}
+) {
+  const detail: EIP6963ProviderDetail = {
+    info: {
+      uuid: "mock-wallet",
+      name: "Mock Wallet",
+      icon: "",
+      rdns: "test.mock.wallet",
+      ...info,
+    },
+    provider: wallet,
+  };
+  const announce = () =>
+    window.dispatchEvent(
+      new CustomEvent("eip6963:announceProvider", { detail })
+    );
+  window.addEventListener("eip6963:requestProvider", announce);
+  announce();
+  return () => window.removeEventListener("eip6963:requestProvider", announce);
+}
+
+/**
+ * Route ethers' HTTP JSON-RPC traffic for `url` to `chain`, so the app's
+ * read RPC hits the same in-memory state as the wallet.
+ */
+export function serveRpc(routes: Record<string, MockChain>) {
+  FetchRequest.registerGetUrl(async (req): Promise<GetUrlResponse> => {
+    const chain = routes[req.url];
+    if (!chain) throw new Error(`No mock RPC at ${req.url}`);
+    const payload = JSON.parse(toUtf8String(req.body!));
+    const answer = async (p: {
+      id: number;
+      method: string;
+      params?: unknown[];
+    }) => {
+      try {
+        const result = await chain.request(p.method, p.params ?? []);
+        return { jsonrpc: "2.0", id: p.id, result };
+      } catch (e) {
+        const err = e as RpcError;
+        return {
+          jsonrpc: "2.0",
+          id: p.id,
+          error: {
+            code: err.code ?? -32603,
+            message: err.message,
+            data: err.data,
+          },
+        };
+      }
+    };
+    const body = Array.isArray(payload)
+      ? await Promise.all(payload.map(answer))
+      : await answer(payload);
+    return {
+      statusCode: 200,
+      statusMessage: "OK",
+      headers: { "content-type": "application/json" },
+      body: toUtf8Bytes(JSON.stringify(body)),
+    };
+  });
+}
@@ -0,0 +1,26 @@
+import { afterEach, vi } from "vitest";
+import { cleanup } from "@testing-library/react";
+
+// jsdom has no IntersectionObserver; token cards just never come into view
+class NoopIntersectionObserver {
+  observe() {}
+  unobserve() {}
+  disconnect() {}
+  takeRecords() {
+    return [];
+  }
+}
+vi.stubGlobal("IntersectionObserver", NoopIntersectionObserver);
+
+// Nothing in the tests may reach the network (metadata gateways, ...)
+vi.stubGlobal(
+  "fetch",
+  vi.fn(async (url: string) => {
+    throw new TypeError(`fetch blocked in tests: ${url}`);
+  })
+);
+
+afterEach(() => {
+  cleanup();
+  localStorage.clear();
+});
@@ -0,0 +1,274 @@
+import { useState } from "react";
+import { resolveUri } from "../gallery/metadata";
+import { navigate } from "../router";
+import { usePageMeta } from "../pageMeta";
+import { explorerAddressUrl } from "../chains/registry";
+import type { ChainConfig } from "../chains/registry";
+import { collectionPath } from "../collections/registry";
+import type { CollectionConfig } from "../collections/registry";
+import type { EIP1193Provider } from "../wallet/eip6963";
+import { useI18n } from "../i18n/i18n";
+import TransferForm from "./TransferForm";
+import { tokenPath } from "./tokenDetails";
+import { useTokenDetails } from "./useTokenDetails";
+import { useTransfer } from "./useTransfer";
+
+interface TokenPageProps {
+  collection: CollectionConfig;
+  chain: ChainConfig;
+  tokenId: bigint;
+  account: string | null;
+  walletProvider?: EIP1193Provider;
+  onConnect: () => void;
+  // A transfer from the connected wallet was mined
+  onTransferred: () => void;
+}
+
+function firstUrl(uri: string | undefined | null) {
+  try {
+    return uri ? resolveUri(uri) : [];
+  } catch {
+    return [];
+  }
+}
+
+function AddressLink({
+  chain,
+  address,
+}: {
+  chain: ChainConfig;
+  address: string;
+}) {
+  const url = explorerAddressUrl(chain, address);
+  const text = <code className="break-all">{address}</code>;
+  return url ? (
+    <a
+      href={url}
+      target="_blank"
+      rel="noopener noreferrer"
+      className="underline hover:text-blue-300"
+    >
+      {text}
+    </a>
+  ) : (
+    text
+  );
+}
+
+/** Go-to-token box, so any token id is one step from a shareable URL. */
+function TokenLookup({
+  collection,
+  current,
+}: {
+  collection: CollectionConfig;
+  current: bigint;
+}) {
+  const { t } = useI18n();
+  const [value, setValue] = useState("");
+  return (
+    <form
+      className="flex gap-2 text-xs md:text-sm mb-4"
+      onSubmit={(e) => {
+        e.preventDefault();
+        const id = value.trim().replace(/^#/, "");
+        if (/^\d+$/.test(id))
+          navigate(collectionPath(collection, tokenPath(id)));
+      }}
+    >
+      <input
+        aria-label={t("token.lookupLabel")}
+        value={value}
+        onChange={(e) => setValue(e.target.value)}
+        placeholder={t("token.lookupPlaceholder", {
+          id: (current + 1n).toString(),
+        })}
+        inputMode="numeric"
+        className="w-40 px-2 py-1 bg-gray-700 text-white rounded"
+      />
+      <button
+        type="submit"
+        className="px-3 py-1 rounded bg-white/10 hover:bg-white/20"
+      >
+        {t("token.lookUp")}
+      </button>
+    </form>
+  );
+}
+
+/** One token: image, owner, metadata, links, and a transfer form for its holder. */
+export default function TokenPage({
+  collection,
+  chain,
+  tokenId,
+  account,
+  walletProvider,
+  onConnect,
+  onTransferred,
+}: TokenPageProps) {
+  const { t } = useI18n();
+  const { details, metadata, loading, error, metadataError, reload } =
+    useTokenDetails(chain, tokenId);
+  const [imageIndex, setImageIndex] = useState(0);
+  const transfer = useTransfer({
+    chain,
+    walletProvider,
+    account,
+    tokenId,
+    onTransferred: () => {
+      reload();
+      onTransferred();
+    },
+  });
+
+  const imageUrl = firstUrl(metadata?.image)[imageIndex];
+  const metadataUrl = firstUrl(details?.tokenUri)[0];
+  const isHolder =
+    Boolean(account && details?.owner) &&
+    details!.owner!.toLowerCase() === account!.toLowerCase();
+  const title = metadata?.name ?? `${collection.tokenName} #${tokenId}`;
+
+  usePageMeta({
+    title: `${title} | ${collection.name}`,
+    description:
+      metadata?.description ??
+      t("token.description", {
+        token: collection.tokenName,
+        id: tokenId.toString(),
+        collection: collection.name,
+      }),
+    image: imageUrl,
+    url: new URL(
+      collectionPath(collection, tokenPath(tokenId)),
+      window.location.origin
+    ).toString(),
+  });
+
+  return (
+    <div>
+      <TokenLookup collection={collection} current={tokenId} />
+      {error ? (
+        <div className="text-xs text-red-300">{t(error)}</div>
+      ) : !details ? (
+        <div className="text-xs text-gray-400">
+          {loading ? t("token.loading") : ""}
+        </div>
+      ) : !details.owner ? (
+        <div className="text-sm text-gray-300">
+          {t("token.missing", {
+            token: collection.tokenName,
+            id: tokenId.toString(),
+          })}
+        </div>
+      ) : (
+        <div className="flex flex-col md:flex-row gap-6">
+          <div className="md:w-1/2 aspect-square bg-gray-800 rounded-lg overflow-hidden flex items-center justify-center">
+            {imageUrl ? (
+              <img
+                src={imageUrl}
+                alt={title}
+                className="w-full h-full object-cover"
+                // Try the next gateway if this one fails
+                onError={() => setImageIndex((i) => i + 1)}
+              />
+            ) : (
+              <span className="text-xs text-gray-500">
+                {t(
+                  metadataError ??
+                    (metadata ? "token.noImage" : "token.imageLoading")
+                )}
+              </span>
+            )}
+          </div>
+          <div className="md:w-1/2 text-xs md:text-sm">
+            <h2 className="text-xl md:text-2xl font-bold mb-2">{title}</h2>
+            {metadata?.description && (
+              <p className="text-gray-300 mb-3">{metadata.description}</p>
+            )}
+            <div className="text-gray-400">{t("token.owner")}</div>
+            <div className="mb-3">
+              <AddressLink chain={chain} address={details.owner} />
+              {isHolder && (
+                <span className="ml-2 text-green-300">
+                  {t("token.ownerYou")}
+                </span>
+              )}
+            </div>
+            {metadata && metadata.attributes.length > 0 && (
+              <ul className="flex flex-wrap gap-1 mb-3">
+                {metadata.attributes.map((a, i) => (
+                  <li
+                    key={`${a.trait_type ?? "trait"}-${i}`}
+                    className="bg-accent/40 rounded px-1.5 py-0.5"
+                  >
+                    {a.trait_type ? `${a.trait_type}: ` : ""}
+                    {String(a.value)}
+                  </li>
+                ))}
+              </ul>
+            )}
+            <ul className="space-y-1 text-gray-300">
+              {chain.contractAddress &&
+                explorerAddressUrl(chain, chain.contractAddress) && (
+                  <li>
+                    <a
+                      href={explorerAddressUrl(chain, chain.contractAddress)}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="underline hover:text-blue-300"
+                    >
+                      {t("token.contract")}
+                    </a>
+                  </li>
+                )}
+              {metadataUrl && (
+                <li>
+                  <a
+                    href={metadataUrl}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="underline hover:text-blue-300"
+                  >
+                    {t("token.metadataJson")}
+                  </a>
+                </li>
+              )}
+              {metadata?.external_url && (
+                <li>
+                  <a
+                    href={metadata.external_url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="underline hover:text-blue-300"
+                  >
+                    {t("token.projectPage")}
+                  </a>
+                </li>
+              )}
+            </ul>
+
+            {!account && (
+              <button
+                onClick={onConnect}
+                className="mt-4 px-3 py-1 rounded bg-accent hover:bg-accent-hover"
+              >
+                {t("wallet.connect")}
+              </button>
+            )}
+            {((isHolder && walletProvider) ||
+              transfer.state.step === "done") && (
+              <TransferForm
+                collection={collection}
+                chain={chain}
+                tokenId={tokenId}
+                state={transfer.state}
+                onCheck={transfer.check}
+                onConfirm={transfer.confirm}
+                onReset={transfer.reset}
+              />
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
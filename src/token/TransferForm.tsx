@@ -0,0 +1,170 @@
+import { useState } from "react";
+import { explorerTxUrl } from "../chains/registry";
+import type { ChainConfig } from "../chains/registry";
+import type { CollectionConfig } from "../collections/registry";
+import { useI18n } from "../i18n/i18n";
+import type { TransferState } from "./useTransfer";
+
+interface TransferFormProps {
+  collection: CollectionConfig;
+  chain: ChainConfig;
+  tokenId: bigint;
+  state: TransferState;
+  onCheck: (input: string) => void;
+  onConfirm: () => void;
+  onReset: () => void;
+}
+
+export default function TransferForm({
+  collection,
+  chain,
+  tokenId,
+  state,
+  onCheck,
+  onConfirm,
+  onReset,
+}: TransferFormProps) {
+  const { t, rich } = useI18n();
+  const [input, setInput] = useState("");
+  // Sending to a contract needs an explicit acknowledgement
+  const [contractOk, setContractOk] = useState(false);
+  const busy =
+    state.step === "checking" ||
+    state.step === "wallet" ||
+    state.step === "pending";
+  const recipient = "recipient" in state ? state.recipient : undefined;
+  const txUrl = "hash" in state ? explorerTxUrl(chain, state.hash) : undefined;
+
+  if (state.step === "done") {
+    return (
+      <div className="mt-4 p-3 bg-green-700/40 rounded text-xs md:text-sm">
+        {rich("transfer.sent", {
+          token: `${collection.tokenName} #${tokenId}`,
+          address: <code className="break-all">{state.recipient.address}</code>,
+        })}
+        {txUrl && (
+          <>
+            {" "}
+            <a
+              href={txUrl}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="underline"
+            >
+              {t("transfer.viewTx")}
+            </a>
+          </>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <form
+      className="mt-4 text-xs md:text-sm"
+      onSubmit={(e) => {
+        e.preventDefault();
+        if (state.step === "confirm") onConfirm();
+        else onCheck(input);
+      }}
+    >
+      <label className="block text-gray-300 mb-1" htmlFor="transfer-recipient">
+        {t("transfer.sendTo")}
+      </label>
+      <input
+        id="transfer-recipient"
+        value={input}
+        onChange={(e) => {
+          setInput(e.target.value);
+          setContractOk(false);
+          if (state.step !== "idle") onReset();
+        }}
+        placeholder={t("transfer.placeholder")}
+        spellCheck={false}
+        autoComplete="off"
+        disabled={busy}
+        className="w-full px-2 py-1 bg-gray-700 text-white rounded font-mono"
+      />
+
+      {state.step === "confirm" && (
+        <div className="mt-2 p-2 bg-white/5 rounded">
+          <div>
+            {state.recipient.name
+              ? t("transfer.recipientNamed", { name: state.recipient.name })
+              : t("transfer.recipient")}
+          </div>
+          <code className="break-all">{state.recipient.address}</code>
+          {state.recipient.isContract && (
+            <label className="mt-2 flex gap-2 items-start p-2 bg-yellow-600/50 rounded">
+              <input
+                type="checkbox"
+                checked={contractOk}
+                onChange={(e) => setContractOk(e.target.checked)}
+                className="mt-0.5"
+              />
+              <span>
+                {t("transfer.contractWarning", {
+                  token: collection.tokenName,
+                  tokens: collection.tokenNamePlural,
+                })}
+              </span>
+            </label>
+          )}
+        </div>
+      )}
+
+      {state.step === "failed" && (
+        <p className="mt-2 text-red-300">
+          {state.error.map((e) => t(e)).join(" ")}
+        </p>
+      )}
+      {state.step === "wallet" && (
+        <p className="mt-2 text-gray-300">{t("transfer.inWallet")}</p>
+      )}
+      {state.step === "pending" && (
+        <p className="mt-2 text-gray-300">
+          {t("transfer.pending")}{" "}
+          {txUrl && (
+            <a
+              href={txUrl}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="underline"
+            >
+              {t("transfer.viewTx")}
+            </a>
+          )}
+        </p>
+      )}
+
+      <div className="mt-2 flex gap-2">
+        <button
+          type="submit"
+          disabled={
+            busy ||
+            !input.trim() ||
+            (state.step === "confirm" &&
+              state.recipient.isContract &&
+              !contractOk)
+          }
+          className="px-3 py-1 rounded bg-accent hover:bg-accent-hover disabled:opacity-50"
+        >
+          {state.step === "confirm"
+            ? t("transfer.send", { id: tokenId.toString() })
+            : state.step === "checking"
+            ? t("transfer.checking")
+            : t("transfer.review")}
+        </button>
+        {recipient && !busy && (
+          <button
+            type="button"
+            onClick={onReset}
+            className="px-3 py-1 rounded bg-white/10 hover:bg-white/20"
+          >
+            {t("action.cancel")}
+          </button>
+        )}
+      </div>
+    </form>
+  );
+}
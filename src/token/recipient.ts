@@ -0,0 +1,96 @@
+import { ZeroAddress, getAddress, isError } from "ethers";
+import { getReadRpc } from "../rpc/readProvider";
+import type { ChainConfig } from "../chains/registry";
+import { translate } from "../i18n/i18n";
+import type { Translatable } from "../i18n/i18n";
+
+// Recipient checks for token transfers. A token sent to a typo'd address is
+// gone for good, so anything ambiguous is rejected rather than guessed at.
+
+export class RecipientError extends Error {
+  // For the form; `message` is the English, for logs
+  readonly text: Translatable;
+
+  constructor(text: Translatable) {
+    super(translate("en", text.key, text.params));
+    this.name = "RecipientError";
+    this.text = text;
+  }
+}
+
+export interface Recipient {
+  address: string; // EIP-55 checksummed
+  name?: string; // the ENS-style name it was resolved from
+  isContract: boolean;
+}
+
+const HEX_ADDRESS = /^0x[0-9a-fA-F]{40}$/;
+// label.label...tld, e.g. shramp.eth
+const NAME = /^([a-z0-9-]+\.)+[a-z]{2,}$/i;
+
+/**
+ * Checksummed address for a typed 0x address. All-lowercase (or uppercase)
+ * input carries no checksum and is accepted; mixed case must be a valid
+ * EIP-55 checksum, since a mismatch usually means a mistyped character.
+ */
+export function parseAddress(input: string): string {
+  const value = input.trim();
+  if (!HEX_ADDRESS.test(value)) {
+    throw new RecipientError({ key: "recipient.notAddress" });
+  }
+  try {
+    return getAddress(value);
+  } catch {
+    throw new RecipientError({ key: "recipient.badChecksum" });
+  }
+}
+
+export function isNameInput(input: string) {
+  return NAME.test(input.trim());
+}
+
+async function resolveName(chain: ChainConfig, name: string) {
+  let address: string | null;
+  try {
+    address = await getReadRpc(chain).run((p) => p.resolveName(name));
+  } catch (err) {
+    if (isError(err, "UNSUPPORTED_OPERATION")) {
+      throw new RecipientError({
+        key: "recipient.noNameService",
+        params: { chain: chain.name },
+      });
+    }
+    throw err;
+  }
+  if (!address) {
+    throw new RecipientError({ key: "recipient.unresolved", params: { name } });
+  }
+  return getAddress(address);
+}
+
+/**
+ * Validate and resolve what the user typed as a transfer recipient for a
+ * token held by `from`. Throws RecipientError with a message for the form.
+ */
+export async function resolveRecipient(
+  chain: ChainConfig,
+  input: string,
+  from: string
+): Promise<Recipient> {
+  const value = input.trim();
+  if (!value) throw new RecipientError({ key: "recipient.empty" });
+  const name = isNameInput(value) ? value.toLowerCase() : undefined;
+  const address = name ? await resolveName(chain, name) : parseAddress(value);
+
+  if (address === ZeroAddress) {
+    throw new RecipientError({ key: "recipient.zero" });
+  }
+  if (address === getAddress(from)) {
+    throw new RecipientError({ key: "recipient.self" });
+  }
+  if (chain.contractAddress && address === getAddress(chain.contractAddress)) {
+    throw new RecipientError({ key: "recipient.collection" });
+  }
+  const code = await getReadRpc(chain).run((p) => p.getCode(address));
+  return { address, name, isContract: code !== "0x" };
+}
@@ -0,0 +1,61 @@
+import { getAddress } from "ethers";
+import { batchRead } from "../rpc/multicall";
+import { getReadRpc } from "../rpc/readProvider";
+import type { ChainConfig } from "../chains/registry";
+
+// One token's on-chain state, for the token detail page.
+
+export interface TokenDetails {
+  tokenId: bigint;
+  // null when ownerOf reverts: never minted, or burned
+  owner: string | null;
+  tokenUri: string | null;
+}
+
+export function tokenPath(tokenId: bigint | number | string) {
+  return `/token/${tokenId}`;
+}
+
+/** Token id from a `/token/:id` path, or null for any other path. */
+export function parseTokenPath(pathname: string): bigint | null {
+  const match = /^\/token\/(\d{1,78})\/?$/.exec(pathname);
+  return match ? BigInt(match[1]) : null;
+}
+
+export async function fetchTokenDetails(
+  chain: ChainConfig,
+  tokenId: bigint
+): Promise<TokenDetails> {
+  const [owner, uri] = await batchRead(chain, [
+    { fn: "ownerOf", args: [tokenId] },
+    { fn: "tokenURI", args: [tokenId] },
+  ]);
+  if (!owner.success) {
+    // A revert just means there's no such token; anything else is an outage
+    const code = (owner.error as { code?: string })?.code;
+    if (code !== "CALL_EXCEPTION") throw owner.error;
+    return { tokenId, owner: null, tokenUri: null };
+  }
+  return {
+    tokenId,
+    owner: getAddress(owner.value as string),
+    tokenUri: uri.success ? (uri.value as string) : null,
+  };
+}
+
+const RECEIPT_POLL_MS = 2_000;
+
+/** Status of a mined transaction (1 success, 0 reverted), polling the read RPC. */
+export async function waitForReceiptStatus(
+  chain: ChainConfig,
+  hash: string,
+  isCancelled: () => boolean
+): Promise<number | null> {
+  const readRpc = getReadRpc(chain);
+  while (!isCancelled()) {
+    const receipt = await readRpc.run((p) => p.getTransactionReceipt(hash));
+    if (receipt) return receipt.status;
+    await new Promise((res) => setTimeout(res, RECEIPT_POLL_MS));
+  }
+  return null;
+}
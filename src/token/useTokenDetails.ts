@@ -0,0 +1,56 @@
+import { useCallback, useEffect, useState } from "react";
+import { fetchTokenDetails } from "./tokenDetails";
+import type { TokenDetails } from "./tokenDetails";
+import { fetchTokenMetadata } from "../gallery/metadata";
+import type { TokenMetadata } from "../gallery/metadata";
+import type { ChainConfig } from "../chains/registry";
+import type { MessageKey } from "../i18n/i18n";
+import { createLogger } from "../logging/logger";
+
+const log = createLogger("token");
+
+export function useTokenDetails(chain: ChainConfig, tokenId: bigint) {
+  const [details, setDetails] = useState<TokenDetails | null>(null);
+  const [metadata, setMetadata] = useState<TokenMetadata | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<MessageKey | null>(null);
+  const [metadataError, setMetadataError] = useState<MessageKey | null>(null);
+
+  const reload = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      setDetails(await fetchTokenDetails(chain, tokenId));
+    } catch (e) {
+      log.error("Token details read failed", { tokenId, error: e });
+      setError("token.failed");
+    } finally {
+      setLoading(false);
+    }
+  }, [chain, tokenId]);
+
+  useEffect(() => {
+    setDetails(null);
+    reload();
+  }, [reload]);
+
+  // Metadata only depends on the URI, not on who holds the token
+  const tokenUri = details?.tokenUri;
+  useEffect(() => {
+    setMetadata(null);
+    setMetadataError(null);
+    if (!tokenUri) return;
+    let cancelled = false;
+    fetchTokenMetadata(tokenUri)
+      .then((m) => !cancelled && setMetadata(m))
+      .catch((e) => {
+        log.warn("Token metadata failed", { tokenId, error: e });
+        if (!cancelled) setMetadataError("token.metadataUnavailable");
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [tokenUri, tokenId]);
+
+  return { details, metadata, loading, error, metadataError, reload };
+}
@@ -0,0 +1,138 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { BrowserProvider, getAddress } from "ethers";
+import { getContract } from "../contract";
+import { switchWalletChain } from "../chains/switchNetwork";
+import type { ChainConfig } from "../chains/registry";
+import { TxError, describeTxError, txErrorNames } from "../errors/decodeError";
+import type { EIP1193Provider } from "../wallet/eip6963";
+import type { Translatable } from "../i18n/i18n";
+import { RecipientError, resolveRecipient } from "./recipient";
+import type { Recipient } from "./recipient";
+import { waitForReceiptStatus } from "./tokenDetails";
+import { createLogger } from "../logging/logger";
+import { logTxError } from "../logging/logTxError";
+
+const log = createLogger("token");
+
+export type TransferState =
+  | { step: "idle" }
+  | { step: "checking" }
+  // Recipient validated; waiting for the user to confirm it
+  | { step: "confirm"; recipient: Recipient }
+  | { step: "wallet"; recipient: Recipient }
+  | { step: "pending"; recipient: Recipient; hash: string }
+  | { step: "done"; recipient: Recipient; hash: string }
+  | { step: "failed"; error: Translatable[]; recipient?: Recipient };
+
+interface UseTransferOptions {
+  chain: ChainConfig;
+  walletProvider?: EIP1193Provider;
+  account: string | null;
+  tokenId: bigint;
+  // The transfer was mined; refresh the owner, gallery, ...
+  onTransferred: () => void;
+}
+
+/** safeTransferFrom of one token from the connected account, check then send. */
+export function useTransfer({
+  chain,
+  walletProvider,
+  account,
+  tokenId,
+  onTransferred,
+}: UseTransferOptions) {
+  const [state, setState] = useState<TransferState>({ step: "idle" });
+  // Bumped on reset so an abandoned attempt stops updating state
+  const attemptRef = useRef(0);
+  const onTransferredRef = useRef(onTransferred);
+
+  useEffect(() => {
+    onTransferredRef.current = onTransferred;
+  }, [onTransferred]);
+
+  const reset = useCallback(() => {
+    attemptRef.current++;
+    setState({ step: "idle" });
+  }, []);
+
+  // A different token or account starts over
+  useEffect(() => reset(), [reset, chain, account, tokenId]);
+
+  async function check(input: string) {
+    if (!account) return;
+    const attempt = ++attemptRef.current;
+    setState({ step: "checking" });
+    try {
+      const recipient = await resolveRecipient(chain, input, account);
+      if (attemptRef.current === attempt) {
+        setState({ step: "confirm", recipient });
+      }
+    } catch (e) {
+      if (attemptRef.current !== attempt) return;
+      if (!(e instanceof RecipientError)) {
+        log.error("Recipient check failed", { error: e });
+      }
+      setState({
+        step: "failed",
+        error: [
+          e instanceof RecipientError
+            ? e.text
+            : { key: "transfer.checkFailed" },
+        ],
+      });
+    }
+  }
+
+  async function confirm() {
+    if (state.step !== "confirm" || !walletProvider || !account) return;
+    const { recipient } = state;
+    const attempt = ++attemptRef.current;
+    const cancelled = () => attemptRef.current !== attempt;
+    setState({ step: "wallet", recipient });
+    let txHash: string | undefined;
+    try {
+      const provider = new BrowserProvider(walletProvider);
+      await switchWalletChain(provider, chain);
+      const signer = await provider.getSigner();
+      const from = getAddress(await signer.getAddress());
+      if (from !== getAddress(account)) {
+        throw new TxError(
+          "unknown",
+          { key: "txError.accountSwitched" },
+          { cause: { from, account } }
+        );
+      }
+      const transfer = getContract(chain, signer).getFunction(
+        "safeTransferFrom"
+      );
+      // Surfaces ERC721InvalidReceiver etc. before the wallet prompt
+      await transfer.staticCall(from, recipient.address, tokenId);
+      const tx = await transfer(from, recipient.address, tokenId);
+      txHash = tx.hash;
+      log.info("Transfer submitted", { tokenId, txHash });
+      if (cancelled()) return;
+      setState({ step: "pending", recipient, hash: tx.hash });
+      const status = await waitForReceiptStatus(chain, tx.hash, cancelled);
+      if (cancelled()) return;
+      if (status !== 1) {
+        throw new TxError(
+          "revert",
+          { key: "transfer.failedOnChain" },
+          { cause: { hash: tx.hash } }
+        );
+      }
+      setState({ step: "done", recipient, hash: tx.hash });
+      onTransferredRef.current();
+    } catch (e) {
+      if (cancelled()) return;
+      logTxError(log, "Transfer failed", e, { tokenId, txHash });
+      setState({
+        step: "failed",
+        error: describeTxError(e, txErrorNames(chain)),
+        recipient,
+      });
+    }
+  }
+
+  return { state, check, confirm, reset };
+}
@@ -0,0 +1,71 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { Interface } from "ethers";
+import contractABI from "../contractABI";
+import { getChainByKey } from "../chains/registry";
+import { MockChain, RpcError } from "../test/mockChain";
+import { serveRpc } from "../test/mockWallet";
+import { waitForPendingMint } from "./pendingMints";
+import type { PendingMint } from "./pendingMints";
+
+const iface = new Interface(contractABI);
+const ALICE = "0x70997970C51812dc3A010C7d01b50e0d17dc79C8";
+const chain = getChainByKey("monad-testnet")!;
+
+let mock: MockChain;
+
+beforeEach(() => {
+  mock = new MockChain();
+  serveRpc({ "http://rpc.mock/": mock });
+});
+
+async function mint(quantity = 1n) {
+  return (await mock.request("eth_sendTransaction", [
+    {
+      from: ALICE,
+      to: mock.contractAddress,
+      data: iface.encodeFunctionData("mint", [quantity]),
+      value: `0x${(mock.contract.mintPrice * quantity).toString(16)}`,
+    },
+  ])) as string;
+}
+
+const pending = (hash: string, nonce: number): PendingMint => ({
+  hash,
+  quantity: 1,
+  account: ALICE,
+  chainId: chain.id,
+  nonce,
+  startBlock: 0,
+  timestamp: Date.now(),
+});
+
+describe("waitForPendingMint", () => {
+  it("waits out a transient RPC failure", async () => {
+    const hash = await mint();
+    mock.failNext(
+      "eth_getTransactionReceipt",
+      new RpcError(-32005, "rate limit exceeded")
+    );
+    // One poll interval later the receipt is there
+    expect(await waitForPendingMint(chain, pending(hash, 0))).toEqual({
+      status: "success",
+      hash,
+      tokenIds: [1n],
+      replaced: false,
+    });
+    expect(mock.callsOf("eth_getTransactionReceipt")).toHaveLength(2);
+  }, 10_000);
+
+  it("matches a replacement by nonce, not by the account's other mints", async () => {
+    await mint(); // nonce 0, an unrelated mint
+    const replacement = await mint(); // nonce 1, what the wallet sped up
+    await mint(); // nonce 2, sent afterwards
+    const original = `0x${"ab".repeat(32)}`; // never mined
+    expect(await waitForPendingMint(chain, pending(original, 1))).toEqual({
+      status: "success",
+      hash: replacement,
+      tokenIds: [2n],
+      replaced: true,
+    });
+  });
+});
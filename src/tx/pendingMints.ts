@@ -0,0 +1,203 @@
+import type { TransactionReceipt } from "ethers";
+import { fetchMintLogs, toMintEvent } from "../feed/mintFeed";
+import { getReadRpc, isRetryableRpcError } from "../rpc/readProvider";
+import { getChainById } from "../chains/registry";
+import type { ChainConfig } from "../chains/registry";
+import { createLogger } from "../logging/logger";
+
+const log = createLogger("tx");
+
+// Mint transactions are persisted between submission and confirmation so a
+// reload or closed tab doesn't lose track of them.
+
+export interface PendingMint {
+  hash: string;
+  quantity: number;
+  account: string;
+  chainId: number;
+  // Collection contract; missing on mints saved before collections existed
+  contract?: string;
+  nonce: number;
+  // Block number when the tx was sent; lower bound when searching replacements
+  startBlock: number;
+  timestamp: number;
+}
+
+export type MintOutcome =
+  | {
+      status: "success";
+      hash: string; // final hash; differs from the original when sped up
+      tokenIds: bigint[];
+      replaced: boolean;
+    }
+  | { status: "failed"; hash: string; reason: "reverted" | "dropped" };
+
+const STORAGE_KEY = "shramp:pendingMints";
+const POLL_MS = 3_000;
+// A tx nobody has seen for this long (and whose nonce wasn't used) is dropped
+const DROP_AFTER_MS = 30 * 60_000;
+
+export function loadPendingMints(): PendingMint[] {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const list = raw ? (JSON.parse(raw) as PendingMint[]) : [];
+    return Array.isArray(list) ? list : [];
+  } catch {
+    return [];
+  }
+}
+
+function savePendingMints(list: PendingMint[]) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(list));
+  } catch {
+    // storage unavailable; recovery just won't survive a reload
+  }
+}
+
+/** Whether `pending` was a mint on `chain`'s contract. */
+export function isPendingMintFor(pending: PendingMint, chain: ChainConfig) {
+  const contract =
+    pending.contract ?? getChainById(pending.chainId)?.contractAddress;
+  return (
+    pending.chainId === chain.id &&
+    Boolean(contract && chain.contractAddress) &&
+    contract!.toLowerCase() === chain.contractAddress!.toLowerCase()
+  );
+}
+
+export function addPendingMint(pending: PendingMint) {
+  const list = loadPendingMints().filter(
+    (p) => p.hash.toLowerCase() !== pending.hash.toLowerCase()
+  );
+  savePendingMints([...list, pending]);
+}
+
+export function removePendingMint(hash: string) {
+  savePendingMints(
+    loadPendingMints().filter(
+      (p) => p.hash.toLowerCase() !== hash.toLowerCase()
+    )
+  );
+}
+
+export function mintedTokenIds(
+  chain: ChainConfig,
+  receipt: TransactionReceipt
+): bigint[] {
+  return receipt.logs
+    .filter(
+      (log) =>
+        log.address.toLowerCase() === chain.contractAddress?.toLowerCase()
+    )
+    .map((log) => toMintEvent(log))
+    .filter((ev) => ev !== null)
+    .map((ev) => ev.tokenId);
+}
+
+const sleep = (ms: number) => new Promise((res) => setTimeout(res, ms));
+
+/**
+ * The tx's nonce was consumed by a different transaction (wallet speed-up or
+ * cancel). A speed-up still mints, so look through the account's NFTMinted
+ * logs since the original was sent for a tx with the same nonce; other mints
+ * the account sent meanwhile have other nonces. None means it was cancelled.
+ */
+async function resolveReplacement(
+  chain: ChainConfig,
+  pending: PendingMint
+): Promise<MintOutcome> {
+  if (chain.contractAddress) {
+    const readRpc = getReadRpc(chain);
+    const latest = await readRpc.run((p) => p.getBlockNumber());
+    const logs = await fetchMintLogs(chain, pending.startBlock, latest, {
+      minter: pending.account,
+    });
+    const hashes = Array.from(new Set(logs.map((l) => l.txHash))).filter(
+      (h) => h.toLowerCase() !== pending.hash.toLowerCase()
+    );
+    let replacementHash: string | undefined;
+    for (const hash of hashes) {
+      const tx = await readRpc.run((p) => p.getTransaction(hash));
+      if (
+        tx?.nonce === pending.nonce &&
+        tx.from.toLowerCase() === pending.account.toLowerCase()
+      ) {
+        replacementHash = hash;
+        break;
+      }
+    }
+    if (replacementHash) {
+      const tokenIds = logs
+        .filter((l) => l.txHash === replacementHash)
+        .map((l) => l.tokenId);
+      return {
+        status: "success",
+        hash: replacementHash,
+        tokenIds,
+        replaced: true,
+      };
+    }
+  }
+  return { status: "failed", hash: pending.hash, reason: "dropped" };
+}
+
+/** One look at the pending mint; null while it's still in flight. */
+async function checkPendingMint(
+  chain: ChainConfig,
+  pending: PendingMint
+): Promise<MintOutcome | null> {
+  const readRpc = getReadRpc(chain);
+  const receipt = await readRpc.run((p) =>
+    p.getTransactionReceipt(pending.hash)
+  );
+  if (receipt) {
+    return receipt.status === 1
+      ? {
+          status: "success",
+          hash: pending.hash,
+          tokenIds: mintedTokenIds(chain, receipt),
+          replaced: false,
+        }
+      : { status: "failed", hash: pending.hash, reason: "reverted" };
+  }
+
+  const tx = await readRpc.run((p) => p.getTransaction(pending.hash));
+  if (!tx) {
+    const nonce = await readRpc.run((p) =>
+      p.getTransactionCount(pending.account, "latest")
+    );
+    if (nonce > pending.nonce) return resolveReplacement(chain, pending);
+    if (Date.now() - pending.timestamp > DROP_AFTER_MS) {
+      return { status: "failed", hash: pending.hash, reason: "dropped" };
+    }
+  }
+  return null;
+}
+
+/**
+ * Poll until the pending mint is mined, replaced or dropped. Safe to call for
+ * a freshly sent tx and for one restored from storage after a reload. RPC
+ * outages are waited out (the tx may well confirm meanwhile); only an abort
+ * or a non-retryable error rejects.
+ */
+export async function waitForPendingMint(
+  chain: ChainConfig,
+  pending: PendingMint,
+  signal?: AbortSignal
+): Promise<MintOutcome> {
+  while (!signal?.aborted) {
+    try {
+      const outcome = await checkPendingMint(chain, pending);
+      if (outcome) return outcome;
+    } catch (err) {
+      if (!isRetryableRpcError(err)) throw err;
+      log.warn("Pending mint check failed, retrying", {
+        txHash: pending.hash,
+        error: err,
+      });
+    }
+    await sleep(POLL_MS);
+  }
+  throw new DOMException("Stopped waiting for mint", "AbortError");
+}
@@ -0,0 +1,118 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import {
+  addPendingMint,
+  isPendingMintFor,
+  loadPendingMints,
+  removePendingMint,
+  waitForPendingMint,
+} from "./pendingMints";
+import type { MintOutcome, PendingMint } from "./pendingMints";
+import type { ChainConfig } from "../chains/registry";
+import { createLogger } from "../logging/logger";
+
+const log = createLogger("tx");
+
+// Delay before following a mint again after its watcher failed; doubles
+// per failure up to the cap
+const RETRY_MS = 5_000;
+const MAX_RETRY_MS = 60_000;
+
+const sleep = (ms: number) => new Promise((res) => setTimeout(res, ms));
+
+/**
+ * Pending mints of `account` on `chain`'s contract, restored from storage on
+ * load and followed until they settle. `onSettled` receives each final outcome.
+ */
+export function usePendingMints(
+  account: string | null,
+  chain: ChainConfig,
+  onSettled: (pending: PendingMint, outcome: MintOutcome) => void
+) {
+  const [pending, setPending] = useState<PendingMint[]>([]);
+  const onSettledRef = useRef(onSettled);
+  const watching = useRef(new Map<string, Promise<MintOutcome>>());
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    onSettledRef.current = onSettled;
+  }, [onSettled]);
+
+  const watch = useCallback(
+    (p: PendingMint) => {
+      const key = p.hash.toLowerCase();
+      const existing = watching.current.get(key);
+      if (existing) return existing;
+      const signal = abortRef.current?.signal;
+      const follow = async (): Promise<MintOutcome> => {
+        for (
+          let delay = RETRY_MS;
+          ;
+          delay = Math.min(delay * 2, MAX_RETRY_MS)
+        ) {
+          try {
+            return await waitForPendingMint(chain, p, signal);
+          } catch (e) {
+            if (signal?.aborted) throw e;
+            // The tx is still out there; keep following it rather than give up
+            log.warn("Following pending mint failed, retrying", {
+              txHash: p.hash,
+              retryInMs: delay,
+              error: e,
+            });
+            await sleep(delay);
+          }
+        }
+      };
+      const promise = follow()
+        .then((outcome) => {
+          removePendingMint(p.hash);
+          setPending((list) => list.filter((x) => x.hash !== p.hash));
+          onSettledRef.current(p, outcome);
+          return outcome;
+        })
+        .finally(() => {
+          // Only the current watcher's entry; an aborted one may finish late
+          if (watching.current.get(key) === promise) {
+            watching.current.delete(key);
+          }
+        });
+      watching.current.set(key, promise);
+      return promise;
+    },
+    [chain]
+  );
+
+  useEffect(() => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const watched = watching.current;
+    if (account) {
+      const mine = loadPendingMints().filter(
+        (p) =>
+          isPendingMintFor(p, chain) &&
+          p.account.toLowerCase() === account.toLowerCase()
+      );
+      setPending(mine);
+      // Watchers only reject once aborted, on unmount/account change
+      mine.forEach((p) => watch(p).catch(() => {}));
+    } else {
+      setPending([]);
+    }
+    return () => {
+      controller.abort();
+      watched.clear();
+    };
+  }, [account, chain, watch]);
+
+  /** Persist a just-submitted mint and wait for its outcome. */
+  const track = useCallback(
+    (p: PendingMint) => {
+      addPendingMint(p);
+      setPending((list) => [...list, p]);
+      return watch(p);
+    },
+    [watch]
+  );
+
+  return { pending, track };
+}
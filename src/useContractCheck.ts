@@ -0,0 +1,34 @@
+import { useEffect, useState } from "react";
+import { checkDeployedContract } from "./contractCheck";
+import type { ContractCheckResult } from "./contractCheck";
+import type { ChainConfig } from "./chains/registry";
+import { createLogger } from "./logging/logger";
+
+const log = createLogger("contract");
+
+/** Runs the ABI/bytecode compatibility check whenever the chain changes. */
+export function useContractCheck(chain: ChainConfig) {
+  const [result, setResult] = useState<ContractCheckResult | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setResult(null);
+    checkDeployedContract(chain)
+      .then((r) => {
+        if (cancelled) return;
+        if (r.missingOptional.length) {
+          log.warn("Contract lacks optional functions", {
+            missing: r.missingOptional,
+          });
+        }
+        setResult(r);
+      })
+      // RPC trouble is not a mismatch; other reads will surface it
+      .catch((e) => log.warn("Contract check failed", { error: e }));
+    return () => {
+      cancelled = true;
+    };
+  }, [chain]);
+
+  return result;
+}
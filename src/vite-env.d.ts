@@ -1 +1,46 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // Monad testnet deployment
+  readonly VITE_CONTRACT_ADDRESS?: string;
+  readonly VITE_MONAD_RPC_URL?: string;
+  // Comma-separated list of read RPC URLs, tried in order on failure
+  readonly VITE_MONAD_RPC_URLS?: string;
+  // Block the contract was deployed at; lower bound for log scans
+  readonly VITE_CONTRACT_DEPLOY_BLOCK?: string;
+  // JSON array of mint phases, e.g.
+  // [{"kind":"allowlist","start":"2025-06-01T16:00:00Z","end":"...","price":"0.05"},
+  //  {"kind":"public","maxPerWallet":2}]
+  readonly VITE_MINT_SCHEDULE?: string;
+  // Monad mainnet deployment
+  readonly VITE_MAINNET_CONTRACT_ADDRESS?: string;
+  readonly VITE_MAINNET_RPC_URLS?: string;
+  readonly VITE_MAINNET_EXPLORER_URL?: string;
+  readonly VITE_MAINNET_DEPLOY_BLOCK?: string;
+  readonly VITE_MAINNET_MINT_SCHEDULE?: string;
+  // Local dev chain (Anvil / Hardhat)
+  readonly VITE_LOCAL_CONTRACT_ADDRESS?: string;
+  readonly VITE_LOCAL_RPC_URL?: string;
+  readonly VITE_LOCAL_MULTICALL3_ADDRESS?: string;
+  readonly VITE_LOCAL_MINT_SCHEDULE?: string;
+  // Chain key selected on first visit, e.g. "monad-testnet"
+  readonly VITE_DEFAULT_CHAIN?: string;
+  // JSON array of extra collections served under /c/:slug, fetched on load
+  // (same format as src/collections/collections.json)
+  readonly VITE_COLLECTIONS_URL?: string;
+  // SIWE verifier (scripts/siwe-verifier.ts); in-page verification if unset
+  readonly VITE_SIWE_VERIFIER_URL?: string;
+  // Comma-separated gateway base URLs for ipfs:// and ar:// token URIs
+  readonly VITE_IPFS_GATEWAYS?: string;
+  readonly VITE_ARWEAVE_GATEWAYS?: string;
+  // Console log level: debug | info | warn | error (warn in production builds)
+  readonly VITE_LOG_LEVEL?: string;
+  // Error reporting endpoint (scripts/log-sink.ts locally); off if unset
+  readonly VITE_LOG_ENDPOINT?: string;
+  // Lowest level sent to VITE_LOG_ENDPOINT, default warn
+  readonly VITE_LOG_REPORT_LEVEL?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
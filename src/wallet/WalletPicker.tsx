@@ -0,0 +1,66 @@
+import type { EIP6963ProviderDetail } from "./eip6963";
+import { useI18n } from "../i18n/i18n";
+
+interface WalletPickerProps {
+  wallets: EIP6963ProviderDetail[];
+  selectedRdns?: string;
+  onSelect: (wallet: EIP6963ProviderDetail) => void;
+  onClose: () => void;
+}
+
+export default function WalletPicker({
+  wallets,
+  selectedRdns,
+  onSelect,
+  onClose,
+}: WalletPickerProps) {
+  const { t } = useI18n();
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 px-4"
+      onClick={onClose}
+    >
+      <div
+        role="dialog"
+        aria-label={t("walletPicker.title")}
+        className="w-full max-w-sm bg-gray-900 rounded-lg p-4"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center mb-3">
+          <h2 className="text-lg font-semibold">{t("walletPicker.title")}</h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-white"
+            aria-label={t("action.close")}
+          >
+            ✕
+          </button>
+        </div>
+        {wallets.length === 0 ? (
+          <p className="text-sm text-gray-300">{t("walletPicker.none")}</p>
+        ) : (
+          <ul className="flex flex-col gap-2">
+            {wallets.map((w) => (
+              <li key={w.info.uuid}>
+                <button
+                  onClick={() => onSelect(w)}
+                  className={`w-full flex items-center gap-3 px-3 py-2 rounded bg-gray-800 hover:bg-gray-700 ${
+                    w.info.rdns === selectedRdns ? "ring-2 ring-accent" : ""
+                  }`}
+                >
+                  {w.info.icon ? (
+                    <img src={w.info.icon} alt="" className="w-7 h-7 rounded" />
+                  ) : (
+                    <span className="w-7 h-7 rounded bg-gray-600" />
+                  )}
+                  <span className="text-sm">{w.info.name}</span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
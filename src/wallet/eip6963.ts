@@ -0,0 +1,90 @@
+// EIP-6963 multi injected provider discovery.
+// Wallets announce themselves with an `eip6963:announceProvider` event instead
+// of racing each other for `window.ethereum`.
+
+export interface EIP1193RequestArgs {
+  method: string;
+  params?: unknown[] | Record<string, unknown>;
+}
+
+export interface EIP1193Provider {
+  request(args: EIP1193RequestArgs): Promise<unknown>;
+  on?(event: string, listener: (...args: never[]) => void): void;
+  removeListener?(event: string, listener: (...args: never[]) => void): void;
+}
+
+export interface EIP6963ProviderInfo {
+  uuid: string;
+  name: string;
+  icon: string; // data URI
+  rdns: string;
+}
+
+export interface EIP6963ProviderDetail {
+  info: EIP6963ProviderInfo;
+  provider: EIP1193Provider;
+}
+
+export type EIP6963AnnounceProviderEvent = CustomEvent<EIP6963ProviderDetail>;
+
+// rdns used for the non-6963 `window.ethereum` fallback entry
+export const LEGACY_INJECTED_RDNS = "injected.window.ethereum";
+
+function isProviderDetail(value: unknown): value is EIP6963ProviderDetail {
+  const d = value as Partial<EIP6963ProviderDetail> | null;
+  return Boolean(
+    d &&
+      d.info &&
+      typeof d.info.uuid === "string" &&
+      typeof d.info.rdns === "string" &&
+      typeof d.info.name === "string" &&
+      d.provider &&
+      typeof d.provider.request === "function"
+  );
+}
+
+/**
+ * Listen for wallet announcements and ask every installed wallet to announce.
+ * `onChange` receives the full, de-duplicated list each time it changes.
+ * Returns an unsubscribe function.
+ */
+export function discoverWallets(
+  onChange: (wallets: EIP6963ProviderDetail[]) => void
+) {
+  const byRdns = new Map<string, EIP6963ProviderDetail>();
+
+  const emit = () => onChange(Array.from(byRdns.values()));
+
+  const onAnnounce = (event: EIP6963AnnounceProviderEvent) => {
+    if (!isProviderDetail(event.detail)) return;
+    const detail = event.detail;
+    // A wallet may re-announce (e.g. after its extension reloads); keep the newest
+    byRdns.set(detail.info.rdns, Object.freeze({ ...detail }));
+    byRdns.delete(LEGACY_INJECTED_RDNS);
+    emit();
+  };
+
+  window.addEventListener("eip6963:announceProvider", onAnnounce);
+  window.dispatchEvent(new Event("eip6963:requestProvider"));
+
+  // Older wallets only inject window.ethereum. Offer it if nobody announced.
+  const legacyTimer = window.setTimeout(() => {
+    if (byRdns.size === 0 && window.ethereum) {
+      byRdns.set(LEGACY_INJECTED_RDNS, {
+        info: {
+          uuid: LEGACY_INJECTED_RDNS,
+          name: "Browser Wallet",
+          icon: "",
+          rdns: LEGACY_INJECTED_RDNS,
+        },
+        provider: window.ethereum,
+      });
+      emit();
+    }
+  }, 300);
+
+  return () => {
+    window.clearTimeout(legacyTimer);
+    window.removeEventListener("eip6963:announceProvider", onAnnounce);
+  };
+}
@@ -0,0 +1,193 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { BrowserProvider } from "ethers";
+import { switchWalletChain } from "../chains/switchNetwork";
+import type { ChainConfig } from "../chains/registry";
+import { createLogger } from "../logging/logger";
+import { useWallets } from "./useWallets";
+import type { EIP1193Provider, EIP6963ProviderDetail } from "./eip6963";
+
+const log = createLogger("wallet");
+
+export type WalletSession =
+  | { status: "disconnected" }
+  // Checking eth_accounts on the remembered wallet, no prompt shown
+  | { status: "restoring"; wallet: EIP6963ProviderDetail }
+  // Waiting on the user in the wallet's connect prompt
+  | { status: "connecting"; wallet: EIP6963ProviderDetail }
+  | {
+      status: "connected";
+      wallet: EIP6963ProviderDetail;
+      account: string;
+      chainId: number; // may differ from the page's chain
+    };
+
+export interface WalletSessionOptions {
+  /** The connected wallet moved to another network. */
+  onChainChanged?: (chainId: number) => void;
+}
+
+const DISCONNECTED: WalletSession = { status: "disconnected" };
+
+async function request<T>(provider: EIP1193Provider, method: string) {
+  return (await provider.request({ method })) as T;
+}
+
+/**
+ * The user's wallet connection. Owns the provider's accountsChanged,
+ * chainChanged and disconnect subscriptions, and on page load silently
+ * reconnects the remembered wallet if it still has this site authorized.
+ */
+export function useWalletSession({
+  onChainChanged,
+}: WalletSessionOptions = {}) {
+  const { wallets, selected, select, clear } = useWallets();
+  const [session, setSession] = useState<WalletSession>(DISCONNECTED);
+  // Bumped by connect/disconnect so a slower restore or connect can't win
+  const attemptRef = useRef(0);
+  // The silent restore runs at most once per page load
+  const restoreRef = useRef(false);
+  const onChainChangedRef = useRef(onChainChanged);
+
+  useEffect(() => {
+    onChainChangedRef.current = onChainChanged;
+  }, [onChainChanged]);
+
+  useEffect(() => {
+    if (!selected || restoreRef.current) return;
+    restoreRef.current = true;
+    const attempt = ++attemptRef.current;
+    const stale = () => attemptRef.current !== attempt;
+    setSession({ status: "restoring", wallet: selected });
+    (async () => {
+      try {
+        // eth_accounts never prompts; a locked or revoked wallet returns []
+        const accounts = await request<string[]>(
+          selected.provider,
+          "eth_accounts"
+        );
+        if (stale()) return;
+        if (!accounts?.length) {
+          setSession(DISCONNECTED);
+          return;
+        }
+        const chainId = Number(
+          await request<string>(selected.provider, "eth_chainId")
+        );
+        if (stale()) return;
+        setSession({
+          status: "connected",
+          wallet: selected,
+          account: accounts[0],
+          chainId,
+        });
+        log.info("Wallet session restored", { wallet: selected.info.rdns });
+      } catch (e) {
+        if (stale()) return;
+        log.warn("Wallet session restore failed", {
+          wallet: selected.info.rdns,
+          error: e,
+        });
+        setSession(DISCONNECTED);
+      }
+    })();
+  }, [selected]);
+
+  // Subscribed from the start of a connect, so no event slips in between the
+  // wallet's answer and the session becoming connected
+  const provider =
+    session.status === "disconnected" ? undefined : session.wallet.provider;
+
+  useEffect(() => {
+    if (!provider) return;
+    const update = (patch: { account?: string; chainId?: number }) =>
+      setSession((s) =>
+        s.status === "connected" && s.wallet.provider === provider
+          ? { ...s, ...patch }
+          : s
+      );
+    const onAccounts = (accounts: string[]) => {
+      // An empty list means the user disconnected this site in the wallet
+      if (accounts.length === 0) {
+        log.info("Wallet disconnected the site");
+        setSession((s) => (s.status === "connected" ? DISCONNECTED : s));
+      } else {
+        update({ account: accounts[0] });
+      }
+    };
+    const onChain = (chainIdHex: string) => {
+      const chainId = Number(chainIdHex);
+      update({ chainId });
+      onChainChangedRef.current?.(chainId);
+    };
+    // EIP-1193: the provider lost every chain, e.g. the extension reloaded
+    const onDisconnect = (error: unknown) => {
+      log.warn("Wallet provider disconnected", { error });
+      setSession(DISCONNECTED);
+    };
+    provider.on?.("accountsChanged", onAccounts);
+    provider.on?.("chainChanged", onChain);
+    provider.on?.("disconnect", onDisconnect);
+    return () => {
+      provider.removeListener?.("accountsChanged", onAccounts);
+      provider.removeListener?.("chainChanged", onChain);
+      provider.removeListener?.("disconnect", onDisconnect);
+    };
+  }, [provider]);
+
+  /**
+   * Prompt `wallet` for accounts, first moving it onto `chain`. Resolves false
+   * if a later connect or disconnect superseded this one; throws wallet errors.
+   */
+  const connect = useCallback(
+    async (wallet: EIP6963ProviderDetail, chain: ChainConfig) => {
+      const attempt = ++attemptRef.current;
+      restoreRef.current = true;
+      select(wallet);
+      setSession({ status: "connecting", wallet });
+      try {
+        const provider = new BrowserProvider(wallet.provider);
+        await switchWalletChain(provider, chain);
+        const accounts: string[] = await provider.send(
+          "eth_requestAccounts",
+          []
+        );
+        const chainId = Number(await provider.send("eth_chainId", []));
+        if (attemptRef.current !== attempt) return false;
+        setSession({
+          status: "connected",
+          wallet,
+          account: accounts[0],
+          chainId,
+        });
+        return true;
+      } catch (e) {
+        if (attemptRef.current === attempt) setSession(DISCONNECTED);
+        throw e;
+      }
+    },
+    [select]
+  );
+
+  /** Forget the wallet so the next visit doesn't reconnect it. */
+  const disconnect = useCallback(() => {
+    attemptRef.current++;
+    if (session.status !== "disconnected") {
+      // Not every wallet supports revoking; forgetting it here is what counts
+      session.wallet.provider
+        .request({
+          method: "wallet_revokePermissions",
+          params: [{ eth_accounts: {} }],
+        })
+        .catch((e) =>
+          log.debug("Wallet kept its permissions", {
+            wallet: session.wallet.info.rdns,
+            error: e,
+          })
+        );
+    }
+    clear();
+    setSession(DISCONNECTED);
+  }, [session, clear]);
+
+  return { session, wallets, connect, disconnect };
+}
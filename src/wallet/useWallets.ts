@@ -0,0 +1,50 @@
+import { useCallback, useEffect, useState } from "react";
+import { discoverWallets } from "./eip6963";
+import type { EIP6963ProviderDetail } from "./eip6963";
+
+const LAST_WALLET_KEY = "shramp:lastWallet";
+
+function readLastWallet() {
+  try {
+    return localStorage.getItem(LAST_WALLET_KEY);
+  } catch {
+    return null;
+  }
+}
+
+function writeLastWallet(rdns: string | null) {
+  try {
+    if (rdns) localStorage.setItem(LAST_WALLET_KEY, rdns);
+    else localStorage.removeItem(LAST_WALLET_KEY);
+  } catch {
+    // storage may be unavailable (private mode); selection just won't persist
+  }
+}
+
+/**
+ * Tracks announced EIP-6963 wallets and the user's selected one.
+ * The last choice (by rdns) is remembered and re-selected once that wallet
+ * announces itself again on the next visit.
+ */
+export function useWallets() {
+  const [wallets, setWallets] = useState<EIP6963ProviderDetail[]>([]);
+  const [selectedRdns, setSelectedRdns] = useState<string | null>(
+    readLastWallet
+  );
+
+  useEffect(() => discoverWallets(setWallets), []);
+
+  const selected = wallets.find((w) => w.info.rdns === selectedRdns) ?? null;
+
+  const select = useCallback((wallet: EIP6963ProviderDetail) => {
+    setSelectedRdns(wallet.info.rdns);
+    writeLastWallet(wallet.info.rdns);
+  }, []);
+
+  const clear = useCallback(() => {
+    setSelectedRdns(null);
+    writeLastWallet(null);
+  }, []);
+
+  return { wallets, selected, select, clear };
+}
@@ -1,3 +1,4 @@
+/// <reference types="vitest/config" />
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
 import tailwindcss from '@tailwindcss/vite'
@@ -5,4 +6,14 @@ import tailwindcss from '@tailwindcss/vite'
 // https://vite.dev/config/
 export default defineConfig({
   plugins: [react(), tailwindcss()],
+  test: {
+    environment: 'jsdom',
+    setupFiles: ['./src/test/setup.ts'],
+    // Deployment the tests' mock chain serves (see src/test/mockChain.ts)
+    env: {
+      VITE_CONTRACT_ADDRESS: '0x5FbDB2315678afecb367f032d93F642f64180aa3',
+      VITE_MONAD_RPC_URL: 'http://rpc.mock/',
+      VITE_COLLECTIONS_URL: 'http://collections.mock/collections.json',
+    },
+  },
 })